@@ -0,0 +1,236 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Bell, ExternalLink, Trash2 } from "lucide-react";
+import SiteHeader from "@/components/SiteHeader";
+import AlertRuleForm from "@/components/AlertRuleForm";
+import { AlertEvent, AlertRule, MarketsSnapshot, UnifiedMarket } from "@/types";
+import { describeCondition } from "@/utils/alerts";
+import { categoryLabel } from "@/utils/categories";
+
+export default function AlertsPage() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [markets, setMarkets] = useState<UnifiedMarket[]>([]);
+  const [permission, setPermission] = useState<NotificationPermission | "unsupported">("default");
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    const res = await fetch("/api/alerts/rules", { cache: "no-store" });
+    if (res.ok) setRules((await res.json()).rules);
+  }, []);
+
+  const loadEvents = useCallback(async () => {
+    const res = await fetch("/api/alerts/events?limit=200", { cache: "no-store" });
+    if (res.ok) setEvents((await res.json()).events);
+  }, []);
+
+  useEffect(() => {
+    loadRules().catch(() => setError("Failed to load alert rules"));
+    loadEvents().catch(() => setError("Failed to load alert history"));
+    // Matched pairs for the rule form's pair picker
+    fetch("/api/markets", { cache: "no-cache" })
+      .then((res) => res.json())
+      .then((snapshot: MarketsSnapshot) =>
+        setMarkets(snapshot.markets.filter((m) => Object.keys(m.quotes).length > 1))
+      )
+      .catch(() => undefined);
+    setPermission(typeof Notification === "undefined" ? "unsupported" : Notification.permission);
+
+    const interval = setInterval(loadEvents, 30_000);
+    return () => clearInterval(interval);
+  }, [loadRules, loadEvents]);
+
+  const createRule = async (rule: Record<string, unknown>): Promise<string | null> => {
+    const res = await fetch("/api/alerts/rules", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(rule),
+    });
+    if (!res.ok) return (await res.json()).error || `Alerts API error: ${res.status}`;
+    await loadRules();
+    return null;
+  };
+
+  const patchRule = async (id: string, patch: Partial<AlertRule>) => {
+    const res = await fetch(`/api/alerts/rules/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(patch),
+    });
+    if (!res.ok) setError((await res.json()).error || "Failed to update rule");
+    await loadRules();
+  };
+
+  const deleteRule = async (id: string) => {
+    await fetch(`/api/alerts/rules/${id}`, { method: "DELETE" });
+    await loadRules();
+  };
+
+  const requestPermission = async () => {
+    if (typeof Notification === "undefined") return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  const marketName = (id: string) => markets.find((m) => m.id === id)?.eventName ?? id;
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-gray-100">
+      <SiteHeader active="alerts" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Title + Browser Permission */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-200">Alerts</h2>
+            <p className="text-xs text-gray-500">
+              Rules run on every live scan and fire once each time a market
+              starts matching, no more often than the rule&apos;s cooldown.
+            </p>
+          </div>
+          {permission !== "granted" && (
+            <button
+              onClick={requestPermission}
+              disabled={permission === "unsupported" || permission === "denied"}
+              className="flex items-center gap-2 px-3 py-2 text-xs bg-gray-900/50 border border-gray-800 rounded-lg text-gray-400 hover:text-gray-200 hover:border-gray-700 transition-colors disabled:opacity-50"
+            >
+              <Bell size={14} />
+              {permission === "denied"
+                ? "Browser notifications blocked"
+                : permission === "unsupported"
+                ? "Browser notifications unsupported"
+                : "Enable browser notifications"}
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-8">
+          <AlertRuleForm markets={markets} onCreate={createRule} />
+
+          {/* Rules */}
+          <div className="border border-gray-800/50 rounded-lg bg-gray-950/50">
+            <div className="p-4 border-b border-gray-800/50 text-[10px] text-gray-500 uppercase tracking-wider">
+              Rules ({rules.length})
+            </div>
+            {rules.length === 0 ? (
+              <div className="p-8 text-center text-sm text-gray-500">No rules yet</div>
+            ) : (
+              rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-start justify-between gap-3 p-4 border-b border-gray-800/30"
+                >
+                  <div className={`min-w-0 ${rule.enabled ? "" : "opacity-50"}`}>
+                    <div className="text-sm text-gray-200">{rule.name}</div>
+                    <div className="text-xs text-gray-400 font-mono">
+                      {rule.conditions.map(describeCondition).join(" AND ")}
+                    </div>
+                    <div className="mt-1 text-[10px] text-gray-600 uppercase tracking-wider">
+                      {rule.marketId ? marketName(rule.marketId) : "Any pair"}
+                      {rule.category ? ` · ${categoryLabel(rule.category)}` : ""}
+                      {` · ${rule.channels.join(", ")} · ${rule.cooldownMinutes}m cooldown`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <label className="flex items-center gap-1.5 text-[10px] text-gray-500 uppercase">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => patchRule(rule.id, { enabled: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-700 bg-gray-800 text-emerald-500 focus:ring-emerald-500/20"
+                      />
+                      On
+                    </label>
+                    <button
+                      onClick={() => deleteRule(rule.id)}
+                      className="p-1 text-gray-500 hover:text-red-400"
+                      title="Delete rule"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* History */}
+        <div className="overflow-x-auto rounded-lg border border-gray-800/50 bg-gray-950/50">
+          <table className="w-full">
+            <thead className="bg-gray-900/50 border-b border-gray-800/50">
+              <tr>
+                <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider w-40">
+                  Fired
+                </th>
+                <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider">
+                  Alert
+                </th>
+                <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider w-48">
+                  Delivery
+                </th>
+                <th className="px-3 py-3 w-10"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800/30">
+              {events.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-3 py-12 text-center text-sm text-gray-500">
+                    No alerts have fired yet
+                  </td>
+                </tr>
+              ) : (
+                events.map((event) => (
+                  <tr key={event.id} className="hover:bg-gray-800/20 transition-colors">
+                    <td className="px-3 py-3 font-mono text-xs text-gray-500">
+                      {new Date(event.firedAt).toLocaleString()}
+                    </td>
+                    <td className="px-3 py-3 text-sm text-gray-300">{event.message}</td>
+                    <td className="px-3 py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {event.channels.includes("browser") && (
+                          <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-gray-800/60 text-gray-400 uppercase">
+                            browser
+                          </span>
+                        )}
+                        {event.deliveries.map((d) => (
+                          <span
+                            key={d.channel}
+                            title={d.error}
+                            className={`px-1.5 py-0.5 text-[10px] font-medium rounded uppercase ${
+                              d.ok ? "bg-emerald-500/10 text-emerald-400" : "bg-red-500/10 text-red-400"
+                            }`}
+                          >
+                            {d.channel} {d.ok ? "✓" : "✕"}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-3 py-3">
+                      {event.url && (
+                        <a
+                          href={event.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-gray-500 hover:text-gray-300"
+                        >
+                          <ExternalLink size={14} />
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
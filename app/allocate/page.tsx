@@ -0,0 +1,325 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Play, X } from "lucide-react";
+import SiteHeader from "@/components/SiteHeader";
+import { AllocationObjective, AllocationResult, Venue } from "@/types";
+import { DEFAULT_CONSTRAINTS, describeTrade } from "@/utils/allocator";
+import { formatUsd } from "@/utils/format";
+import { VENUE_LABELS, VENUE_ORDER } from "@/utils/venues/labels";
+
+const OBJECTIVES: { id: AllocationObjective; label: string }[] = [
+  { id: "profit", label: "Max profit" },
+  { id: "annualized", label: "Max annualized" },
+];
+
+const inputClass =
+  "w-full px-2 py-1.5 text-sm font-mono bg-gray-900/50 border border-gray-800 rounded text-gray-300 focus:outline-none focus:border-gray-700";
+
+type AllocationResponse = AllocationResult & { generatedAt: string; usedDummy: boolean };
+
+// Inputs hold strings; a blank balance leaves that venue out
+function defaultBalances(): Record<Venue, string> {
+  return Object.fromEntries(
+    VENUE_ORDER.map((v) => [v, DEFAULT_CONSTRAINTS.balances[v]?.toString() ?? ""])
+  ) as Record<Venue, string>;
+}
+
+export default function AllocatePage() {
+  const [balances, setBalances] = useState<Record<Venue, string>>(defaultBalances);
+  const [maxContracts, setMaxContracts] = useState("");
+  const [minNetROI, setMinNetROI] = useState(String(DEFAULT_CONSTRAINTS.minNetROI));
+  const [hideResolutionRisk, setHideResolutionRisk] = useState(DEFAULT_CONSTRAINTS.hideResolutionRisk);
+  const [objective, setObjective] = useState<AllocationObjective>(DEFAULT_CONSTRAINTS.objective);
+  const [limits, setLimits] = useState<Record<string, { eventName: string; contracts: string }>>({});
+  const [result, setResult] = useState<AllocationResponse | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    setIsRunning(true);
+    try {
+      const body = {
+        balances: Object.fromEntries(
+          VENUE_ORDER.filter((v) => balances[v].trim() !== "").map((v) => [v, parseFloat(balances[v])])
+        ),
+        maxContractsPerMarket: maxContracts.trim() === "" ? null : parseFloat(maxContracts),
+        marketLimits: Object.fromEntries(
+          Object.entries(limits)
+            .filter(([, limit]) => limit.contracts.trim() !== "")
+            .map(([id, limit]) => [id, parseFloat(limit.contracts)])
+        ),
+        minNetROI: parseFloat(minNetROI) || 0,
+        hideResolutionRisk,
+        objective,
+      };
+      const res = await fetch("/api/allocate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Allocate API error: ${res.status}`);
+      setResult(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Allocation failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // One line per pair, ready to paste into notes or a chat
+  const copy = async () => {
+    if (!result) return;
+    const lines = result.trades.map(
+      (t) => `${t.eventName}: ${describeTrade(t)} (${formatUsd(t.capital)}, +${formatUsd(t.expectedProfit)})`
+    );
+    lines.push(`Total: ${formatUsd(result.capital)} for +${formatUsd(result.expectedProfit)}`);
+    await navigator.clipboard.writeText(lines.join("\n"));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const setLimit = (marketId: string, eventName: string, contracts: string) =>
+    setLimits({ ...limits, [marketId]: { eventName, contracts } });
+
+  const removeLimit = (marketId: string) =>
+    setLimits(Object.fromEntries(Object.entries(limits).filter(([id]) => id !== marketId)));
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-gray-100">
+      <SiteHeader active="allocate" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Title */}
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold text-gray-200">Capital Allocation</h2>
+          <p className="text-xs text-gray-500">
+            {result
+              ? `${result.considered} pairs considered from the scan at ${new Date(result.generatedAt).toLocaleString()}${result.usedDummy ? " (demo data)" : ""}`
+              : "Sizes every open arb at once against what each venue account can fund"}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Constraints */}
+        <div className="mb-4 p-4 bg-gray-900/20 border border-gray-800/50 rounded-lg">
+          <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-3">Balances ($)</div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+            {VENUE_ORDER.map((venue) => (
+              <label key={venue} className="block">
+                <span className="block text-[10px] text-gray-500 uppercase tracking-wider mb-1">
+                  {VENUE_LABELS[venue]}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  placeholder="Not funded"
+                  value={balances[venue]}
+                  onChange={(e) => setBalances({ ...balances, [venue]: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-3">Limits</div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+            <label className="block">
+              <span className="block text-[10px] text-gray-500 uppercase tracking-wider mb-1">
+                Max contracts / pair
+              </span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                placeholder="Book depth"
+                value={maxContracts}
+                onChange={(e) => setMaxContracts(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-[10px] text-gray-500 uppercase tracking-wider mb-1">Min net ROI (%)</span>
+              <input
+                type="number"
+                step="any"
+                value={minNetROI}
+                onChange={(e) => setMinNetROI(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <div>
+              <span className="block text-[10px] text-gray-500 uppercase tracking-wider mb-1">Objective</span>
+              <div className="flex items-center gap-1">
+                {OBJECTIVES.map((o) => (
+                  <button
+                    key={o.id}
+                    onClick={() => setObjective(o.id)}
+                    className={`px-3 py-1.5 text-xs rounded border transition-colors ${
+                      objective === o.id
+                        ? "bg-gray-800 border-gray-700 text-gray-200"
+                        : "bg-gray-900/50 border-gray-800 text-gray-500 hover:text-gray-300"
+                    }`}
+                  >
+                    {o.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 py-1.5 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={hideResolutionRisk}
+                onChange={(e) => setHideResolutionRisk(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              Skip high resolution risk
+            </label>
+          </div>
+
+          {Object.keys(limits).length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {Object.entries(limits).map(([id, limit]) => (
+                <span
+                  key={id}
+                  className="flex items-center gap-1.5 px-2 py-1 text-[11px] rounded border border-gray-800 bg-gray-900/50 text-gray-400"
+                >
+                  {limit.eventName}: <span className="font-mono">{limit.contracts || "—"}</span>
+                  <button onClick={() => removeLimit(id)} className="text-gray-600 hover:text-gray-300" title="Remove cap">
+                    <X size={11} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 mb-6">
+          <button
+            onClick={run}
+            disabled={isRunning}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded border bg-emerald-500/10 border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/20 transition-colors disabled:opacity-50"
+          >
+            <Play size={12} />
+            {isRunning ? "Allocating..." : "Allocate"}
+          </button>
+          {result && result.trades.length > 0 && (
+            <button
+              onClick={copy}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded border bg-gray-900/50 border-gray-800 text-gray-400 hover:text-gray-200 transition-colors"
+            >
+              <Copy size={12} />
+              {copied ? "Copied" : "Copy trade list"}
+            </button>
+          )}
+        </div>
+
+        {result && (
+          <>
+            {/* Capital Usage */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+              <div className="bg-gray-900/30 border border-gray-800/50 rounded-lg p-4">
+                <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-2">Expected Profit</div>
+                <div className="text-2xl font-mono font-semibold text-emerald-400">
+                  {formatUsd(result.expectedProfit)}
+                </div>
+                <div className="mt-1 text-[10px] text-gray-500 font-mono">on {formatUsd(result.capital)} deployed</div>
+              </div>
+              {result.venues.map(({ venue, available, used }) => (
+                <div key={venue} className="bg-gray-900/30 border border-gray-800/50 rounded-lg p-4">
+                  <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-2">{VENUE_LABELS[venue]}</div>
+                  <div className="text-lg font-mono text-gray-200">
+                    {formatUsd(used)} <span className="text-xs text-gray-500">/ {formatUsd(available)}</span>
+                  </div>
+                  <div className="mt-2 h-1.5 rounded bg-gray-800 overflow-hidden">
+                    <div
+                      className="h-full bg-emerald-500/60"
+                      style={{ width: `${available > 0 ? Math.min(100, (used / available) * 100) : 0}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Trades */}
+            <div className="border border-gray-800/50 rounded-lg bg-gray-950/50 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-800/50 text-[10px] text-gray-500 uppercase tracking-wider">
+                    <th className="px-4 py-3 text-left font-medium">Pair</th>
+                    <th className="px-4 py-3 text-left font-medium">Orders</th>
+                    <th className="px-4 py-3 text-right font-medium">Capital</th>
+                    <th className="px-4 py-3 text-right font-medium">Profit</th>
+                    <th className="px-4 py-3 text-right font-medium">Net ROI</th>
+                    <th className="px-4 py-3 text-right font-medium">Resolves</th>
+                    <th className="px-4 py-3 text-right font-medium">Annualized</th>
+                    <th className="px-4 py-3 text-right font-medium w-28">Cap</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800/30">
+                  {result.trades.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="px-4 py-12 text-center text-sm text-gray-500">
+                        Nothing clears the limits with these balances
+                      </td>
+                    </tr>
+                  ) : (
+                    result.trades.map((trade) => (
+                      <tr key={trade.marketId} className="hover:bg-gray-800/20 transition-colors align-top">
+                        <td className="px-4 py-3">
+                          <div className="text-gray-200">{trade.eventName}</div>
+                          {!trade.depthKnown && (
+                            <div className="text-[10px] text-yellow-500/80">Sized from top of book only</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 space-y-1 font-mono text-xs text-gray-400">
+                          {describeTrade(trade)
+                            .split(" / ")
+                            .map((order) => (
+                              <div key={order}>{order}</div>
+                            ))}
+                        </td>
+                        <td className="px-4 py-3 text-right font-mono text-gray-300">{formatUsd(trade.capital)}</td>
+                        <td className="px-4 py-3 text-right font-mono text-emerald-400">
+                          {formatUsd(trade.expectedProfit)}
+                        </td>
+                        <td className="px-4 py-3 text-right font-mono text-gray-300">{trade.netROI.toFixed(2)}%</td>
+                        <td className="px-4 py-3 text-right font-mono text-gray-400">
+                          {trade.daysToResolution === null ? "—" : `${Math.round(trade.daysToResolution)}d`}
+                        </td>
+                        <td className="px-4 py-3 text-right font-mono text-gray-300">
+                          {trade.annualizedROI === null ? "—" : `${trade.annualizedROI.toFixed(1)}%`}
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            placeholder={String(trade.contracts)}
+                            value={limits[trade.marketId]?.contracts ?? ""}
+                            onChange={(e) => setLimit(trade.marketId, trade.eventName, e.target.value)}
+                            className={inputClass}
+                            title="Contract cap for this pair on the next run"
+                          />
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { Activity, BarChart3, Clock, Search, TrendingUp } from "lucide-react";
+import SiteHeader from "@/components/SiteHeader";
+import ArbsPerDayChart from "@/components/ArbsPerDayChart";
+import SpreadHistoryChart from "@/components/SpreadHistoryChart";
+import { HistorySummary, PairHistory } from "@/types";
+import { CATEGORY_PROFILES, categoryLabel } from "@/utils/categories";
+import { formatDuration, formatSpreadPercent } from "@/utils/format";
+
+const RANGES = [1, 7, 30, 90];
+
+export default function AnalyticsPage() {
+  const [days, setDays] = useState(7);
+  const [summary, setSummary] = useState<HistorySummary | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pair, setPair] = useState<PairHistory | null>(null);
+  const [query, setQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Aggregate stats for the range
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetch(`/api/history?days=${days}`, { cache: "no-store" })
+      .then((res) => {
+        if (!res.ok) throw new Error(`History API error: ${res.status}`);
+        return res.json();
+      })
+      .then((result: HistorySummary) => {
+        if (cancelled) return;
+        setSummary(result);
+        setError(null);
+        setSelectedId((id) =>
+          id && result.pairs.some((p) => p.id === id) ? id : result.pairs[0]?.id ?? null
+        );
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load history");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  // Series for the selected pair
+  useEffect(() => {
+    if (!selectedId) {
+      setPair(null);
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/history?days=${days}&id=${encodeURIComponent(selectedId)}`, { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result: PairHistory | null) => {
+        if (!cancelled) setPair(result);
+      })
+      .catch(() => {
+        if (!cancelled) setPair(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, days]);
+
+  const visiblePairs = useMemo(() => {
+    const pairs = summary?.pairs ?? [];
+    if (!query) return pairs;
+    const q = query.toLowerCase();
+    return pairs.filter((p) => p.eventName.toLowerCase().includes(q));
+  }, [summary, query]);
+
+  const totalArbs = summary?.arbsPerDay.reduce((sum, d) => sum + d.count, 0) ?? 0;
+  const arbsPerDay = summary && summary.arbsPerDay.length > 0 ? totalArbs / summary.arbsPerDay.length : 0;
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-gray-100">
+      <SiteHeader active="analytics" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Title + Range */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-200">Spread History</h2>
+            <p className="text-xs text-gray-500">
+              {summary?.from && summary.to
+                ? `${summary.scans} scans from ${new Date(summary.from).toLocaleString()} to ${new Date(summary.to).toLocaleString()}`
+                : "Recorded from every live scan"}
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            {RANGES.map((range) => (
+              <button
+                key={range}
+                onClick={() => setDays(range)}
+                className={`px-3 py-1.5 text-xs font-mono rounded border transition-colors ${
+                  days === range
+                    ? "bg-gray-800 border-gray-700 text-gray-200"
+                    : "bg-gray-900/50 border-gray-800 text-gray-500 hover:text-gray-300"
+                }`}
+              >
+                {range}D
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+          <div className="bg-gray-900/30 border border-gray-800/50 rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <BarChart3 size={14} className="text-gray-500" />
+              <span className="text-[10px] text-gray-500 uppercase tracking-wider">Scans</span>
+            </div>
+            <div className="text-2xl font-mono font-semibold text-gray-200">
+              {summary?.scans ?? 0}
+            </div>
+          </div>
+
+          <div className="bg-gray-900/30 border border-gray-800/50 rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <Activity size={14} className="text-gray-500" />
+              <span className="text-[10px] text-gray-500 uppercase tracking-wider">Pairs Tracked</span>
+            </div>
+            <div className="text-2xl font-mono font-semibold text-gray-200">
+              {summary?.pairs.length ?? 0}
+            </div>
+          </div>
+
+          <div className="bg-emerald-500/5 border border-emerald-500/20 rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <TrendingUp size={14} className="text-emerald-400" />
+              <span className="text-[10px] text-emerald-400/70 uppercase tracking-wider">Arbs / Day</span>
+            </div>
+            <div className="text-2xl font-mono font-semibold text-emerald-400">
+              {arbsPerDay.toFixed(1)}
+            </div>
+          </div>
+
+          <div className="bg-gray-900/30 border border-gray-800/50 rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <Clock size={14} className="text-gray-500" />
+              <span className="text-[10px] text-gray-500 uppercase tracking-wider">Median Arb Life</span>
+            </div>
+            <div className="text-2xl font-mono font-semibold text-gray-200">
+              {formatDuration(summary?.medianArbMinutes ?? null)}
+            </div>
+          </div>
+        </div>
+
+        {!isLoading && summary?.scans === 0 ? (
+          <div className="p-12 text-center border border-gray-800/50 rounded-lg text-sm text-gray-500">
+            No scans recorded yet. History is written every time the scanner
+            refreshes live (non-demo) data.
+          </div>
+        ) : (
+          <>
+            {/* Arbs per Day */}
+            <div className="mb-6 p-4 bg-gray-900/20 border border-gray-800/50 rounded-lg">
+              <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-3">
+                New arbs per day
+              </div>
+              <ArbsPerDayChart days={summary?.arbsPerDay ?? []} />
+            </div>
+
+            {/* Pair Picker + Chart */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
+              <div className="border border-gray-800/50 rounded-lg bg-gray-950/50">
+                <div className="p-3 border-b border-gray-800/50">
+                  <div className="relative">
+                    <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+                    <input
+                      type="text"
+                      placeholder="Search pairs..."
+                      value={query}
+                      onChange={(e) => setQuery(e.target.value)}
+                      className="w-full pl-9 pr-3 py-2 text-sm bg-gray-900/50 border border-gray-800 rounded-lg text-gray-300 placeholder-gray-600 focus:outline-none focus:border-gray-700"
+                    />
+                  </div>
+                </div>
+                <div className="max-h-96 overflow-y-auto">
+                  {visiblePairs.map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => setSelectedId(p.id)}
+                      className={`w-full flex items-center justify-between gap-3 px-3 py-2 text-left border-b border-gray-800/30 transition-colors ${
+                        p.id === selectedId ? "bg-gray-800/50" : "hover:bg-gray-800/20"
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <div className="text-sm text-gray-300 truncate">{p.eventName}</div>
+                        <div className="text-[10px] text-gray-600 uppercase tracking-wider">
+                          {categoryLabel(p.category)} · {p.scans} scans
+                        </div>
+                      </div>
+                      <span className="font-mono text-xs text-yellow-500/80">
+                        {formatSpreadPercent(p.maxSpreadPercent)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="lg:col-span-2 p-4 border border-gray-800/50 rounded-lg bg-gray-950/50">
+                {pair ? (
+                  <>
+                    <div className="text-sm text-gray-200 mb-1">{pair.eventName}</div>
+                    <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-3">
+                      {categoryLabel(pair.category)} · venue prices and spread
+                    </div>
+                    <SpreadHistoryChart history={pair} />
+                  </>
+                ) : (
+                  <div className="py-12 text-center text-sm text-gray-500">
+                    Select a pair to chart it
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Widest Spreads by Category */}
+            <div className="border border-gray-800/50 rounded-lg bg-gray-950/50">
+              <div className="p-4 border-b border-gray-800/50 text-[10px] text-gray-500 uppercase tracking-wider">
+                Widest spreads by category
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-px bg-gray-800/30">
+                {CATEGORY_PROFILES.filter((p) => summary?.widestSpreads[p.id]?.length).map((profile) => (
+                  <div key={profile.id} className="p-4 bg-[#0a0a0a]">
+                    <div className="text-xs font-medium text-gray-300 mb-2">{profile.label}</div>
+                    {summary?.widestSpreads[profile.id]?.map((spread) => (
+                      <button
+                        key={spread.id}
+                        onClick={() => setSelectedId(spread.id)}
+                        className="w-full flex items-center justify-between gap-3 py-1 text-left hover:text-gray-200"
+                      >
+                        <span className="text-xs text-gray-400 truncate">{spread.eventName}</span>
+                        <span className="font-mono text-xs text-yellow-500/80">
+                          {formatSpreadPercent(spread.spreadPercent)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
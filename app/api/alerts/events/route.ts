@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadAlertEvents } from "@/utils/alertStore";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// GET /api/alerts/events?limit=100 - fired alerts, newest first
+// GET /api/alerts/events?since=<ISO> - only alerts after a moment, as polled
+// by open tabs for browser notifications
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const limit = Math.min(parseInt(params.get("limit") || "", 10) || DEFAULT_LIMIT, MAX_LIMIT);
+  const sinceParam = params.get("since");
+  const since = sinceParam ? new Date(sinceParam) : undefined;
+  if (since && Number.isNaN(since.getTime())) {
+    return NextResponse.json({ error: "since must be an ISO timestamp" }, { status: 400 });
+  }
+
+  return NextResponse.json({ events: await loadAlertEvents({ since, limit }) });
+}
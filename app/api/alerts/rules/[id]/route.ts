@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { webhookUrlError } from "@/utils/alertDelivery";
+import { parseRuleInput } from "@/utils/alerts";
+import { removeRule, updateRule } from "@/utils/alertStore";
+
+export const dynamic = "force-dynamic";
+
+// PATCH /api/alerts/rules/:id - change some fields, e.g. { enabled: false }
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const body = await request.json().catch(() => null);
+  const parsed = parseRuleInput(body, false);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  if (parsed.rule.webhookUrl) {
+    const error = await webhookUrlError(parsed.rule.webhookUrl);
+    if (error) return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const rule = await updateRule(params.id, parsed.rule);
+  if (!rule) {
+    return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+  }
+  return NextResponse.json({ rule });
+}
+
+// DELETE /api/alerts/rules/:id
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  if (!(await removeRule(params.id))) {
+    return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+  }
+  return NextResponse.json({ removed: 1 });
+}
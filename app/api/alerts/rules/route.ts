@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { webhookUrlError } from "@/utils/alertDelivery";
+import { parseRuleInput } from "@/utils/alerts";
+import { AlertRuleInput, addRule, loadRules } from "@/utils/alertStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/alerts/rules - every alert rule
+export async function GET() {
+  return NextResponse.json({ rules: await loadRules() });
+}
+
+// POST /api/alerts/rules - { name, conditions, channels, ... } creates a
+// rule; it is evaluated from the next scan on
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const parsed = parseRuleInput(body, true);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  if (parsed.rule.webhookUrl) {
+    const error = await webhookUrlError(parsed.rule.webhookUrl);
+    if (error) return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const rule = await addRule(parsed.rule as AlertRuleInput);
+  return NextResponse.json({ rule }, { status: 201 });
+}
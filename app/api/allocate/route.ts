@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_CONSTRAINTS, allocateCapital, parseAllocationInput } from "@/utils/allocator";
+import { getLiveMarkets } from "@/utils/liveFeed";
+import { getMarketsSnapshot } from "@/utils/snapshotCache";
+
+export const dynamic = "force-dynamic";
+
+// Latest scan with streamed quotes applied
+async function currentMarkets() {
+  const { snapshot } = await getMarketsSnapshot();
+  const live = new Map(getLiveMarkets().map((m) => [m.id, m]));
+  return { snapshot, markets: snapshot.markets.map((m) => live.get(m.id) ?? m) };
+}
+
+// GET /api/allocate - the default balances and limits over the latest scan
+export async function GET() {
+  const { snapshot, markets } = await currentMarkets();
+  return NextResponse.json({
+    ...allocateCapital(markets, DEFAULT_CONSTRAINTS),
+    constraints: DEFAULT_CONSTRAINTS,
+    generatedAt: snapshot.generatedAt,
+    usedDummy: snapshot.usedDummy,
+  });
+}
+
+// POST /api/allocate - { balances, maxContractsPerMarket, marketLimits,
+// minNetROI, hideResolutionRisk, objective }; omitted fields take the defaults
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const parsed = parseAllocationInput(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { snapshot, markets } = await currentMarkets();
+  return NextResponse.json({
+    ...allocateCapital(markets, parsed.constraints),
+    constraints: parsed.constraints,
+    generatedAt: snapshot.generatedAt,
+    usedDummy: snapshot.usedDummy,
+  });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_ASSUMPTIONS, DEFAULT_STRATEGIES, parseBacktestInput, runBacktest } from "@/utils/backtest";
+import { loadHistory } from "@/utils/historyStore";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function historySince(days: unknown) {
+  const n = Math.min(Number(days) || DEFAULT_DAYS, MAX_DAYS);
+  return loadHistory(new Date(Date.now() - n * MS_PER_DAY));
+}
+
+// GET /api/backtest?days=30 - the default strategies over recorded scans
+export async function GET(request: NextRequest) {
+  const scans = await historySince(request.nextUrl.searchParams.get("days"));
+  return NextResponse.json(runBacktest(scans, DEFAULT_STRATEGIES, DEFAULT_ASSUMPTIONS));
+}
+
+// POST /api/backtest - { days, strategies, assumptions } runs custom
+// strategies; omitted fields take the defaults
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const parsed = parseBacktestInput(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const scans = await historySince((body as { days?: unknown } | null)?.days);
+  return NextResponse.json(runBacktest(scans, parsed.strategies, parsed.assumptions));
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { pairHistory, summarizeHistory } from "@/utils/analytics";
+import { loadHistory } from "@/utils/historyStore";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 90;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// GET /api/history?days=7 - aggregate stats over recorded scans
+// GET /api/history?id=<market id>&days=7 - one pair's prices and spread over time
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const days = Math.min(parseInt(params.get("days") || "", 10) || DEFAULT_DAYS, MAX_DAYS);
+  const scans = await loadHistory(new Date(Date.now() - days * MS_PER_DAY));
+
+  const id = params.get("id");
+  if (id) {
+    const history = pairHistory(scans, id);
+    if (!history) {
+      return NextResponse.json({ error: `No history for ${id}` }, { status: 404 });
+    }
+    return NextResponse.json(history);
+  }
+
+  return NextResponse.json(summarizeHistory(scans));
+}
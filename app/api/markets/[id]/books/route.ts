@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MarketBooks } from "@/types";
+import { getDummyBooks } from "@/utils/demoData";
+import { getLiveMarkets } from "@/utils/liveFeed";
+import { fetchMarketBooks } from "@/utils/orderbook";
+import { getMarketsSnapshot } from "@/utils/snapshotCache";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/markets/:id/books - every listing's full order book for one pair,
+// for the detail panel. Demo pairs get the demo ladders.
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const { snapshot } = await getMarketsSnapshot();
+  const market =
+    getLiveMarkets().find((m) => m.id === params.id) ??
+    snapshot.markets.find((m) => m.id === params.id);
+  if (!market) {
+    return NextResponse.json({ error: `No pair ${params.id}` }, { status: 404 });
+  }
+
+  const body: MarketBooks = {
+    id: market.id,
+    books: snapshot.usedDummy ? getDummyBooks(market) : await fetchMarketBooks(market),
+    fetchedAt: new Date().toISOString(),
+  };
+  return NextResponse.json(body);
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getCrawlProgress } from "@/utils/snapshotCache";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/markets/progress - crawl progress of the refresh in flight, if any
+export async function GET() {
+  return NextResponse.json(getCrawlProgress());
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMarketsSnapshot } from "@/utils/snapshotCache";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/markets - latest matched snapshot, with conditional request support
+export async function GET(request: NextRequest) {
+  const cached = await getMarketsSnapshot();
+
+  const headers = {
+    ETag: cached.etag,
+    "Last-Modified": cached.lastModified.toUTCString(),
+    "Cache-Control": "no-cache",
+  };
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  const ifModifiedSince = request.headers.get("if-modified-since");
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(",").some((tag) => tag.trim() === cached.etag)
+    : ifModifiedSince !== null &&
+      cached.lastModified.getTime() <= Date.parse(ifModifiedSince);
+
+  if (notModified) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(cached.body, {
+    status: 200,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import { getLiveMarkets, getStreamStatus, subscribeLiveFeed } from "@/utils/liveFeed";
+import { getMarketsSnapshot } from "@/utils/snapshotCache";
+
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 15_000;
+
+// GET /api/markets/stream - server-sent events with live market updates.
+// "markets" carries re-priced pairs (replace by id), "status" the venue feeds.
+export async function GET(request: NextRequest) {
+  // Streaming starts with the first snapshot
+  await getMarketsSnapshot();
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+      // Catch the client up on ticks since the snapshot it loaded
+      send("status", getStreamStatus());
+      const live = getLiveMarkets();
+      if (live.length > 0) send("markets", live);
+
+      const unsubscribe = subscribeLiveFeed({
+        markets: (markets) => send("markets", markets),
+        status: (status) => send("status", status),
+      });
+      const heartbeat = setInterval(
+        () => controller.enqueue(encoder.encode(": heartbeat\n\n")),
+        HEARTBEAT_MS
+      );
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ListingKey, OverrideAction } from "@/types";
+import { addOverride, loadOverrides, removeOverrides } from "@/utils/overrideStore";
+import { invalidateMarketsSnapshot } from "@/utils/snapshotCache";
+import { VENUE_ORDER } from "@/utils/venues/labels";
+
+export const dynamic = "force-dynamic";
+
+const ACTIONS: OverrideAction[] = ["confirm", "link", "reject"];
+
+function isListingKey(value: unknown): value is ListingKey {
+  if (typeof value !== "string") return false;
+  const [venue, ...rest] = value.split(":");
+  return VENUE_ORDER.some((v) => v === venue) && rest.join(":").length > 0;
+}
+
+// At least two well-formed listing keys, or null
+function parseListings(value: unknown): ListingKey[] | null {
+  if (!Array.isArray(value) || !value.every(isListingKey)) return null;
+  const listings = Array.from(new Set(value));
+  return listings.length >= 2 ? listings : null;
+}
+
+// GET /api/overrides - every stored match decision
+export async function GET() {
+  return NextResponse.json({ overrides: await loadOverrides() });
+}
+
+// POST /api/overrides - { action, listings } records a decision and rebuilds
+// the markets snapshot with it
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const listings = parseListings(body?.listings);
+
+  if (!ACTIONS.includes(body?.action)) {
+    return NextResponse.json(
+      { error: `action must be one of ${ACTIONS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (!listings) {
+    return NextResponse.json(
+      { error: 'listings must hold at least two "venue:marketId" keys' },
+      { status: 400 }
+    );
+  }
+  const venues = listings.map((key) => key.split(":")[0]);
+  if (body.action !== "reject" && new Set(venues).size < venues.length) {
+    return NextResponse.json(
+      { error: "A match can hold only one listing per venue" },
+      { status: 400 }
+    );
+  }
+
+  const override = await addOverride(body.action, listings);
+  invalidateMarketsSnapshot();
+  return NextResponse.json({ override }, { status: 201 });
+}
+
+// DELETE /api/overrides - { listings } forgets every decision about them
+export async function DELETE(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const listings = parseListings(body?.listings);
+  if (!listings) {
+    return NextResponse.json(
+      { error: 'listings must hold at least two "venue:marketId" keys' },
+      { status: 400 }
+    );
+  }
+
+  const removed = await removeOverrides(listings);
+  if (removed > 0) invalidateMarketsSnapshot();
+  return NextResponse.json({ removed });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parsePositionPatch } from "@/utils/positions";
+import { patchPosition, removePosition } from "@/utils/positionStore";
+
+export const dynamic = "force-dynamic";
+
+// PATCH /api/positions/:id - { notes } and/or { settle: { leg, settlement } }
+// to settle a leg by hand (settlement = YES payout in cents, null reopens it)
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const body = await request.json().catch(() => null);
+  const parsed = parsePositionPatch(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const position = await patchPosition(params.id, parsed.patch);
+  if (position === null) {
+    return NextResponse.json({ error: "Position not found" }, { status: 404 });
+  }
+  if (typeof position === "string") {
+    return NextResponse.json({ error: position }, { status: 400 });
+  }
+  return NextResponse.json({ position });
+}
+
+// DELETE /api/positions/:id
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  if (!(await removePosition(params.id))) {
+    return NextResponse.json({ error: "Position not found" }, { status: 404 });
+  }
+  return NextResponse.json({ removed: 1 });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parsePositionInput, summarizePortfolio } from "@/utils/positions";
+import { addPosition, loadPositions } from "@/utils/positionStore";
+import { getVenues } from "@/utils/venues";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/positions - every recorded position with its P&L, plus totals
+// and locked capital per venue
+export async function GET() {
+  const manual = getVenues()
+    .filter((venue) => !venue.fetchSettlement)
+    .map((venue) => venue.id);
+  return NextResponse.json(summarizePortfolio(await loadPositions(), manual));
+}
+
+// POST /api/positions - { marketId, eventName, legs, notes? } records an
+// executed pair; it is marked to market from the next live scan on
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const parsed = parsePositionInput(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const position = await addPosition(parsed.position);
+  return NextResponse.json({ position }, { status: 201 });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { OpportunitiesPage } from "@/types";
+import { authorize } from "@/utils/apiAuth";
+import { getLiveMarkets } from "@/utils/liveFeed";
+import { pageOpportunities, parseOpportunityQuery } from "@/utils/publicApi";
+import { getMarketsSnapshot } from "@/utils/snapshotCache";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/opportunities?minSpread=3&showOnlyArbitrage=true&sort=netROI&limit=50
+// Matched pairs from the latest scan, with streamed quotes applied.
+// Follow nextCursor for more pages. See /openapi.json.
+export async function GET(request: NextRequest) {
+  const auth = authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const query = parseOpportunityQuery(request.nextUrl.searchParams);
+  if ("error" in query) {
+    return NextResponse.json({ error: query.error }, { status: 400, headers: auth.headers });
+  }
+
+  const { snapshot } = await getMarketsSnapshot();
+  const live = new Map(getLiveMarkets().map((m) => [m.id, m]));
+  const markets = snapshot.markets.map((m) => live.get(m.id) ?? m);
+
+  const body: OpportunitiesPage = {
+    ...pageOpportunities(markets, query),
+    generatedAt: snapshot.generatedAt,
+    usedDummy: snapshot.usedDummy,
+  };
+  return NextResponse.json(body, { headers: auth.headers });
+}
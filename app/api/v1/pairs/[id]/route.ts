@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PairResponse } from "@/types";
+import { authorize } from "@/utils/apiAuth";
+import { getLiveMarkets } from "@/utils/liveFeed";
+import { getMarketsSnapshot } from "@/utils/snapshotCache";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/pairs/:id - one pair from the latest scan, with streamed
+// quotes applied
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const { snapshot } = await getMarketsSnapshot();
+  const market =
+    getLiveMarkets().find((m) => m.id === params.id) ??
+    snapshot.markets.find((m) => m.id === params.id);
+  // Unmatched single-venue listings aren't pairs
+  if (!market || Object.keys(market.quotes).length < 2) {
+    return NextResponse.json({ error: `No pair ${params.id}` }, { status: 404, headers: auth.headers });
+  }
+
+  const body: PairResponse = {
+    data: market,
+    generatedAt: snapshot.generatedAt,
+    usedDummy: snapshot.usedDummy,
+  };
+  return NextResponse.json(body, { headers: auth.headers });
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Play, Plus } from "lucide-react";
+import SiteHeader from "@/components/SiteHeader";
+import EquityChart, { STRATEGY_COLORS } from "@/components/EquityChart";
+import StrategyEditor from "@/components/StrategyEditor";
+import { BacktestAssumptions, BacktestReport, BacktestStrategy } from "@/types";
+import { DEFAULT_ASSUMPTIONS, DEFAULT_STRATEGIES } from "@/utils/backtest";
+import { formatUsd } from "@/utils/format";
+
+const RANGES = [1, 7, 30, 90];
+
+const ASSUMPTION_FIELDS: { key: keyof BacktestAssumptions; label: string }[] = [
+  { key: "feeMultiplier", label: "Fee multiplier" },
+  { key: "latencySeconds", label: "Fill latency (s)" },
+  { key: "slippageCents", label: "Slippage (¢/leg)" },
+  { key: "impactCentsPer1k", label: "Impact (¢ per 1k)" },
+];
+
+const inputClass =
+  "w-full px-2 py-1.5 text-sm font-mono bg-gray-900/50 border border-gray-800 rounded text-gray-300 focus:outline-none focus:border-gray-700";
+
+function pnlClass(value: number): string {
+  return value > 0 ? "text-emerald-400" : value < 0 ? "text-red-400" : "text-gray-400";
+}
+
+export default function BacktestPage() {
+  const [days, setDays] = useState(30);
+  const [strategies, setStrategies] = useState<BacktestStrategy[]>(DEFAULT_STRATEGIES);
+  const [assumptions, setAssumptions] = useState<BacktestAssumptions>(DEFAULT_ASSUMPTIONS);
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    setIsRunning(true);
+    try {
+      const res = await fetch("/api/backtest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ days, strategies, assumptions }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || `Backtest API error: ${res.status}`);
+      setReport(result);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Backtest failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const download = () => {
+    if (!report) return;
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `backtest-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const setStrategy = (i: number, strategy: BacktestStrategy) =>
+    setStrategies(strategies.map((s, j) => (j === i ? strategy : s)));
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-gray-100">
+      <SiteHeader active="backtest" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Title + Range */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-200">Strategy Backtest</h2>
+            <p className="text-xs text-gray-500">
+              {report?.from && report.to
+                ? `${report.scans} scans from ${new Date(report.from).toLocaleString()} to ${new Date(report.to).toLocaleString()}`
+                : "Replays recorded scans through each strategy's rules"}
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            {RANGES.map((range) => (
+              <button
+                key={range}
+                onClick={() => setDays(range)}
+                className={`px-3 py-1.5 text-xs font-mono rounded border transition-colors ${
+                  days === range
+                    ? "bg-gray-800 border-gray-700 text-gray-200"
+                    : "bg-gray-900/50 border-gray-800 text-gray-500 hover:text-gray-300"
+                }`}
+              >
+                {range}D
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Assumptions */}
+        <div className="mb-4 p-4 bg-gray-900/20 border border-gray-800/50 rounded-lg">
+          <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-3">Assumptions</div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {ASSUMPTION_FIELDS.map(({ key, label }) => (
+              <label key={key} className="block">
+                <span className="block text-[10px] text-gray-500 uppercase tracking-wider mb-1">{label}</span>
+                <input
+                  type="number"
+                  step="any"
+                  value={Number.isNaN(assumptions[key]) ? "" : assumptions[key]}
+                  onChange={(e) => setAssumptions({ ...assumptions, [key]: parseFloat(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Strategies */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
+          {strategies.map((strategy, i) => (
+            <StrategyEditor
+              key={i}
+              strategy={strategy}
+              color={STRATEGY_COLORS[i % STRATEGY_COLORS.length]}
+              onChange={(s) => setStrategy(i, s)}
+              onRemove={strategies.length > 1 ? () => setStrategies(strategies.filter((_, j) => j !== i)) : null}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 mb-6">
+          <button
+            onClick={() => setStrategies([...strategies, { ...DEFAULT_STRATEGIES[0], name: `Strategy ${strategies.length + 1}` }])}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded border bg-gray-900/50 border-gray-800 text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            <Plus size={12} />
+            Add strategy
+          </button>
+          <button
+            onClick={run}
+            disabled={isRunning}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded border bg-emerald-500/10 border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/20 transition-colors disabled:opacity-50"
+          >
+            <Play size={12} />
+            {isRunning ? "Running..." : "Run backtest"}
+          </button>
+          {report && (
+            <button
+              onClick={download}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded border bg-gray-900/50 border-gray-800 text-gray-400 hover:text-gray-200 transition-colors"
+            >
+              <Download size={12} />
+              Download JSON
+            </button>
+          )}
+        </div>
+
+        {report && report.scans === 0 && (
+          <div className="p-12 text-center border border-gray-800/50 rounded-lg text-sm text-gray-500">
+            No scans with recorded quotes in this range. History is written every
+            time the scanner refreshes live (non-demo) data.
+          </div>
+        )}
+
+        {report && report.scans > 0 && (
+          <>
+            {/* Equity Curve */}
+            <div className="mb-6 p-4 bg-gray-900/20 border border-gray-800/50 rounded-lg">
+              <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-3">
+                Equity (realized + marked to bids)
+              </div>
+              <EquityChart results={report.results} />
+            </div>
+
+            {/* Results */}
+            <div className="border border-gray-800/50 rounded-lg bg-gray-950/50 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-800/50 text-[10px] text-gray-500 uppercase tracking-wider">
+                    <th className="px-4 py-3 text-left font-medium">Strategy</th>
+                    <th className="px-4 py-3 text-right font-medium">Signals</th>
+                    <th className="px-4 py-3 text-right font-medium">Trades</th>
+                    <th className="px-4 py-3 text-right font-medium">Missed</th>
+                    <th className="px-4 py-3 text-right font-medium">Hit Rate</th>
+                    <th className="px-4 py-3 text-right font-medium">Realized</th>
+                    <th className="px-4 py-3 text-right font-medium">Open</th>
+                    <th className="px-4 py-3 text-right font-medium">Total P&amp;L</th>
+                    <th className="px-4 py-3 text-right font-medium">Peak Capital</th>
+                    <th className="px-4 py-3 text-right font-medium">Return</th>
+                    <th className="px-4 py-3 text-right font-medium">Max DD</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono text-xs">
+                  {report.results.map((result, i) => (
+                    <tr key={i} className="border-b border-gray-800/30">
+                      <td className="px-4 py-3 font-sans text-sm text-gray-300">
+                        <div className="flex items-center gap-2">
+                          <div
+                            className="w-2 h-2 rounded-full"
+                            style={{ backgroundColor: STRATEGY_COLORS[i % STRATEGY_COLORS.length] }}
+                          ></div>
+                          {result.strategy.name}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-400">{result.signals}</td>
+                      <td className="px-4 py-3 text-right text-gray-400">{result.trades.length}</td>
+                      <td className="px-4 py-3 text-right text-gray-400">{result.missed}</td>
+                      <td className="px-4 py-3 text-right text-gray-400">
+                        {result.hitRate === null ? "—" : `${(result.hitRate * 100).toFixed(0)}%`}
+                      </td>
+                      <td className={`px-4 py-3 text-right ${pnlClass(result.realizedPnl)}`}>
+                        {formatUsd(result.realizedPnl)}
+                      </td>
+                      <td className={`px-4 py-3 text-right ${pnlClass(result.unrealizedPnl)}`}>
+                        {formatUsd(result.unrealizedPnl)}
+                      </td>
+                      <td className={`px-4 py-3 text-right font-semibold ${pnlClass(result.totalPnl)}`}>
+                        {formatUsd(result.totalPnl)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-400">{formatUsd(result.peakCapital)}</td>
+                      <td className="px-4 py-3 text-right text-gray-400">
+                        {result.returnOnPeakCapital === null ? "—" : `${result.returnOnPeakCapital.toFixed(1)}%`}
+                      </td>
+                      <td className="px-4 py-3 text-right text-red-400/80">{formatUsd(result.maxDrawdown)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
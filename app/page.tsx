@@ -1,47 +1,145 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import {
   Activity,
-  Github,
-  Twitter,
   BarChart3,
   Shield,
   Zap,
 } from "lucide-react";
 import ArbTable from "@/components/ArbTable";
-import { UnifiedMarket } from "@/types";
-import { fetchAllMarkets, getDummyData } from "@/utils/fetcher";
+import DutchBookTable from "@/components/DutchBookTable";
+import SiteHeader from "@/components/SiteHeader";
+import {
+  UnifiedMarket,
+  CrawlProgress,
+  DutchBook,
+  HistoryPoint,
+  ListingKey,
+  MarketCategory,
+  MarketsSnapshot,
+  OverrideAction,
+  StreamStatus,
+  Venue,
+} from "@/types";
+import { CATEGORY_PROFILES } from "@/utils/categories";
+import { getDummyData, getDummyDutchBooks } from "@/utils/demoData";
+
+// Spread points kept per pair for the detail panel's session sparkline
+const SESSION_POINTS = 500;
+
+// Newest live quote change in a market; 0 when it is as of the scan
+function quoteTime(market: UnifiedMarket): number {
+  return Math.max(
+    0,
+    ...Object.values(market.quotes).map((q) => (q?.updatedAt ? Date.parse(q.updatedAt) : 0))
+  );
+}
 
 export default function Home() {
   const [markets, setMarkets] = useState<UnifiedMarket[]>([]);
+  const [dutchBooks, setDutchBooks] = useState<DutchBook[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [usedDummy, setUsedDummy] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress[]>([]);
+  const [category, setCategory] = useState<MarketCategory | "all">("all");
+  const [streams, setStreams] = useState<StreamStatus[]>([]);
+  const [hurdleRate, setHurdleRate] = useState<number | null>(null);
+
+  const etagRef = useRef<string | null>(null);
+  // Latest streamed copy of each pair, so a cached snapshot can't roll it back
+  const liveRef = useRef(new Map<string, UnifiedMarket>());
+  // Each pair's spread since the page opened, one point per change
+  const sessionRef = useRef(new Map<string, HistoryPoint[]>());
 
   const loadMarkets = useCallback(async () => {
     setIsLoading(true);
-    setError(null);
+    setCrawlProgress([]);
+
+    // Poll crawl progress while the server is building a fresh snapshot
+    const progressTimer = setInterval(async () => {
+      try {
+        const res = await fetch("/api/markets/progress", { cache: "no-store" });
+        const { progress } = await res.json();
+        setCrawlProgress(progress);
+      } catch {
+        // Progress is cosmetic; ignore failures
+      }
+    }, 1000);
 
     try {
-      const result = await fetchAllMarkets();
-      setMarkets(result.markets);
-      setUsedDummy(result.usedDummy);
-      setError(result.error);
-      setLastUpdated(new Date());
+      // no-cache makes the browser revalidate with If-None-Match, so an
+      // unchanged snapshot comes back as a 304 served from the HTTP cache
+      const response = await fetch("/api/markets", { cache: "no-cache" });
+      if (!response.ok) {
+        throw new Error(`Markets API error: ${response.status}`);
+      }
+
+      const etag = response.headers.get("ETag");
+      if (etag === null || etag !== etagRef.current) {
+        const result: MarketsSnapshot = await response.json();
+        etagRef.current = etag;
+        setMarkets(
+          result.markets.map((market) => {
+            const live = liveRef.current.get(market.id);
+            return live && quoteTime(live) > quoteTime(market) ? live : market;
+          })
+        );
+        setDutchBooks(result.dutchBooks);
+        setUsedDummy(result.usedDummy);
+        setError(result.error);
+        setLastUpdated(new Date(result.generatedAt));
+        setHurdleRate(result.hurdleRate);
+      }
     } catch (err) {
       console.error("Failed to load markets:", err);
+      etagRef.current = null;
       // Fall back to dummy data on error
       setMarkets(getDummyData());
+      setDutchBooks(getDummyDutchBooks());
       setUsedDummy(true);
       setError(err instanceof Error ? err.message : "Failed to fetch data");
       setLastUpdated(new Date());
     } finally {
+      clearInterval(progressTimer);
       setIsLoading(false);
     }
   }, []);
 
+  // Store a match decision server-side, then pull the rebuilt snapshot
+  const updateOverride = useCallback(
+    async (method: "POST" | "DELETE", body: { action?: OverrideAction; listings: ListingKey[] }) => {
+      try {
+        const response = await fetch("/api/overrides", {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+          const { error } = await response.json();
+          throw new Error(error || `Overrides API error: ${response.status}`);
+        }
+        await loadMarkets();
+      } catch (err) {
+        console.error("Failed to save match override:", err);
+        setError(err instanceof Error ? err.message : "Failed to save match override");
+      }
+    },
+    [loadMarkets]
+  );
+
+  const recordPosition = useCallback(async (position: Record<string, unknown>) => {
+    const response = await fetch("/api/positions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(position),
+    });
+    if (!response.ok) return (await response.json()).error || `Positions API error: ${response.status}`;
+    return null;
+  }, []);
+
   useEffect(() => {
     loadMarkets();
     // Auto-refresh every 60 seconds
@@ -49,87 +147,64 @@ export default function Home() {
     return () => clearInterval(interval);
   }, [loadMarkets]);
 
+  // Live quotes: re-priced pairs replace their rows in place
+  useEffect(() => {
+    const source = new EventSource("/api/markets/stream");
+    source.addEventListener("markets", (event) => {
+      const updates: UnifiedMarket[] = JSON.parse((event as MessageEvent).data);
+      const byId = new Map(updates.map((m) => [m.id, m]));
+      updates.forEach((m) => liveRef.current.set(m.id, m));
+      setMarkets((current) => current.map((m) => byId.get(m.id) ?? m));
+    });
+    source.addEventListener("status", (event) => {
+      setStreams(JSON.parse((event as MessageEvent).data));
+    });
+    return () => source.close();
+  }, []);
+
+  // Session points: one whenever a pair's spread moves
+  useEffect(() => {
+    const now = new Date().toISOString();
+    for (const market of markets) {
+      const points = sessionRef.current.get(market.id) ?? [];
+      const last = points[points.length - 1];
+      if (last && last.spreadPercent === market.spreadPercent && last.hasArbitrage === market.hasArbitrage) continue;
+
+      const prices: Partial<Record<Venue, number>> = {};
+      for (const quote of Object.values(market.quotes)) if (quote) prices[quote.venue] = quote.price;
+      points.push({ scannedAt: now, prices, spreadPercent: market.spreadPercent, hasArbitrage: market.hasArbitrage });
+      if (points.length > SESSION_POINTS) points.shift();
+      sessionRef.current.set(market.id, points);
+    }
+  }, [markets]);
+
+  // Category tab
+  const visibleMarkets =
+    category === "all" ? markets : markets.filter((m) => m.category === category);
+  const visibleDutchBooks =
+    category === "all" ? dutchBooks : dutchBooks.filter((b) => b.category === category);
+  const categoryTabs = [
+    { id: "all" as const, label: "All", count: markets.length },
+    ...CATEGORY_PROFILES.map((p) => ({
+      id: p.id,
+      label: p.label,
+      count: markets.filter((m) => m.category === p.id).length,
+    })),
+  ];
+
   // Calculate stats
-  const arbOpportunities = markets.filter((m) => m.hasArbitrage).length;
+  const arbOpportunities = visibleMarkets.filter((m) => m.hasArbitrage).length;
   const avgSpread =
-    markets.length > 0
-      ? markets.reduce((sum, m) => sum + m.spreadPercent, 0) / markets.length
+    visibleMarkets.length > 0
+      ? visibleMarkets.reduce((sum, m) => sum + m.spreadPercent, 0) / visibleMarkets.length
       : 0;
-  const matchedMarkets = markets.filter(
-    (m) => m.polyPrice !== null && m.kalshiPrice !== null
+  const matchedMarkets = visibleMarkets.filter(
+    (m) => Object.keys(m.quotes).length > 1
   ).length;
 
   return (
     <div className="min-h-screen bg-[#0a0a0a] text-gray-100">
-      {/* Header */}
-      <header className="border-b border-gray-800/50 bg-[#0d0d0d]/80 backdrop-blur-sm sticky top-0 z-50">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex items-center justify-between h-14">
-            {/* Logo */}
-            <div className="flex items-center gap-3">
-              <div className="flex items-center justify-center w-8 h-8 rounded-lg bg-emerald-500/10 border border-emerald-500/20">
-                <Activity size={18} className="text-emerald-400" />
-              </div>
-              <div>
-                <h1 className="text-base font-semibold text-gray-100 tracking-tight">
-                  ArbScanner
-                </h1>
-                <p className="text-[10px] text-gray-500 -mt-0.5">
-                  Prediction Market Arbitrage
-                </p>
-              </div>
-            </div>
-
-            {/* Nav Links */}
-            <nav className="hidden sm:flex items-center gap-6">
-              <a
-                href="#"
-                className="text-xs text-emerald-400 font-medium border-b border-emerald-400/50 pb-0.5"
-              >
-                Markets
-              </a>
-              <a
-                href="#"
-                className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
-              >
-                Analytics
-              </a>
-              <a
-                href="#"
-                className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
-              >
-                Alerts
-              </a>
-              <a
-                href="#"
-                className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
-              >
-                Docs
-              </a>
-            </nav>
-
-            {/* Social Links */}
-            <div className="flex items-center gap-2">
-              <a
-                href="https://github.com"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="p-2 text-gray-500 hover:text-gray-300 transition-colors"
-              >
-                <Github size={16} />
-              </a>
-              <a
-                href="https://twitter.com"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="p-2 text-gray-500 hover:text-gray-300 transition-colors"
-              >
-                <Twitter size={16} />
-              </a>
-            </div>
-          </div>
-        </div>
-      </header>
+      <SiteHeader active="markets" />
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         {/* Stats Cards */}
@@ -142,7 +217,7 @@ export default function Home() {
               </span>
             </div>
             <div className="text-2xl font-mono font-semibold text-gray-200">
-              {markets.length}
+              {visibleMarkets.length}
             </div>
           </div>
 
@@ -191,9 +266,12 @@ export default function Home() {
                 Cross-Platform Arbitrage Detection
               </h2>
               <p className="text-xs text-gray-500">
-                Comparing odds between Polymarket and Kalshi for political
-                prediction markets. Green prices indicate the cheaper platform.
-                Spreads above 5% are flagged as arbitrage opportunities.
+                Comparing executable quotes across Polymarket, Kalshi and
+                PredictIt for politics, economics, crypto, weather and sports
+                markets. A market is flagged when buying YES on one venue and
+                NO on the other still pays out more than it costs after
+                trading fees, gas and withdrawal costs. Dutch
+                books buy one side of every outcome of a winner-take-all event.
               </p>
             </div>
             <div className="flex items-center gap-4 text-[10px]">
@@ -203,7 +281,7 @@ export default function Home() {
               </div>
               <div className="flex items-center gap-1.5">
                 <div className="w-2 h-2 rounded-full bg-emerald-500/50"></div>
-                <span className="text-gray-400">&gt;5% = Arb</span>
+                <span className="text-gray-400">Net &gt; $0 = Arb</span>
               </div>
               <div className="flex items-center gap-1.5">
                 <div className="w-2 h-2 rounded-full bg-yellow-500"></div>
@@ -213,16 +291,46 @@ export default function Home() {
           </div>
         </div>
 
+        {/* Category Tabs */}
+        <div className="flex items-center gap-1 mb-4 border-b border-gray-800/50 overflow-x-auto">
+          {categoryTabs.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setCategory(tab.id)}
+              className={`flex items-center gap-1.5 px-3 py-2 text-xs font-medium border-b-2 -mb-px transition-colors ${
+                category === tab.id
+                  ? "text-emerald-400 border-emerald-400"
+                  : "text-gray-500 border-transparent hover:text-gray-300"
+              }`}
+            >
+              {tab.label}
+              <span className="font-mono text-[10px] text-gray-600">{tab.count}</span>
+            </button>
+          ))}
+        </div>
+
         {/* Main Table */}
         <ArbTable
-          markets={markets}
+          markets={visibleMarkets}
           isLoading={isLoading}
           usedDummy={usedDummy}
           error={error}
           onRefresh={loadMarkets}
           lastUpdated={lastUpdated}
+          crawlProgress={crawlProgress}
+          onOverride={(action, listings) => updateOverride("POST", { action, listings })}
+          onClearOverride={(listings) => updateOverride("DELETE", { listings })}
+          onRecordPosition={usedDummy ? undefined : recordPosition}
+          streams={streams}
+          sessionHistory={sessionRef.current}
+          hurdleRate={hurdleRate}
         />
 
+        {/* Outcome Baskets */}
+        <div className="mt-8">
+          <DutchBookTable books={visibleDutchBooks} isLoading={isLoading} />
+        </div>
+
         {/* Disclaimer */}
         <div className="mt-8 p-4 bg-yellow-500/5 border border-yellow-500/10 rounded-lg">
           <p className="text-[11px] text-yellow-500/70 leading-relaxed">
@@ -247,7 +355,7 @@ export default function Home() {
             </div>
             <div className="flex items-center gap-4">
               <span className="text-[10px] text-gray-700">
-                Data from Polymarket & Kalshi APIs
+                Data from Polymarket, Kalshi & PredictIt APIs
               </span>
               <div className="flex items-center gap-2">
                 <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></div>
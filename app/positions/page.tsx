@@ -0,0 +1,304 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { AlertTriangle, Lock, RotateCcw, Trash2, TrendingUp, Wallet } from "lucide-react";
+import SiteHeader from "@/components/SiteHeader";
+import { PortfolioSummary, PositionLeg, PositionStatus, PositionValuation, Venue } from "@/types";
+import { formatPrice, formatUsd } from "@/utils/format";
+import { VENUE_LABELS, VENUE_ORDER } from "@/utils/venues/labels";
+
+const STATUS_TABS: { id: PositionStatus | "all"; label: string }[] = [
+  { id: "all", label: "All" },
+  { id: "open", label: "Open" },
+  { id: "partial", label: "One leg resolved" },
+  { id: "settled", label: "Settled" },
+];
+
+const STATUS_BADGES: Record<PositionStatus, string> = {
+  open: "bg-blue-500/10 text-blue-400",
+  partial: "bg-yellow-500/10 text-yellow-500",
+  settled: "bg-gray-800/60 text-gray-400",
+};
+
+// Stable fallback while the portfolio loads, so memos don't recompute
+const EMPTY: PositionValuation[] = [];
+
+function pnlClass(amount: number | null): string {
+  if (amount === null || amount === 0) return "text-gray-400";
+  return amount > 0 ? "text-emerald-400" : "text-red-400";
+}
+
+function settlementLabel(leg: PositionLeg): string {
+  if (leg.settlement === 100) return "YES won";
+  if (leg.settlement === 0) return "NO won";
+  return `YES paid ${formatPrice(leg.settlement)}`;
+}
+
+export default function PositionsPage() {
+  const [portfolio, setPortfolio] = useState<PortfolioSummary | null>(null);
+  const [status, setStatus] = useState<PositionStatus | "all">("all");
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await fetch("/api/positions", { cache: "no-store" });
+    if (res.ok) setPortfolio(await res.json());
+  }, []);
+
+  useEffect(() => {
+    load().catch(() => setError("Failed to load positions"));
+    // Marks change with every scan
+    const interval = setInterval(load, 60_000);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  const patch = async (id: string, body: Record<string, unknown>) => {
+    const res = await fetch(`/api/positions/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    setError(res.ok ? null : (await res.json()).error || "Failed to update position");
+    await load();
+  };
+
+  const remove = async (id: string) => {
+    if (!window.confirm("Delete this position? Its P&L is dropped from the totals.")) return;
+    await fetch(`/api/positions/${id}`, { method: "DELETE" });
+    await load();
+  };
+
+  const positions = portfolio?.positions ?? EMPTY;
+  const visible = useMemo(
+    () => (status === "all" ? positions : positions.filter((p) => p.status === status)),
+    [positions, status]
+  );
+  const lockedVenues = VENUE_ORDER.filter((v) => (portfolio?.locked[v] ?? 0) > 0);
+  const lockedTotal = lockedVenues.reduce((sum, v) => sum + (portfolio?.locked[v] ?? 0), 0);
+
+  // Venues whose results aren't looked up
+  const settledByHand = (venue: Venue) => portfolio?.manualSettlement.includes(venue) ?? false;
+
+  const renderLeg = (valuation: PositionValuation, leg: PositionLeg, index: number) => (
+    <div key={index} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+      <span className="w-20 text-gray-300">{VENUE_LABELS[leg.venue]}</span>
+      <span className={`font-mono uppercase ${leg.side === "yes" ? "text-emerald-400" : "text-red-400"}`}>
+        {leg.side}
+      </span>
+      <span className="font-mono text-gray-400">
+        {leg.quantity.toLocaleString()} @ {formatPrice(leg.fillPrice)}
+      </span>
+      {leg.settlement !== null ? (
+        <span className="flex items-center gap-1 text-gray-500">
+          {settlementLabel(leg)}
+          <button
+            onClick={() => patch(valuation.position.id, { settle: { leg: index, settlement: null } })}
+            className="p-0.5 text-gray-600 hover:text-gray-300"
+            title="Reopen this leg"
+          >
+            <RotateCcw size={11} />
+          </button>
+        </span>
+      ) : (
+        <>
+          <span
+            className="font-mono text-gray-500"
+            title={leg.markedAt ? `Marked ${new Date(leg.markedAt).toLocaleString()}` : "Not marked yet"}
+          >
+            bid {formatPrice(leg.mark)}
+          </span>
+          <span
+            className={`flex items-center gap-1 text-[10px] uppercase ${
+              settledByHand(leg.venue) ? "text-yellow-500/80" : ""
+            }`}
+            title={
+              settledByHand(leg.venue)
+                ? `${VENUE_LABELS[leg.venue]} results aren't looked up; record this leg's result here`
+                : undefined
+            }
+          >
+            {settledByHand(leg.venue) ? "Settle by hand:" : "Settle:"}
+            {[100, 0].map((settlement) => (
+              <button
+                key={settlement}
+                onClick={() => patch(valuation.position.id, { settle: { leg: index, settlement } })}
+                className="px-1.5 py-0.5 rounded border border-gray-800 text-gray-500 hover:text-gray-300 hover:border-gray-700"
+              >
+                {settlement === 100 ? "Yes" : "No"}
+              </button>
+            ))}
+          </span>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-gray-100">
+      <SiteHeader active="positions" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Title */}
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold text-gray-200">Positions</h2>
+          <p className="text-xs text-gray-500">
+            Pairs recorded from ARB THIS. Open legs are marked to the bid on
+            every live scan and settled automatically where the venue publishes
+            results; legs marked &ldquo;settle by hand&rdquo; are settled here.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+          <div className="bg-gray-900/30 border border-gray-800/50 rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <Wallet size={14} className="text-gray-500" />
+              <span className="text-[10px] text-gray-500 uppercase tracking-wider">Realized P&amp;L</span>
+            </div>
+            <div className={`text-2xl font-mono font-semibold ${pnlClass(portfolio?.realizedPnl ?? 0)}`}>
+              {formatUsd(portfolio?.realizedPnl ?? 0)}
+            </div>
+          </div>
+
+          <div className="bg-gray-900/30 border border-gray-800/50 rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <TrendingUp size={14} className="text-gray-500" />
+              <span className="text-[10px] text-gray-500 uppercase tracking-wider">Unrealized P&amp;L</span>
+            </div>
+            <div className={`text-2xl font-mono font-semibold ${pnlClass(portfolio?.unrealizedPnl ?? 0)}`}>
+              {formatUsd(portfolio?.unrealizedPnl ?? 0)}
+            </div>
+            {(portfolio?.unmarkedLegs ?? 0) > 0 && (
+              <div className="mt-1 text-[10px] text-gray-500" title="Positions with an unmarked open leg are left out">
+                {portfolio?.unmarkedLegs} unmarked leg{portfolio?.unmarkedLegs !== 1 ? "s" : ""} excluded
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-900/30 border border-gray-800/50 rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <Lock size={14} className="text-gray-500" />
+              <span className="text-[10px] text-gray-500 uppercase tracking-wider">Locked Capital</span>
+            </div>
+            <div className="text-2xl font-mono font-semibold text-gray-200">{formatUsd(lockedTotal)}</div>
+            <div className="mt-1 text-[10px] text-gray-500 font-mono">
+              {lockedVenues.map((v) => `${VENUE_LABELS[v]} ${formatUsd(portfolio?.locked[v] ?? 0)}`).join(" · ")}
+            </div>
+          </div>
+
+          <div className="bg-yellow-500/5 border border-yellow-500/20 rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <AlertTriangle size={14} className="text-yellow-500" />
+              <span className="text-[10px] text-yellow-500/70 uppercase tracking-wider">One Leg Resolved</span>
+            </div>
+            <div className="text-2xl font-mono font-semibold text-yellow-500">{portfolio?.partial ?? 0}</div>
+          </div>
+        </div>
+
+        {/* Status Tabs */}
+        <div className="flex items-center gap-1 mb-3">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setStatus(tab.id)}
+              className={`px-3 py-1.5 text-xs rounded border transition-colors ${
+                status === tab.id
+                  ? "bg-gray-800 border-gray-700 text-gray-200"
+                  : "bg-gray-900/50 border-gray-800 text-gray-500 hover:text-gray-300"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Positions */}
+        <div className="overflow-x-auto rounded-lg border border-gray-800/50 bg-gray-950/50">
+          <table className="w-full">
+            <thead className="bg-gray-900/50 border-b border-gray-800/50">
+              <tr>
+                <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider">
+                  Pair
+                </th>
+                <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider">
+                  Legs
+                </th>
+                <th className="px-3 py-3 text-right text-[11px] font-medium text-gray-400 uppercase tracking-wider w-24">
+                  Cost
+                </th>
+                <th className="px-3 py-3 text-right text-[11px] font-medium text-gray-400 uppercase tracking-wider w-24">
+                  Realized
+                </th>
+                <th className="px-3 py-3 text-right text-[11px] font-medium text-gray-400 uppercase tracking-wider w-24">
+                  Unrealized
+                </th>
+                <th className="px-3 py-3 w-10"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800/30">
+              {visible.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-3 py-12 text-center text-sm text-gray-500">
+                    {positions.length === 0
+                      ? "No positions yet. Record one from ARB THIS on the Markets page."
+                      : "No positions with this status"}
+                  </td>
+                </tr>
+              ) : (
+                visible.map((valuation) => (
+                  <tr key={valuation.position.id} className="hover:bg-gray-800/20 transition-colors align-top">
+                    <td className="px-3 py-3">
+                      <div className="text-sm text-gray-200">{valuation.position.eventName}</div>
+                      <div className="mt-1 flex items-center gap-2">
+                        <span
+                          className={`px-1.5 py-0.5 text-[10px] font-medium rounded uppercase ${STATUS_BADGES[valuation.status]}`}
+                        >
+                          {valuation.status === "partial" ? "one leg resolved" : valuation.status}
+                        </span>
+                        <span className="text-[10px] text-gray-600 font-mono">
+                          {new Date(valuation.position.openedAt).toLocaleString()}
+                        </span>
+                      </div>
+                      {valuation.position.notes && (
+                        <div className="mt-1 text-xs text-gray-500">{valuation.position.notes}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-3 space-y-1.5">
+                      {valuation.position.legs.map((leg, i) => renderLeg(valuation, leg, i))}
+                    </td>
+                    <td className="px-3 py-3 text-right font-mono text-sm text-gray-300">
+                      {formatUsd(valuation.cost)}
+                    </td>
+                    <td className={`px-3 py-3 text-right font-mono text-sm ${pnlClass(valuation.realizedPnl)}`}>
+                      {valuation.status === "open" ? "—" : formatUsd(valuation.realizedPnl)}
+                    </td>
+                    <td
+                      className={`px-3 py-3 text-right font-mono text-sm ${pnlClass(valuation.unrealizedPnl)}`}
+                      title={valuation.unrealizedPnl === null ? "A leg has no bid to mark to" : undefined}
+                    >
+                      {valuation.status === "settled" ? "—" : formatUsd(valuation.unrealizedPnl)}
+                    </td>
+                    <td className="px-3 py-3">
+                      <button
+                        onClick={() => remove(valuation.position.id)}
+                        className="p-1 text-gray-500 hover:text-red-400"
+                        title="Delete position"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { AlertEvent } from "@/types";
+
+// How often open tabs ask for newly fired alerts
+const POLL_MS = 30_000;
+
+// Header bell: counts alerts fired since the page opened and raises a
+// browser notification for rules with the "browser" channel
+export default function AlertBell() {
+  const [unseen, setUnseen] = useState(0);
+  const sinceRef = useRef(new Date().toISOString());
+
+  useEffect(() => {
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/alerts/events?since=${encodeURIComponent(sinceRef.current)}`, {
+          cache: "no-store",
+        });
+        if (!res.ok) return;
+        const { events }: { events: AlertEvent[] } = await res.json();
+        if (events.length === 0) return;
+
+        sinceRef.current = events[0].firedAt; // Newest first
+        setUnseen((n) => n + events.length);
+
+        if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+        for (const event of events) {
+          if (!event.channels.includes("browser")) continue;
+          const notification = new Notification(event.ruleName, {
+            body: event.message,
+            tag: event.id,
+          });
+          if (event.url) {
+            const url = event.url;
+            notification.onclick = () => window.open(url, "_blank");
+          }
+        }
+      } catch {
+        // Notifications are best-effort; try again next poll
+      }
+    };
+
+    const interval = setInterval(poll, POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <Link
+      href="/alerts"
+      onClick={() => setUnseen(0)}
+      className="relative p-2 text-gray-500 hover:text-gray-300 transition-colors"
+      title="Alerts"
+    >
+      <Bell size={16} />
+      {unseen > 0 && (
+        <span className="absolute top-0.5 right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-emerald-500 text-[9px] font-mono leading-[14px] text-center text-black">
+          {unseen > 99 ? "99+" : unseen}
+        </span>
+      )}
+    </Link>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import React, { useState } from "react";
+import { Plus, X } from "lucide-react";
+import {
+  AlertChannel,
+  AlertField,
+  AlertOperator,
+  MarketCategory,
+  MatchConfidence,
+  UnifiedMarket,
+  Venue,
+} from "@/types";
+import {
+  ALERT_CHANNELS,
+  ALERT_FIELD_LABELS,
+  ALERT_OPERATORS,
+  CONFIDENCE_RANK,
+  DEFAULT_COOLDOWN_MINUTES,
+} from "@/utils/alerts";
+import { CATEGORY_PROFILES } from "@/utils/categories";
+import { VENUE_LABELS, VENUE_ORDER } from "@/utils/venues/labels";
+
+interface AlertRuleFormProps {
+  markets: UnifiedMarket[]; // For the pair picker
+  onCreate: (rule: Record<string, unknown>) => Promise<string | null>; // Error or null
+}
+
+// Inputs hold strings until submit
+interface DraftCondition {
+  field: AlertField;
+  operator: AlertOperator;
+  value: string;
+  venue: Venue;
+}
+
+const NEW_CONDITION: DraftCondition = {
+  field: "spreadPercent",
+  operator: ">=",
+  value: "",
+  venue: VENUE_ORDER[0],
+};
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  webhook: "Webhook",
+  email: "Email",
+  browser: "Browser",
+};
+
+const inputClass =
+  "px-2 py-1.5 text-sm bg-gray-900/50 border border-gray-800 rounded text-gray-300 placeholder-gray-600 focus:outline-none focus:border-gray-700";
+
+export default function AlertRuleForm({ markets, onCreate }: AlertRuleFormProps) {
+  const [name, setName] = useState("");
+  const [conditions, setConditions] = useState<DraftCondition[]>([{ ...NEW_CONDITION }]);
+  const [marketId, setMarketId] = useState("");
+  const [category, setCategory] = useState<MarketCategory | "">("");
+  const [channels, setChannels] = useState<AlertChannel[]>(["browser"]);
+  const [cooldown, setCooldown] = useState(String(DEFAULT_COOLDOWN_MINUTES));
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [emailTo, setEmailTo] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const setCondition = (i: number, patch: Partial<DraftCondition>) =>
+    setConditions(conditions.map((c, j) => (j === i ? { ...c, ...patch } : c)));
+
+  const toggleChannel = (channel: AlertChannel) =>
+    setChannels(
+      channels.includes(channel) ? channels.filter((c) => c !== channel) : [...channels, channel]
+    );
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const error = await onCreate({
+      name,
+      conditions: conditions.map((c) => ({
+        field: c.field,
+        operator: c.operator,
+        value: c.field === "matchConfidence" ? c.value || "high" : parseFloat(c.value),
+        ...(c.field === "price" ? { venue: c.venue } : {}),
+      })),
+      marketId: marketId || null,
+      category: category || null,
+      channels,
+      cooldownMinutes: parseFloat(cooldown),
+      webhookUrl: webhookUrl || null,
+      emailTo: emailTo || null,
+    });
+    setSaving(false);
+    setError(error);
+    if (!error) {
+      setName("");
+      setConditions([{ ...NEW_CONDITION }]);
+      setMarketId("");
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="p-4 bg-gray-900/20 border border-gray-800/50 rounded-lg">
+      <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-3">New rule</div>
+
+      <input
+        type="text"
+        placeholder="Rule name, e.g. Wide spreads"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className={`${inputClass} w-full mb-3`}
+      />
+
+      {/* Conditions: all must hold */}
+      <div className="space-y-2 mb-3">
+        {conditions.map((c, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2">
+            <select
+              value={c.field}
+              onChange={(e) => setCondition(i, { field: e.target.value as AlertField, value: "" })}
+              className={inputClass}
+            >
+              {(Object.keys(ALERT_FIELD_LABELS) as AlertField[]).map((field) => (
+                <option key={field} value={field}>
+                  {ALERT_FIELD_LABELS[field]}
+                </option>
+              ))}
+            </select>
+            {c.field === "price" && (
+              <select
+                value={c.venue}
+                onChange={(e) => setCondition(i, { venue: e.target.value as Venue })}
+                className={inputClass}
+              >
+                {VENUE_ORDER.map((v) => (
+                  <option key={v} value={v}>
+                    {VENUE_LABELS[v]}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={c.operator}
+              onChange={(e) => setCondition(i, { operator: e.target.value as AlertOperator })}
+              className={`${inputClass} font-mono`}
+            >
+              {ALERT_OPERATORS.map((op) => (
+                <option key={op} value={op}>
+                  {op}
+                </option>
+              ))}
+            </select>
+            {c.field === "matchConfidence" ? (
+              <select
+                value={c.value || "high"}
+                onChange={(e) => setCondition(i, { value: e.target.value as MatchConfidence })}
+                className={inputClass}
+              >
+                {CONFIDENCE_RANK.map((level) => (
+                  <option key={level} value={level}>
+                    {level}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="number"
+                step="any"
+                placeholder="Value"
+                value={c.value}
+                onChange={(e) => setCondition(i, { value: e.target.value })}
+                className={`${inputClass} w-28 font-mono`}
+              />
+            )}
+            {conditions.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setConditions(conditions.filter((_, j) => j !== i))}
+                className="p-1 text-gray-500 hover:text-red-400"
+                title="Remove condition"
+              >
+                <X size={14} />
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setConditions([...conditions, { ...NEW_CONDITION }])}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300"
+        >
+          <Plus size={12} />
+          Add condition
+        </button>
+      </div>
+
+      {/* Scope */}
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <input
+          type="text"
+          list="alert-markets"
+          placeholder="Any pair (or pick one)"
+          value={marketId}
+          onChange={(e) => setMarketId(e.target.value)}
+          className={`${inputClass} flex-1 min-w-[200px] font-mono`}
+        />
+        <datalist id="alert-markets">
+          {markets.map((m) => (
+            <option key={m.id} value={m.id}>
+              {m.eventName}
+            </option>
+          ))}
+        </datalist>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as MarketCategory | "")}
+          className={inputClass}
+        >
+          <option value="">Any category</option>
+          {CATEGORY_PROFILES.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          Cooldown
+          <input
+            type="number"
+            min={0}
+            value={cooldown}
+            onChange={(e) => setCooldown(e.target.value)}
+            className={`${inputClass} w-20 font-mono`}
+          />
+          min
+        </label>
+      </div>
+
+      {/* Delivery */}
+      <div className="flex flex-wrap items-center gap-4 mb-3">
+        {ALERT_CHANNELS.map((channel) => (
+          <label key={channel} className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={channels.includes(channel)}
+              onChange={() => toggleChannel(channel)}
+              className="w-4 h-4 rounded border-gray-700 bg-gray-800 text-emerald-500 focus:ring-emerald-500/20"
+            />
+            {CHANNEL_LABELS[channel]}
+          </label>
+        ))}
+      </div>
+      {(channels.includes("webhook") || channels.includes("email")) && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {channels.includes("webhook") && (
+            <input
+              type="url"
+              placeholder="Webhook URL (default: ALERT_WEBHOOK_URL)"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              className={`${inputClass} flex-1 min-w-[240px]`}
+            />
+          )}
+          {channels.includes("email") && (
+            <input
+              type="email"
+              placeholder="Email (default: ALERT_EMAIL_TO)"
+              value={emailTo}
+              onChange={(e) => setEmailTo(e.target.value)}
+              className={`${inputClass} flex-1 min-w-[200px]`}
+            />
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-red-400">{error}</span>
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded border border-emerald-500/30 bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 transition-colors disabled:opacity-50"
+        >
+          <Plus size={12} />
+          CREATE RULE
+        </button>
+      </div>
+    </form>
+  );
+}
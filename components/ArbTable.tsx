@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect } from "react";
 import {
   ArrowUpDown,
   ExternalLink,
@@ -11,18 +11,51 @@ import {
   Search,
   ChevronDown,
   Zap,
+  Check,
+  X,
+  Link2,
+  Undo2,
+  Download,
 } from "lucide-react";
 import {
   UnifiedMarket,
+  MarketQuote,
+  VenueFees,
+  DepthAnalysis,
+  CrawlProgress,
+  Venue,
+  VenueQuote,
+  HedgeLeg,
+  ListingKey,
+  OverrideAction,
   SortField,
   SortDirection,
   FilterConfig,
+  MarketCategory,
+  StreamStatus,
+  ExportFormat,
+  HistoryPoint,
 } from "@/types";
 import {
   formatPrice,
+  formatEdge,
+  formatUsd,
   formatSpreadPercent,
   formatVolume,
-} from "@/utils/fetcher";
+  formatCrawlProgress,
+  formatAge,
+  formatDays,
+  REFERENCE_TRADE_SIZE,
+} from "@/utils/format";
+import { CATEGORY_PROFILES, categoryLabel } from "@/utils/categories";
+import { exportMarkets } from "@/utils/export";
+import { DEFAULT_FILTERS, applyFilters, sortMarkets } from "@/utils/filters";
+import { AMBIGUOUS_MARGIN, listingKey } from "@/utils/matcher";
+import { nativeSide } from "@/utils/polarity";
+import LinkPicker from "@/components/LinkPicker";
+import MarketDrawer from "@/components/MarketDrawer";
+import PositionForm from "@/components/PositionForm";
+import { VENUE_LABELS, VENUE_ORDER } from "@/utils/venues/labels";
 
 interface ArbTableProps {
   markets: UnifiedMarket[];
@@ -31,8 +64,18 @@ interface ArbTableProps {
   error: string | null;
   onRefresh: () => void;
   lastUpdated: Date | null;
+  crawlProgress?: CrawlProgress[];
+  onOverride?: (action: OverrideAction, listings: ListingKey[]) => void;
+  onClearOverride?: (listings: ListingKey[]) => void;
+  onRecordPosition?: (position: Record<string, unknown>) => Promise<string | null>; // Error or null
+  streams?: StreamStatus[]; // Venue feeds pushing live quotes, if any
+  sessionHistory?: Map<string, HistoryPoint[]>; // Each pair's spread since the page opened
+  hurdleRate?: number | null; // Annual %, set on the server
 }
 
+// Quotes that changed this recently are highlighted
+const FRESH_QUOTE_MS = 2000;
+
 export default function ArbTable({
   markets,
   isLoading,
@@ -40,15 +83,40 @@ export default function ArbTable({
   error,
   onRefresh,
   lastUpdated,
+  crawlProgress = [],
+  onOverride,
+  onClearOverride,
+  onRecordPosition,
+  streams = [],
+  sessionHistory,
+  hurdleRate = null,
 }: ArbTableProps) {
-  const [sortField, setSortField] = useState<SortField>("spreadPercent");
+  const [sortField, setSortField] = useState<SortField>("netProfit");
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
-  const [filters, setFilters] = useState<FilterConfig>({
-    minSpread: 0,
-    showOnlyArbitrage: false,
-    searchQuery: "",
-  });
+  const [filters, setFilters] = useState<FilterConfig>(DEFAULT_FILTERS);
   const [showFilters, setShowFilters] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [linking, setLinking] = useState<UnifiedMarket | null>(null);
+  const [recording, setRecording] = useState<UnifiedMarket | null>(null);
+  // By id, so the open panel follows the row through refreshes
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const detail = markets.find((m) => m.id === detailId) ?? null;
+
+  // Live quote ages tick once a second while any quote is streaming
+  const [now, setNow] = useState(() => Date.now());
+  const hasLiveQuotes = markets.some((m) => Object.values(m.quotes).some((q) => q?.updatedAt));
+  useEffect(() => {
+    if (!hasLiveQuotes) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasLiveQuotes]);
+
+  // One price column per venue that has at least one listing
+  const venues = useMemo(
+    () => VENUE_ORDER.filter((v) => markets.some((m) => m.quotes[v])),
+    [markets]
+  );
 
   // Handle sort
   const handleSort = (field: SortField) => {
@@ -61,65 +129,50 @@ export default function ArbTable({
   };
 
   // Filter and sort markets
-  const processedMarkets = useMemo(() => {
-    let result = [...markets];
-
-    // Apply filters
-    if (filters.showOnlyArbitrage) {
-      result = result.filter((m) => m.hasArbitrage);
-    }
-    if (filters.minSpread > 0) {
-      result = result.filter((m) => m.spreadPercent >= filters.minSpread);
-    }
-    if (filters.searchQuery) {
-      const query = filters.searchQuery.toLowerCase();
-      result = result.filter((m) => m.eventName.toLowerCase().includes(query));
-    }
-
-    // Apply sort
-    result.sort((a, b) => {
-      let aVal: number | string = 0;
-      let bVal: number | string = 0;
-
-      switch (sortField) {
-        case "eventName":
-          aVal = a.eventName;
-          bVal = b.eventName;
-          break;
-        case "polyPrice":
-          aVal = a.polyPrice ?? -1;
-          bVal = b.polyPrice ?? -1;
-          break;
-        case "kalshiPrice":
-          aVal = a.kalshiPrice ?? -1;
-          bVal = b.kalshiPrice ?? -1;
-          break;
-        case "spread":
-          aVal = a.spread;
-          bVal = b.spread;
-          break;
-        case "spreadPercent":
-          aVal = a.spreadPercent;
-          bVal = b.spreadPercent;
-          break;
-      }
-
-      if (typeof aVal === "string" && typeof bVal === "string") {
-        return sortDirection === "asc"
-          ? aVal.localeCompare(bVal)
-          : bVal.localeCompare(aVal);
-      }
-      return sortDirection === "asc"
-        ? (aVal as number) - (bVal as number)
-        : (bVal as number) - (aVal as number);
-    });
-
-    return result;
-  }, [markets, sortField, sortDirection, filters]);
+  const processedMarkets = useMemo(
+    () => sortMarkets(applyFilters(markets, filters), { field: sortField, direction: sortDirection }),
+    [markets, sortField, sortDirection, filters]
+  );
 
   // Count arbitrage opportunities
   const arbCount = markets.filter((m) => m.hasArbitrage).length;
 
+  // Selected rows still in view; the export takes these, or the whole view
+  const selectedMarkets = processedMarkets.filter((m) => selected.has(m.id));
+  const allSelected = processedMarkets.length > 0 && selectedMarkets.length === processedMarkets.length;
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const rows = selectedMarkets.length > 0 ? selectedMarkets : processedMarkets;
+    const { filename, blob } = exportMarkets(
+      rows,
+      {
+        exportedAt: new Date().toISOString(),
+        scannedAt: lastUpdated?.toISOString() ?? null,
+        source: usedDummy ? "Demo data" : venues.map((v) => VENUE_LABELS[v]).join(", "),
+        usedDummy,
+        rows: rows.length,
+        selection: selectedMarkets.length > 0,
+        filters,
+        sort: { field: sortField, direction: sortDirection },
+      },
+      format
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    setShowExport(false);
+  };
+
   const SortHeader = ({
     field,
     children,
@@ -145,17 +198,20 @@ export default function ArbTable({
     </th>
   );
 
-  const getPriceColor = (
-    price: number | null,
-    otherPrice: number | null,
-    isCheaper: boolean
-  ) => {
-    if (price === null) return "text-gray-500";
-    if (otherPrice === null) return "text-gray-300";
-    if (isCheaper) return "text-emerald-400";
+  // Green marks the venue with the cheapest YES in a matched cluster
+  const getPriceColor = (market: UnifiedMarket, venue: Venue) => {
+    const quote = market.quotes[venue];
+    if (!quote) return "text-gray-500";
+    const prices = Object.values(market.quotes).map((q) => q!.price);
+    if (prices.length < 2) return "text-gray-300";
+    if (quote.price === Math.min(...prices) && quote.price < Math.max(...prices))
+      return "text-emerald-400";
     return "text-gray-300";
   };
 
+  const totalVolume = (market: UnifiedMarket) =>
+    Object.values(market.quotes).reduce((sum, q) => sum + (q?.volume || 0), 0);
+
   const getSpreadBg = (percent: number) => {
     if (percent >= 5) return "bg-emerald-500/20 text-emerald-400";
     if (percent >= 3) return "bg-yellow-500/15 text-yellow-400";
@@ -163,8 +219,223 @@ export default function ArbTable({
     return "bg-gray-800/30 text-gray-500";
   };
 
+  const getEdgeColor = (edge: number) => {
+    if (edge > 0) return "text-emerald-400";
+    if (edge === 0) return "text-gray-400";
+    return "text-gray-600";
+  };
+
+  // Legs are priced in the cluster's frame; name the side to buy on the venue
+  const describeLeg = (market: UnifiedMarket, leg: HedgeLeg) =>
+    `${nativeSide(leg, market.quotes[leg.venue]?.polarity).toUpperCase()} on ${
+      VENUE_LABELS[leg.venue]
+    } @ ${formatPrice(leg.price)}`;
+
+  const renderAsks = (quote: MarketQuote) => {
+    return (
+      <span className="text-[10px] text-gray-600 font-mono mt-0.5">
+        Y {formatPrice(quote.yesAsk)} · N {formatPrice(quote.noAsk)}
+      </span>
+    );
+  };
+
+  const renderFeeTooltip = (market: UnifiedMarket) => (
+    <div className="hidden group-hover:block absolute right-0 top-full mt-1 z-20 w-56 p-3 rounded-lg border border-gray-800 bg-[#111111] shadow-xl text-left">
+      <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-2">
+        {REFERENCE_TRADE_SIZE} contracts per leg
+      </div>
+      <div className="flex justify-between text-[11px] font-mono text-gray-300">
+        <span>Gross</span>
+        <span>{formatUsd(market.grossProfit)}</span>
+      </div>
+      {market.fees.map((fee: VenueFees) => (
+        <div key={fee.venue} className="mt-1.5">
+          <div className="flex justify-between text-[11px] font-mono text-gray-400">
+            <span>{VENUE_LABELS[fee.venue]}</span>
+            <span>-{formatUsd(fee.total)}</span>
+          </div>
+          <div className="pl-2 text-[10px] font-mono text-gray-600">
+            {fee.trading > 0 && <div>trading {formatUsd(fee.trading)}</div>}
+            {fee.gas > 0 && <div>gas {formatUsd(fee.gas)}</div>}
+            {fee.settlement > 0 && (
+              <div>settlement {formatUsd(fee.settlement)}</div>
+            )}
+            {fee.withdrawal > 0 && (
+              <div>withdrawal {formatUsd(fee.withdrawal)}</div>
+            )}
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-between text-[11px] font-mono text-gray-200 border-t border-gray-800 mt-2 pt-1.5">
+        <span>Net</span>
+        <span>{formatUsd(market.netProfit)}</span>
+      </div>
+    </div>
+  );
+
+  // Net profit against size, drawn as a tiny inline chart
+  const renderProfitCurve = (depth: DepthAnalysis) => {
+    if (depth.curve.length < 2) return null;
+    const width = 64;
+    const height = 16;
+    const maxSize = depth.curve[depth.curve.length - 1].size;
+    const profits = depth.curve.map((p) => p.netProfit);
+    const top = Math.max(...profits, 0);
+    const bottom = Math.min(...profits, 0);
+    const range = top - bottom || 1;
+    const points = depth.curve
+      .map(
+        (p) =>
+          `${((p.size / maxSize) * width).toFixed(1)},${(
+            height -
+            ((p.netProfit - bottom) / range) * height
+          ).toFixed(1)}`
+      )
+      .join(" ");
+
+    return (
+      <svg width={width} height={height} className="mt-1 overflow-visible">
+        <polyline
+          points={points}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1}
+          className="text-emerald-500/60"
+        />
+      </svg>
+    );
+  };
+
+  const renderResolutionBadge = (market: UnifiedMarket) => {
+    const { risk, pairs } = market.resolution;
+    if (pairs.length === 0 || risk === "low") return null;
+
+    const styles: Record<string, string> = {
+      high: "bg-red-500/15 text-red-400",
+      medium: "bg-yellow-500/15 text-yellow-500",
+      unknown: "bg-gray-700/50 text-gray-500",
+    };
+    const labels: Record<string, string> = {
+      high: "RULES ≠",
+      medium: "RULES ~",
+      unknown: "RULES ?",
+    };
+
+    return (
+      <div className="relative group inline-block mt-1 cursor-help">
+        <span className={`text-[9px] px-1.5 py-0.5 rounded font-medium ${styles[risk]}`}>
+          {labels[risk]}
+        </span>
+        <div className="hidden group-hover:block absolute right-0 top-full mt-1 z-20 w-72 p-3 rounded-lg border border-gray-800 bg-[#111111] shadow-xl text-left">
+          <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-2">
+            Resolution risk: {risk}
+          </div>
+          {pairs.map((pair) => (
+            <div key={pair.venues.join("-")} className="mt-1.5">
+              <div className="text-[11px] text-gray-300">
+                {VENUE_LABELS[pair.venues[0]]} vs {VENUE_LABELS[pair.venues[1]]}
+              </div>
+              {pair.reasons.length === 0 ? (
+                <div className="pl-2 text-[10px] text-gray-600">No differences found</div>
+              ) : (
+                pair.reasons.map((reason) => (
+                  <div key={reason} className="pl-2 text-[10px] text-gray-400">
+                    • {reason}
+                  </div>
+                ))
+              )}
+              {[pair.onlyInA, pair.onlyInB].map((only, i) =>
+                only.map((sentence) => (
+                  <div key={sentence} className="pl-2 text-[10px] text-gray-600 italic">
+                    Only {VENUE_LABELS[pair.venues[i]]}: “{sentence}”
+                  </div>
+                ))
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Another listing fits almost as well: worth a manual look
+  const renderAmbiguity = (market: UnifiedMarket) => {
+    const { runnerUp, scoreMargin } = market;
+    if (market.matchConfidence === "verified" || !runnerUp || scoreMargin === null) {
+      return null;
+    }
+    if (scoreMargin >= AMBIGUOUS_MARGIN) return null;
+
+    return (
+      <span
+        className="text-[9px] px-1.5 py-0.5 rounded bg-orange-500/15 text-orange-400 font-medium mt-1 cursor-help"
+        title={`Runner-up on ${VENUE_LABELS[runnerUp.venue]}: "${runnerUp.eventName}" scores ${(
+          runnerUp.score * 100
+        ).toFixed(0)}% (margin ${(scoreMargin * 100).toFixed(0)} pts)`}
+      >
+        AMBIGUOUS
+      </span>
+    );
+  };
+
+  // Confirm/reject a match, undo a manual one, or link an unmatched row
+  const renderMatchActions = (market: UnifiedMarket) => {
+    if (!onOverride) return null;
+    const listings = (Object.values(market.quotes) as VenueQuote[]).map(listingKey);
+    const buttonClass = "p-0.5 rounded text-gray-600 transition-colors";
+
+    if (listings.length === 1) {
+      return (
+        <button
+          onClick={() => setLinking(market)}
+          className={`${buttonClass} hover:text-gray-300 mt-1`}
+          title="Link to a market on another venue"
+        >
+          <Link2 size={12} />
+        </button>
+      );
+    }
+
+    if (market.matchConfidence === "verified") {
+      return (
+        <button
+          onClick={() => onClearOverride?.(listings)}
+          className={`${buttonClass} hover:text-gray-300 mt-1`}
+          title="Forget the manual match"
+        >
+          <Undo2 size={12} />
+        </button>
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-1 mt-1">
+        <button
+          onClick={() => onOverride("confirm", listings)}
+          className={`${buttonClass} hover:text-emerald-400`}
+          title="Confirm: these are the same market"
+        >
+          <Check size={12} />
+        </button>
+        <button
+          onClick={() => onOverride("reject", listings)}
+          className={`${buttonClass} hover:text-red-400`}
+          title="Reject: these are different markets"
+        >
+          <X size={12} />
+        </button>
+      </div>
+    );
+  };
+
   const getConfidenceBadge = (confidence: string) => {
     switch (confidence) {
+      case "verified":
+        return (
+          <span className="text-[9px] px-1.5 py-0.5 rounded bg-sky-500/20 text-sky-400 font-medium">
+            VERIFIED
+          </span>
+        );
       case "high":
         return (
           <span className="text-[9px] px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-400 font-medium">
@@ -199,6 +470,14 @@ export default function ArbTable({
               </span>
             </div>
           )}
+          {isLoading && crawlProgress.length > 0 && (
+            <div className="flex items-center gap-2 px-3 py-1.5 rounded bg-gray-900/50 border border-gray-800">
+              <RefreshCw size={12} className="text-gray-500 animate-spin" />
+              <span className="text-xs font-mono text-gray-400">
+                {formatCrawlProgress(crawlProgress)}
+              </span>
+            </div>
+          )}
           {usedDummy && (
             <div className="flex items-center gap-2 px-3 py-1.5 rounded bg-yellow-500/10 border border-yellow-500/20">
               <AlertTriangle size={14} className="text-yellow-500" />
@@ -241,6 +520,38 @@ export default function ArbTable({
             />
           </button>
 
+          {/* Export */}
+          <div className="relative">
+            <button
+              onClick={() => setShowExport(!showExport)}
+              disabled={processedMarkets.length === 0}
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-900/50 border border-gray-800 rounded-lg text-gray-400 hover:text-gray-200 hover:border-gray-700 transition-colors disabled:opacity-50"
+              title={
+                selectedMarkets.length > 0
+                  ? `Export ${selectedMarkets.length} selected row${selectedMarkets.length !== 1 ? "s" : ""}`
+                  : "Export the filtered table"
+              }
+            >
+              <Download size={14} />
+              {selectedMarkets.length > 0 && (
+                <span className="text-xs font-mono">{selectedMarkets.length}</span>
+              )}
+            </button>
+            {showExport && (
+              <div className="absolute right-0 top-full mt-1 z-30 w-32 py-1 rounded-lg border border-gray-800 bg-[#111111] shadow-xl">
+                {(["csv", "json", "xlsx"] as ExportFormat[]).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className="w-full px-3 py-1.5 text-left text-xs font-mono text-gray-400 hover:text-gray-200 hover:bg-gray-800/50"
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Refresh */}
           <button
             onClick={onRefresh}
@@ -271,7 +582,21 @@ export default function ArbTable({
                 }
                 className="w-4 h-4 rounded border-gray-700 bg-gray-800 text-emerald-500 focus:ring-emerald-500/20"
               />
-              Show only arbitrage (&gt;5%)
+              Show only arbitrage (net of fees)
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={filters.hideResolutionRisk}
+                onChange={(e) =>
+                  setFilters({
+                    ...filters,
+                    hideResolutionRisk: e.target.checked,
+                  })
+                }
+                className="w-4 h-4 rounded border-gray-700 bg-gray-800 text-emerald-500 focus:ring-emerald-500/20"
+              />
+              Hide pairs that may settle differently
             </label>
             <div className="flex items-center gap-2">
               <span className="text-sm text-gray-500">Min Spread:</span>
@@ -292,6 +617,26 @@ export default function ArbTable({
                 <option value={10}>≥10%</option>
               </select>
             </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-500">Category:</span>
+              <select
+                value={filters.category}
+                onChange={(e) =>
+                  setFilters({
+                    ...filters,
+                    category: e.target.value as MarketCategory | "all",
+                  })
+                }
+                className="px-2 py-1 text-sm bg-gray-800 border border-gray-700 rounded text-gray-300 focus:outline-none"
+              >
+                <option value="all">All</option>
+                {CATEGORY_PROFILES.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
       )}
@@ -309,18 +654,52 @@ export default function ArbTable({
         <table className="w-full">
           <thead className="bg-gray-900/50 border-b border-gray-800/50">
             <tr>
+              <th className="pl-3 py-3 w-6">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() =>
+                    setSelected(allSelected ? new Set() : new Set(processedMarkets.map((m) => m.id)))
+                  }
+                  title="Select all rows in view"
+                  className="w-3.5 h-3.5 rounded border-gray-700 bg-gray-800 text-emerald-500 focus:ring-emerald-500/20"
+                />
+              </th>
               <SortHeader field="eventName" className="min-w-[280px]">
                 Market
               </SortHeader>
-              <SortHeader field="polyPrice" className="w-28">
-                Polymarket
-              </SortHeader>
-              <SortHeader field="kalshiPrice" className="w-28">
-                Kalshi
-              </SortHeader>
+              <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider w-24">
+                Category
+              </th>
+              {venues.map((venue) => (
+                <SortHeader key={venue} field={`price:${venue}`} className="w-28">
+                  {VENUE_LABELS[venue]}
+                </SortHeader>
+              ))}
               <SortHeader field="spreadPercent" className="w-24">
                 Spread
               </SortHeader>
+              <SortHeader field="edge" className="w-28">
+                Hedge
+              </SortHeader>
+              <SortHeader field="netProfit" className="w-28">
+                Net
+              </SortHeader>
+              <SortHeader field="daysToResolution" className="w-24">
+                Resolves
+              </SortHeader>
+              <SortHeader field="annualizedROI" className="w-24">
+                Ann. ROI
+              </SortHeader>
+              <SortHeader field="lockupCost" className="w-24">
+                Lockup
+              </SortHeader>
+              <SortHeader field="maxSize" className="w-24">
+                Max Size
+              </SortHeader>
+              <SortHeader field="maxProfit" className="w-28">
+                Max $ Profit
+              </SortHeader>
               <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider w-20">
                 Match
               </th>
@@ -334,9 +713,33 @@ export default function ArbTable({
               // Loading skeleton
               Array.from({ length: 8 }).map((_, i) => (
                 <tr key={i} className="animate-pulse">
+                  <td className="pl-3 py-4"></td>
                   <td className="px-3 py-4">
                     <div className="h-4 bg-gray-800/50 rounded w-3/4"></div>
                   </td>
+                  <td className="px-3 py-4">
+                    <div className="h-4 bg-gray-800/50 rounded w-14"></div>
+                  </td>
+                  {venues.map((venue) => (
+                    <td key={venue} className="px-3 py-4">
+                      <div className="h-4 bg-gray-800/50 rounded w-12"></div>
+                    </td>
+                  ))}
+                  <td className="px-3 py-4">
+                    <div className="h-4 bg-gray-800/50 rounded w-16"></div>
+                  </td>
+                  <td className="px-3 py-4">
+                    <div className="h-4 bg-gray-800/50 rounded w-16"></div>
+                  </td>
+                  <td className="px-3 py-4">
+                    <div className="h-4 bg-gray-800/50 rounded w-16"></div>
+                  </td>
+                  <td className="px-3 py-4">
+                    <div className="h-4 bg-gray-800/50 rounded w-12"></div>
+                  </td>
+                  <td className="px-3 py-4">
+                    <div className="h-4 bg-gray-800/50 rounded w-12"></div>
+                  </td>
                   <td className="px-3 py-4">
                     <div className="h-4 bg-gray-800/50 rounded w-12"></div>
                   </td>
@@ -356,7 +759,7 @@ export default function ArbTable({
               ))
             ) : processedMarkets.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-3 py-12 text-center">
+                <td colSpan={13 + venues.length} className="px-3 py-12 text-center">
                   <div className="text-gray-500 text-sm">
                     No markets found matching your filters
                   </div>
@@ -366,10 +769,24 @@ export default function ArbTable({
               processedMarkets.map((market) => (
                 <tr
                   key={market.id}
-                  className={`hover:bg-gray-800/20 transition-colors ${
+                  onClick={(e) => {
+                    // Buttons, links and inputs in the row keep their own behaviour
+                    if ((e.target as HTMLElement).closest("a, button, input, select, label")) return;
+                    setDetailId(market.id);
+                  }}
+                  className={`hover:bg-gray-800/20 transition-colors cursor-pointer ${
                     market.hasArbitrage ? "bg-emerald-500/[0.02]" : ""
                   }`}
                 >
+                  <td className="pl-3 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(market.id)}
+                      onChange={() => toggleSelected(market.id)}
+                      className="w-3.5 h-3.5 rounded border-gray-700 bg-gray-800 text-emerald-500 focus:ring-emerald-500/20"
+                    />
+                  </td>
+
                   {/* Market Name */}
                   <td className="px-3 py-3">
                     <div className="flex items-center gap-2">
@@ -386,105 +803,275 @@ export default function ArbTable({
                         {market.eventName}
                       </span>
                     </div>
-                    {market.polyVolume && (
+                    {totalVolume(market) > 0 && (
                       <div className="mt-1 text-[10px] text-gray-600 font-mono">
-                        VOL: {formatVolume(market.polyVolume)}
+                        VOL: {formatVolume(totalVolume(market))}
                       </div>
                     )}
                   </td>
 
-                  {/* Polymarket Price */}
+                  {/* Category */}
                   <td className="px-3 py-3">
-                    <div className="flex flex-col">
+                    <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-gray-800/60 text-gray-400 uppercase tracking-wider">
+                      {categoryLabel(market.category)}
+                    </span>
+                  </td>
+
+                  {/* Venue Prices */}
+                  {venues.map((venue) => {
+                    const quote: VenueQuote | undefined = market.quotes[venue];
+                    return (
+                      <td key={venue} className="px-3 py-3">
+                        <div className="flex flex-col">
+                          <span
+                            className={`font-mono text-sm rounded transition-colors duration-700 ${getPriceColor(
+                              market,
+                              venue
+                            )} ${
+                              quote?.updatedAt &&
+                              now - Date.parse(quote.updatedAt) < FRESH_QUOTE_MS
+                                ? "bg-emerald-500/15"
+                                : ""
+                            }`}
+                          >
+                            {formatPrice(quote?.price ?? null)}
+                          </span>
+                          {quote && renderAsks(quote.quote)}
+                          {quote?.updatedAt && (
+                            <span
+                              className="text-[9px] text-gray-600 font-mono mt-0.5"
+                              title="Last change on the venue's live feed"
+                            >
+                              {formatAge(quote.updatedAt, now)}
+                            </span>
+                          )}
+                          {quote?.polarity === "inverted" && (
+                            <span
+                              className="text-[9px] text-yellow-500/70 font-medium mt-0.5"
+                              title={`Asked the other way round: "${quote.eventName}". Prices are flipped to match.`}
+                            >
+                              INVERTED
+                            </span>
+                          )}
+                          {quote && (
+                            <a
+                              href={quote.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-[10px] text-gray-600 hover:text-gray-400 flex items-center gap-1 mt-0.5"
+                            >
+                              <ExternalLink size={9} />
+                              view
+                            </a>
+                          )}
+                        </div>
+                      </td>
+                    );
+                  })}
+
+                  {/* Spread */}
+                  <td className="px-3 py-3">
+                    {Object.keys(market.quotes).length > 1 ? (
                       <span
-                        className={`font-mono text-sm ${getPriceColor(
-                          market.polyPrice,
-                          market.kalshiPrice,
-                          market.polyPrice !== null &&
-                            market.kalshiPrice !== null &&
-                            market.polyPrice < market.kalshiPrice
+                        className={`inline-block font-mono text-sm px-2 py-0.5 rounded ${getSpreadBg(
+                          market.spreadPercent
                         )}`}
                       >
-                        {formatPrice(market.polyPrice)}
+                        {formatSpreadPercent(market.spreadPercent)}
                       </span>
-                      {market.urlPoly && (
-                        <a
-                          href={market.urlPoly}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-[10px] text-gray-600 hover:text-gray-400 flex items-center gap-1 mt-0.5"
-                        >
-                          <ExternalLink size={9} />
-                          view
-                        </a>
-                      )}
-                    </div>
+                    ) : (
+                      <span className="text-gray-600 text-sm">—</span>
+                    )}
                   </td>
 
-                  {/* Kalshi Price */}
+                  {/* Hedge */}
                   <td className="px-3 py-3">
-                    <div className="flex flex-col">
-                      <span
-                        className={`font-mono text-sm ${getPriceColor(
-                          market.kalshiPrice,
-                          market.polyPrice,
-                          market.kalshiPrice !== null &&
-                            market.polyPrice !== null &&
-                            market.kalshiPrice < market.polyPrice
-                        )}`}
+                    {market.hedge ? (
+                      <div
+                        className="flex flex-col"
+                        title={`Buy ${describeLeg(
+                          market,
+                          market.hedge.yesLeg
+                        )} + ${describeLeg(market, market.hedge.noLeg)}`}
                       >
-                        {formatPrice(market.kalshiPrice)}
-                      </span>
-                      {market.urlKalshi && (
-                        <a
-                          href={market.urlKalshi}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-[10px] text-gray-600 hover:text-gray-400 flex items-center gap-1 mt-0.5"
+                        <span
+                          className={`font-mono text-sm ${getEdgeColor(
+                            market.hedge.edge
+                          )}`}
                         >
-                          <ExternalLink size={9} />
-                          view
-                        </a>
-                      )}
-                    </div>
+                          {formatEdge(market.hedge.edge)}
+                        </span>
+                        <span className="text-[10px] text-gray-600 font-mono mt-0.5">
+                          cost {formatPrice(market.hedge.totalCost)}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-gray-600 text-sm">—</span>
+                    )}
                   </td>
 
-                  {/* Spread */}
+                  {/* Net Profit */}
+                  <td className="px-3 py-3">
+                    {market.netProfit !== null ? (
+                      <div className="relative group inline-flex flex-col cursor-help">
+                        <span
+                          className={`font-mono text-sm ${
+                            market.netProfit > 0
+                              ? "text-emerald-400"
+                              : "text-gray-500"
+                          }`}
+                        >
+                          {formatUsd(market.netProfit)}
+                        </span>
+                        <span className="text-[10px] text-gray-600 font-mono mt-0.5">
+                          ROI {formatSpreadPercent(market.netROI ?? 0)}
+                        </span>
+                        {renderFeeTooltip(market)}
+                      </div>
+                    ) : (
+                      <span className="text-gray-600 text-sm">—</span>
+                    )}
+                  </td>
+
+                  {/* Time to Resolution */}
                   <td className="px-3 py-3">
-                    {market.polyPrice !== null &&
-                    market.kalshiPrice !== null ? (
+                    {market.daysToResolution !== null && market.endDate ? (
+                      <div className="flex flex-col">
+                        <span className="font-mono text-sm text-gray-300">
+                          {formatDays(market.daysToResolution)}
+                        </span>
+                        <span className="text-[10px] text-gray-600 font-mono mt-0.5">
+                          {new Date(market.endDate).toLocaleDateString()}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-gray-600 text-sm">—</span>
+                    )}
+                  </td>
+
+                  {/* Annualized ROI */}
+                  <td className="px-3 py-3">
+                    {market.annualizedROI !== null ? (
                       <span
-                        className={`inline-block font-mono text-sm px-2 py-0.5 rounded ${getSpreadBg(
-                          market.spreadPercent
-                        )}`}
+                        className={`font-mono text-sm ${
+                          market.annualizedROI > 0 ? "text-emerald-400" : "text-gray-500"
+                        }`}
                       >
-                        {formatSpreadPercent(market.spreadPercent)}
+                        {formatSpreadPercent(market.annualizedROI)}
                       </span>
                     ) : (
                       <span className="text-gray-600 text-sm">—</span>
                     )}
                   </td>
 
+                  {/* Capital Lockup */}
+                  <td className="px-3 py-3">
+                    {market.lockupCost !== null && market.netProfit !== null ? (
+                      <div
+                        className="flex flex-col"
+                        title={
+                          hurdleRate === null
+                            ? "What the capital would earn at the hurdle rate until resolution"
+                            : `What the capital would earn at ${hurdleRate}% a year until resolution`
+                        }
+                      >
+                        <span className="font-mono text-sm text-gray-400">
+                          {formatUsd(market.lockupCost)}
+                        </span>
+                        <span className="text-[10px] text-gray-600 font-mono mt-0.5">
+                          net {formatUsd(market.netProfit - market.lockupCost)}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-gray-600 text-sm">—</span>
+                    )}
+                  </td>
+
+                  {/* Max Size */}
+                  <td className="px-3 py-3">
+                    {market.depth ? (
+                      <div className="flex flex-col">
+                        <span className="font-mono text-sm text-gray-300">
+                          {market.depth.maxSize.toLocaleString()}
+                        </span>
+                        <span className="text-[10px] text-gray-600 font-mono mt-0.5">
+                          @ {formatPrice(Math.round(market.depth.fillCost * 10) / 10)}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-gray-600 text-sm">—</span>
+                    )}
+                  </td>
+
+                  {/* Max $ Profit */}
+                  <td className="px-3 py-3">
+                    {market.depth ? (
+                      <div
+                        className="flex flex-col"
+                        title={`Best at ${market.depth.bestSize.toLocaleString()} contracts`}
+                      >
+                        <span
+                          className={`font-mono text-sm ${
+                            market.depth.maxProfit > 0
+                              ? "text-emerald-400"
+                              : "text-gray-500"
+                          }`}
+                        >
+                          {formatUsd(market.depth.maxProfit)}
+                        </span>
+                        {renderProfitCurve(market.depth)}
+                      </div>
+                    ) : (
+                      <span className="text-gray-600 text-sm">—</span>
+                    )}
+                  </td>
+
                   {/* Match Confidence */}
                   <td className="px-3 py-3">
-                    {getConfidenceBadge(market.matchConfidence)}
+                    <div className="flex flex-col items-start">
+                      {getConfidenceBadge(market.matchConfidence)}
+                      {renderAmbiguity(market)}
+                      {renderResolutionBadge(market)}
+                      {renderMatchActions(market)}
+                    </div>
                   </td>
 
                   {/* Action */}
                   <td className="px-3 py-3 text-right">
                     {market.hasArbitrage && market.arbitrageDirection ? (
                       <button
-                        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded border border-emerald-500/30 bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 hover:border-emerald-500/50 transition-colors"
+                        className={`inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded border transition-colors ${
+                          market.resolution.risk === "high"
+                            ? "border-yellow-500/30 bg-yellow-500/10 text-yellow-500 hover:bg-yellow-500/20 hover:border-yellow-500/50"
+                            : "border-emerald-500/30 bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 hover:border-emerald-500/50"
+                        }`}
+                        title={
+                          market.resolution.risk === "high"
+                            ? "The two sides may settle differently: read both venues' rules first"
+                            : undefined
+                        }
                         onClick={() => {
-                          const url =
-                            market.arbitrageDirection === "buy_poly"
-                              ? market.urlPoly
-                              : market.urlKalshi;
-                          if (url) window.open(url, "_blank");
+                          // Open both legs: YES venue first, then the NO venue
+                          const { buyYes, buyNo } = market.arbitrageDirection!;
+                          [buyYes, buyNo].forEach((venue) => {
+                            const url = market.quotes[venue]?.url;
+                            if (url) window.open(url, "_blank");
+                          });
+                          // Then ask what actually filled
+                          if (onRecordPosition) setRecording(market);
                         }}
                       >
-                        <Zap size={11} />
-                        ARB THIS
+                        {market.resolution.risk === "high" ? (
+                          <>
+                            <AlertTriangle size={11} />
+                            CHECK RULES
+                          </>
+                        ) : (
+                          <>
+                            <Zap size={11} />
+                            ARB THIS
+                          </>
+                        )}
                       </button>
                     ) : (
                       <button
@@ -506,16 +1093,60 @@ export default function ArbTable({
       <div className="mt-4 flex items-center justify-between px-1">
         <div className="text-[11px] text-gray-600">
           {processedMarkets.length} market{processedMarkets.length !== 1 ? "s" : ""}{" "}
-          {filters.showOnlyArbitrage || filters.minSpread > 0
+          {filters.showOnlyArbitrage || filters.minSpread > 0 || filters.category !== "all"
             ? "(filtered)"
             : ""}
         </div>
-        {lastUpdated && (
-          <div className="text-[11px] text-gray-600">
-            Updated: {lastUpdated.toLocaleTimeString()}
-          </div>
-        )}
+        <div className="flex items-center gap-4">
+          {streams.map((stream) => (
+            <div
+              key={stream.venue}
+              className="flex items-center gap-1.5 text-[11px] text-gray-600"
+              title={`${stream.books} books from ${stream.url}`}
+            >
+              <div
+                className={`w-1.5 h-1.5 rounded-full ${
+                  stream.connected ? "bg-emerald-500 animate-pulse" : "bg-red-500/70"
+                }`}
+              ></div>
+              {VENUE_LABELS[stream.venue]} {stream.connected ? "live" : "reconnecting"}
+            </div>
+          ))}
+          {lastUpdated && (
+            <div className="text-[11px] text-gray-600">
+              Updated: {lastUpdated.toLocaleTimeString()}
+            </div>
+          )}
+        </div>
       </div>
+
+      {linking && onOverride && (
+        <LinkPicker
+          market={linking}
+          markets={markets}
+          onLink={(listings) => {
+            onOverride("link", listings);
+            setLinking(null);
+          }}
+          onClose={() => setLinking(null)}
+        />
+      )}
+
+      {detail && (
+        <MarketDrawer
+          market={detail}
+          session={sessionHistory?.get(detail.id) ?? []}
+          onClose={() => setDetailId(null)}
+        />
+      )}
+
+      {recording && onRecordPosition && (
+        <PositionForm
+          market={recording}
+          onSave={onRecordPosition}
+          onClose={() => setRecording(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,67 @@
+"use client";
+
+import React from "react";
+
+interface ArbsPerDayChartProps {
+  days: { day: string; count: number }[];
+}
+
+const WIDTH = 800;
+const HEIGHT = 140;
+const PAD = { top: 14, right: 12, bottom: 20, left: 32 };
+
+// Bars of new arb episodes per UTC day
+export default function ArbsPerDayChart({ days }: ArbsPerDayChartProps) {
+  if (days.length === 0) return null;
+
+  const max = Math.max(...days.map((d) => d.count), 1);
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const slot = plotWidth / days.length;
+  const barWidth = Math.max(Math.min(slot * 0.7, 40), 2);
+
+  // Label every nth day so labels never collide
+  const labelEvery = Math.ceil(days.length / 10);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      <line
+        x1={PAD.left}
+        x2={WIDTH - PAD.right}
+        y1={PAD.top + plotHeight}
+        y2={PAD.top + plotHeight}
+        stroke="#1f2937"
+        strokeWidth={1}
+      />
+      <text x={PAD.left - 6} y={PAD.top + 3} textAnchor="end" fontSize={10} fill="#6b7280" fontFamily="monospace">
+        {max}
+      </text>
+
+      {days.map((d, i) => {
+        const barHeight = (d.count / max) * plotHeight;
+        const cx = PAD.left + slot * i + slot / 2;
+        return (
+          <g key={d.day}>
+            <rect
+              x={cx - barWidth / 2}
+              y={PAD.top + plotHeight - barHeight}
+              width={barWidth}
+              height={barHeight}
+              fill="#10b981"
+              opacity={0.6}
+            >
+              <title>
+                {d.day}: {d.count} arb{d.count !== 1 ? "s" : ""}
+              </title>
+            </rect>
+            {i % labelEvery === 0 && (
+              <text x={cx} y={HEIGHT - 4} textAnchor="middle" fontSize={10} fill="#6b7280" fontFamily="monospace">
+                {d.day.slice(5)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
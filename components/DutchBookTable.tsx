@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useState } from "react";
+import { ExternalLink, Layers, TrendingUp } from "lucide-react";
+import { DutchBook } from "@/types";
+import { REFERENCE_TRADE_SIZE, formatEdge, formatPrice, formatUsd } from "@/utils/format";
+import { VENUE_LABELS } from "@/utils/venues/labels";
+
+interface DutchBookTableProps {
+  books: DutchBook[];
+  isLoading: boolean;
+}
+
+export default function DutchBookTable({ books, isLoading }: DutchBookTableProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  // Baskets that can miss their payout never count as arbs
+  const isArb = (b: DutchBook) => b.guaranteed && b.netProfit > 0;
+  const profitable = books.filter(isArb);
+  const visible = showAll ? books : profitable;
+
+  return (
+    <div className="w-full">
+      {/* Header Bar */}
+      <div className="flex items-center justify-between gap-4 mb-4 px-1">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Layers size={14} className="text-gray-500" />
+            <h2 className="text-sm font-medium text-gray-300">Dutch Books</h2>
+          </div>
+          {profitable.length > 0 && (
+            <div className="flex items-center gap-2 px-3 py-1.5 rounded bg-emerald-500/10 border border-emerald-500/20">
+              <span className="text-sm font-mono text-emerald-400">
+                {profitable.length} BASKET{profitable.length !== 1 ? "S" : ""}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+            className="w-4 h-4 rounded border-gray-700 bg-gray-800 text-emerald-500 focus:ring-emerald-500/20"
+          />
+          Show unprofitable and unguaranteed baskets
+        </label>
+      </div>
+
+      {/* Table Container */}
+      <div className="overflow-x-auto rounded-lg border border-gray-800/50 bg-gray-950/50">
+        <table className="w-full">
+          <thead className="bg-gray-900/50 border-b border-gray-800/50">
+            <tr>
+              <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider min-w-[240px]">
+                Event
+              </th>
+              <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider w-16">
+                Side
+              </th>
+              <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider min-w-[280px]">
+                Legs
+              </th>
+              <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider w-24">
+                Cost
+              </th>
+              <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider w-24">
+                Payout
+              </th>
+              <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider w-24">
+                Edge
+              </th>
+              <th className="px-3 py-3 text-left text-[11px] font-medium text-gray-400 uppercase tracking-wider w-28">
+                Net
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800/30">
+            {isLoading ? (
+              <tr className="animate-pulse">
+                <td colSpan={7} className="px-3 py-4">
+                  <div className="h-4 bg-gray-800/50 rounded w-1/2"></div>
+                </td>
+              </tr>
+            ) : visible.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-3 py-8 text-center">
+                  <div className="text-gray-500 text-sm">
+                    No outcome basket pays out more than it costs
+                  </div>
+                </td>
+              </tr>
+            ) : (
+              visible.map((book) => (
+                <tr
+                  key={book.id}
+                  className={`hover:bg-gray-800/20 transition-colors ${
+                    isArb(book) ? "bg-emerald-500/[0.02]" : ""
+                  }`}
+                >
+                  {/* Event */}
+                  <td className="px-3 py-3">
+                    <div className="flex items-center gap-2">
+                      {isArb(book) && (
+                        <TrendingUp size={14} className="text-emerald-400 flex-shrink-0" />
+                      )}
+                      <span
+                        className="text-sm text-gray-200 truncate max-w-[240px]"
+                        title={book.title}
+                      >
+                        {book.title}
+                      </span>
+                    </div>
+                    <div className="mt-1 text-[10px] text-gray-600 font-mono">
+                      {book.legs.length} OUTCOMES ·{" "}
+                      {book.venues.map((v) => VENUE_LABELS[v]).join(" + ")}
+                    </div>
+                  </td>
+
+                  {/* Side */}
+                  <td className="px-3 py-3">
+                    <span
+                      className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${
+                        book.side === "yes"
+                          ? "bg-emerald-500/10 text-emerald-400"
+                          : "bg-red-500/10 text-red-400"
+                      }`}
+                    >
+                      ALL {book.side.toUpperCase()}
+                    </span>
+                    {!book.guaranteed && (
+                      <div
+                        className="mt-1 text-[9px] text-yellow-500/80 uppercase"
+                        title="No catch-all outcome is listed, so every leg can lose"
+                      >
+                        Not guaranteed
+                      </div>
+                    )}
+                  </td>
+
+                  {/* Legs */}
+                  <td className="px-3 py-3">
+                    <div className="flex flex-col gap-0.5">
+                      {book.legs.map((leg) => (
+                        <a
+                          key={`${leg.venue}-${leg.marketId}`}
+                          href={leg.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1.5 text-[11px] text-gray-400 hover:text-gray-200"
+                        >
+                          <span className="font-mono text-gray-300 w-10">
+                            {formatPrice(leg.price)}
+                          </span>
+                          <span className="truncate max-w-[140px]" title={leg.outcome}>
+                            {leg.outcome}
+                          </span>
+                          <span className="text-gray-600">@ {VENUE_LABELS[leg.venue]}</span>
+                          <ExternalLink size={9} className="text-gray-600" />
+                        </a>
+                      ))}
+                    </div>
+                  </td>
+
+                  {/* Cost / Payout / Edge */}
+                  <td className="px-3 py-3 font-mono text-sm text-gray-300">
+                    {formatPrice(book.cost)}
+                  </td>
+                  <td className="px-3 py-3 font-mono text-sm text-gray-300">
+                    {formatPrice(book.payout)}
+                  </td>
+                  <td className="px-3 py-3">
+                    <span
+                      className={`font-mono text-sm ${
+                        book.edge > 0 ? "text-emerald-400" : "text-gray-500"
+                      }`}
+                    >
+                      {formatEdge(book.edge)}
+                    </span>
+                  </td>
+
+                  {/* Net */}
+                  <td className="px-3 py-3">
+                    <div className="flex flex-col">
+                      <span
+                        className={`font-mono text-sm ${
+                          isArb(book) ? "text-emerald-400" : "text-gray-500"
+                        }`}
+                      >
+                        {formatUsd(book.netProfit)}
+                      </span>
+                      <span className="text-[10px] text-gray-600 font-mono">
+                        {book.netROI.toFixed(1)}% · {REFERENCE_TRADE_SIZE}x
+                      </span>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
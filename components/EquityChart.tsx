@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import { BacktestResult } from "@/types";
+import { formatUsd } from "@/utils/format";
+
+interface EquityChartProps {
+  results: BacktestResult[];
+}
+
+// SVG user units; the chart scales to its container's width
+const WIDTH = 800;
+const HEIGHT = 220;
+const PAD = { top: 10, right: 12, bottom: 20, left: 56 };
+
+export const STRATEGY_COLORS = ["#10b981", "#3b82f6", "#eab308", "#a855f7", "#f97316", "#ec4899"];
+
+function formatTick(time: number, spanMs: number): string {
+  const date = new Date(time);
+  return spanMs > 2 * 24 * 60 * 60 * 1000
+    ? date.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+    : date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+// Realized plus marked-to-bid P&L of each strategy, scan by scan
+export default function EquityChart({ results }: EquityChartProps) {
+  const points = results.flatMap((r) => r.equity);
+  if (points.length === 0) return null;
+
+  const times = points.map((p) => Date.parse(p.at));
+  const start = Math.min(...times);
+  const end = Math.max(...times);
+  const span = Math.max(end - start, 1);
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (t: number) => PAD.left + ((t - start) / span) * plotWidth;
+
+  // Always show zero so gains and losses read at a glance
+  const max = Math.max(0, ...points.map((p) => p.equity));
+  const min = Math.min(0, ...points.map((p) => p.equity));
+  const range = Math.max(max - min, 1);
+  const y = (value: number) => PAD.top + (1 - (value - min) / range) * plotHeight;
+
+  const ticks = Array.from({ length: 5 }, (_, i) => start + (span * i) / 4);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {[max, 0, min]
+          .filter((v, i, all) => all.indexOf(v) === i)
+          .map((value) => (
+            <g key={value}>
+              <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(value)} y2={y(value)} stroke="#1f2937" strokeWidth={1} />
+              <text x={PAD.left - 6} y={y(value) + 3} textAnchor="end" fontSize={10} fill="#6b7280" fontFamily="monospace">
+                {formatUsd(value)}
+              </text>
+            </g>
+          ))}
+
+        {results.map((result, i) => (
+          <path
+            key={i}
+            d={result.equity
+              .map((p, j) => `${j === 0 ? "M" : "L"}${x(Date.parse(p.at)).toFixed(1)},${y(p.equity).toFixed(1)}`)
+              .join(" ")}
+            fill="none"
+            stroke={STRATEGY_COLORS[i % STRATEGY_COLORS.length]}
+            strokeWidth={1.5}
+          />
+        ))}
+
+        {ticks.map((t, i) => (
+          <text
+            key={i}
+            x={x(t)}
+            y={HEIGHT - 4}
+            textAnchor={i === 0 ? "start" : i === ticks.length - 1 ? "end" : "middle"}
+            fontSize={10}
+            fill="#6b7280"
+            fontFamily="monospace"
+          >
+            {formatTick(t, span)}
+          </text>
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 mt-2 text-[10px] text-gray-400">
+        {results.map((result, i) => (
+          <div key={i} className="flex items-center gap-1.5">
+            <div className="w-3 h-0.5" style={{ backgroundColor: STRATEGY_COLORS[i % STRATEGY_COLORS.length] }}></div>
+            {result.strategy.name}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
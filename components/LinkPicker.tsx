@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Link2, Search, X } from "lucide-react";
+import { ListingKey, UnifiedMarket, Venue, VenueQuote } from "@/types";
+import { formatPrice } from "@/utils/format";
+import { listingKey } from "@/utils/matcher";
+import { extractKeywords } from "@/utils/normalize";
+import { VENUE_LABELS, VENUE_ORDER } from "@/utils/venues/labels";
+
+interface LinkPickerProps {
+  market: UnifiedMarket; // Unmatched row being linked
+  markets: UnifiedMarket[];
+  onLink: (listings: ListingKey[]) => void;
+  onClose: () => void;
+}
+
+// Candidates shown before the user types anything
+const MAX_SUGGESTIONS = 50;
+
+export default function LinkPicker({ market, markets, onLink, onClose }: LinkPickerProps) {
+  const source = Object.values(market.quotes)[0] as VenueQuote;
+  const otherVenues = VENUE_ORDER.filter((v) => v !== source.venue);
+
+  const [query, setQuery] = useState("");
+  const [manualVenue, setManualVenue] = useState<Venue>(otherVenues[0]);
+  const [manualId, setManualId] = useState("");
+
+  // Every listing on another venue, closest names first
+  const candidates = useMemo(() => {
+    const sourceWords = extractKeywords(source.eventName);
+    const seen = new Set<string>();
+    const listings: { quote: VenueQuote; score: number }[] = [];
+
+    for (const m of markets) {
+      for (const quote of Object.values(m.quotes) as VenueQuote[]) {
+        const key = listingKey(quote);
+        if (quote.venue === source.venue || seen.has(key)) continue;
+        seen.add(key);
+        const words = extractKeywords(quote.eventName);
+        const score = words.filter((w) => sourceWords.includes(w)).length;
+        listings.push({ quote, score });
+      }
+    }
+
+    return listings.sort((a, b) => b.score - a.score).map((l) => l.quote);
+  }, [markets, source]);
+
+  const visible = useMemo(() => {
+    if (!query) return candidates.slice(0, MAX_SUGGESTIONS);
+    const q = query.toLowerCase();
+    return candidates.filter(
+      (c) => c.eventName.toLowerCase().includes(q) || c.marketId.toLowerCase().includes(q)
+    );
+  }, [candidates, query]);
+
+  const link = (venue: Venue, marketId: string) =>
+    onLink([listingKey(source), listingKey({ venue, marketId })]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-xl mx-4 rounded-lg border border-gray-800 bg-[#111111] shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 p-4 border-b border-gray-800/50">
+          <div>
+            <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">
+              Link {VENUE_LABELS[source.venue]} market
+            </div>
+            <div className="text-sm text-gray-200">{source.eventName}</div>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-300">
+            <X size={16} />
+          </button>
+        </div>
+
+        {/* Search */}
+        <div className="p-4 pb-2">
+          <div className="relative">
+            <Search
+              size={14}
+              className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500"
+            />
+            <input
+              type="text"
+              autoFocus
+              placeholder="Search other venues by name or ticker..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 text-sm bg-gray-900/50 border border-gray-800 rounded-lg text-gray-300 placeholder-gray-600 focus:outline-none focus:border-gray-700"
+            />
+          </div>
+        </div>
+
+        {/* Candidates */}
+        <div className="max-h-72 overflow-y-auto px-2">
+          {visible.length === 0 ? (
+            <div className="px-2 py-6 text-center text-sm text-gray-500">
+              No listings match — enter the id below
+            </div>
+          ) : (
+            visible.map((quote) => (
+              <button
+                key={listingKey(quote)}
+                onClick={() => link(quote.venue, quote.marketId)}
+                className="w-full flex items-center justify-between gap-3 px-2 py-2 rounded text-left hover:bg-gray-800/40"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-300 truncate">{quote.eventName}</div>
+                  <div className="text-[10px] text-gray-600 font-mono">
+                    {VENUE_LABELS[quote.venue]} · {quote.marketId}
+                  </div>
+                </div>
+                <span className="font-mono text-xs text-gray-500">
+                  {formatPrice(quote.price)}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Manual entry */}
+        <div className="flex items-center gap-2 p-4 border-t border-gray-800/50">
+          <select
+            value={manualVenue}
+            onChange={(e) => setManualVenue(e.target.value as Venue)}
+            className="px-2 py-2 text-sm bg-gray-800 border border-gray-700 rounded text-gray-300 focus:outline-none"
+          >
+            {otherVenues.map((v) => (
+              <option key={v} value={v}>
+                {VENUE_LABELS[v]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Market id or ticker"
+            value={manualId}
+            onChange={(e) => setManualId(e.target.value)}
+            className="flex-1 px-3 py-2 text-sm font-mono bg-gray-900/50 border border-gray-800 rounded-lg text-gray-300 placeholder-gray-600 focus:outline-none focus:border-gray-700"
+          />
+          <button
+            onClick={() => link(manualVenue, manualId.trim())}
+            disabled={!manualId.trim()}
+            className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded border border-emerald-500/30 bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 transition-colors disabled:opacity-50"
+          >
+            <Link2 size={12} />
+            LINK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { ExternalLink, RefreshCw, X } from "lucide-react";
+import { HistoryPoint, ListingBook, MarketBooks, MatchBreakdown, OrderBookLevel, UnifiedMarket, VenueQuote } from "@/types";
+import { categoryLabel } from "@/utils/categories";
+import { formatPrice, formatSpreadPercent, formatVolume } from "@/utils/format";
+import { VENUE_LABELS } from "@/utils/venues/labels";
+
+interface MarketDrawerProps {
+  market: UnifiedMarket;
+  session: HistoryPoint[]; // The pair's spread since the page was opened
+  onClose: () => void;
+}
+
+// Levels shown per side of each book
+const BOOK_LEVELS = 10;
+
+const sectionTitle = "text-[10px] text-gray-500 uppercase tracking-wider mb-2";
+
+function Chips({ items, className }: { items: string[]; className: string }) {
+  if (items.length === 0) return <span className="text-[10px] text-gray-600">none</span>;
+  return (
+    <span className="flex flex-wrap gap-1">
+      {items.map((item) => (
+        <span key={item} className={`px-1.5 py-0.5 text-[10px] font-mono rounded ${className}`}>
+          {item}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+// Everything needed to vet one pair without leaving the scanner: both
+// listings' terms, their books, why they were matched and how the spread moved
+export default function MarketDrawer({ market, session, onClose }: MarketDrawerProps) {
+  const [books, setBooks] = useState<MarketBooks | null>(null);
+  const [loadingBooks, setLoadingBooks] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const quotes = Object.values(market.quotes) as VenueQuote[];
+
+  const loadBooks = useCallback(async () => {
+    setLoadingBooks(true);
+    try {
+      const res = await fetch(`/api/markets/${encodeURIComponent(market.id)}/books`, { cache: "no-store" });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || `Books API error: ${res.status}`);
+      setBooks(result);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load order books");
+    } finally {
+      setLoadingBooks(false);
+    }
+  }, [market.id]);
+
+  useEffect(() => {
+    setBooks(null);
+    loadBooks();
+  }, [loadBooks]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const renderLevels = (levels: OrderBookLevel[], side: "yes" | "no") => (
+    <div>
+      <div className="flex justify-between text-[10px] text-gray-600 uppercase mb-1">
+        <span className={side === "yes" ? "text-emerald-500/70" : "text-red-400/70"}>{side} asks</span>
+        <span>Size</span>
+      </div>
+      {levels.length === 0 ? (
+        <div className="text-[10px] text-gray-600">Empty</div>
+      ) : (
+        levels.slice(0, BOOK_LEVELS).map((level) => (
+          <div key={level.price} className="flex justify-between text-[11px] font-mono">
+            <span className="text-gray-300">{formatPrice(level.price)}</span>
+            <span className="text-gray-500">{level.size.toLocaleString()}</span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  const renderBook = (listing: ListingBook) => {
+    const quote = market.quotes[listing.venue];
+    return (
+      <div key={listing.venue} className="p-3 rounded border border-gray-800/50 bg-gray-900/30">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs text-gray-300">{VENUE_LABELS[listing.venue]}</span>
+          <span className="text-[10px] text-gray-600 uppercase">
+            {listing.book ? (listing.live ? "live" : "snapshot") : ""}
+          </span>
+        </div>
+        {quote?.polarity === "inverted" && (
+          <div className="mb-2 text-[10px] text-yellow-500/80">Inverted: this venue&apos;s YES is the pair&apos;s NO</div>
+        )}
+        {listing.book ? (
+          <div className="grid grid-cols-2 gap-3">
+            {renderLevels(listing.book.yesAsks, "yes")}
+            {renderLevels(listing.book.noAsks, "no")}
+          </div>
+        ) : (
+          <div className="text-[11px] text-gray-500">{listing.error}</div>
+        )}
+      </div>
+    );
+  };
+
+  const renderBreakdown = (breakdown: MatchBreakdown) => (
+    <div key={breakdown.venues.join("-")} className="p-3 rounded border border-gray-800/50 bg-gray-900/30 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-300">
+          {VENUE_LABELS[breakdown.venues[0]]} vs {VENUE_LABELS[breakdown.venues[1]]}
+        </span>
+        <span className="font-mono text-sm text-gray-200">{breakdown.score.toFixed(2)}</span>
+      </div>
+      <div className="grid grid-cols-[110px_1fr_50px] gap-2 items-start text-[11px]">
+        <span className="text-gray-500">Shared keywords</span>
+        <Chips items={breakdown.sharedKeywords} className="bg-gray-800/60 text-gray-300" />
+        <span className="text-right font-mono text-gray-400">{breakdown.jaccard.toFixed(2)}</span>
+
+        <span className="text-gray-500">Key terms</span>
+        <Chips items={breakdown.keyTerms} className="bg-blue-500/10 text-blue-400" />
+        <span className="text-right font-mono text-gray-400">+{breakdown.keyTermBoost.toFixed(2)}</span>
+
+        <span className="text-gray-500">Entities agree</span>
+        <Chips items={breakdown.entityAgreements} className="bg-emerald-500/10 text-emerald-400" />
+        <span className="text-right font-mono text-gray-400">+{breakdown.entityBoost.toFixed(2)}</span>
+
+        {breakdown.entityContradictions.length > 0 && (
+          <>
+            <span className="text-gray-500">Entities differ</span>
+            <Chips items={breakdown.entityContradictions} className="bg-red-500/10 text-red-400" />
+            <span className="text-right font-mono text-red-400">= 0</span>
+          </>
+        )}
+      </div>
+      <div className="text-[10px] text-gray-600">
+        Jaccard is {breakdown.sharedKeywords.length} shared of {breakdown.unionSize} distinct keywords; the
+        total is capped at 1
+      </div>
+    </div>
+  );
+
+  // Spread over the session, scaled to its own range
+  const renderSession = () => {
+    if (session.length < 2) {
+      return <div className="text-[11px] text-gray-500">Collecting: a point is added each time the pair&apos;s quotes change</div>;
+    }
+    const width = 320;
+    const height = 48;
+    const start = Date.parse(session[0].scannedAt);
+    const span = Math.max(Date.parse(session[session.length - 1].scannedAt) - start, 1);
+    const spreads = session.map((p) => p.spreadPercent);
+    const top = Math.max(...spreads);
+    const bottom = Math.min(...spreads);
+    const range = top - bottom || 1;
+    const points = session
+      .map(
+        (p) =>
+          `${(((Date.parse(p.scannedAt) - start) / span) * width).toFixed(1)},${(
+            height -
+            ((p.spreadPercent - bottom) / range) * height
+          ).toFixed(1)}`
+      )
+      .join(" ");
+
+    return (
+      <div className="flex items-center gap-4">
+        <svg width={width} height={height} className="overflow-visible">
+          <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-yellow-500/70" />
+        </svg>
+        <div className="text-[10px] font-mono text-gray-500 space-y-0.5">
+          <div>now {formatSpreadPercent(spreads[spreads.length - 1])}</div>
+          <div>high {formatSpreadPercent(top)}</div>
+          <div>low {formatSpreadPercent(bottom)}</div>
+          <div>
+            {session.length} points since {new Date(start).toLocaleTimeString()}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60" onClick={onClose}>
+      <aside
+        className="w-full max-w-3xl h-full overflow-y-auto border-l border-gray-800 bg-[#111111] shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="sticky top-0 z-10 flex items-start justify-between gap-4 p-4 border-b border-gray-800/50 bg-[#111111]">
+          <div>
+            <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">
+              {categoryLabel(market.category)} · match {market.matchConfidence}
+            </div>
+            <div className="text-sm text-gray-200">{market.eventName}</div>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {quotes.map((quote) => (
+                <a
+                  key={quote.venue}
+                  href={quote.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 px-2 py-1 text-[11px] rounded border border-gray-800 text-gray-400 hover:text-gray-200 hover:border-gray-700"
+                >
+                  {VENUE_LABELS[quote.venue]}
+                  <ExternalLink size={11} />
+                </a>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-300">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          {/* Listings */}
+          <section>
+            <div className={sectionTitle}>Listings</div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {quotes.map((quote) => (
+                <div key={quote.venue} className="p-3 rounded border border-gray-800/50 bg-gray-900/30">
+                  <div className="text-xs text-gray-500 mb-1">{VENUE_LABELS[quote.venue]}</div>
+                  <div className="text-sm text-gray-200 mb-2">{quote.eventName}</div>
+                  <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[11px] mb-2">
+                    <span className="text-gray-500">Volume</span>
+                    <span className="font-mono text-gray-300">{quote.volume > 0 ? formatVolume(quote.volume) : "—"}</span>
+                    <span className="text-gray-500">Open interest</span>
+                    <span className="font-mono text-gray-300">{quote.openInterest?.toLocaleString() ?? "—"}</span>
+                    <span className="text-gray-500">Ends</span>
+                    <span className="font-mono text-gray-300">
+                      {quote.resolution.endDate ? new Date(quote.resolution.endDate).toLocaleString() : "—"}
+                    </span>
+                    <span className="text-gray-500">Source</span>
+                    <span className="text-gray-300 break-words">{quote.resolution.source ?? "—"}</span>
+                  </div>
+                  <div className="max-h-40 overflow-y-auto text-[11px] text-gray-400 whitespace-pre-line">
+                    {quote.resolution.rules ?? "No rules text published"}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Order Books */}
+          <section>
+            <div className="flex items-center justify-between">
+              <div className={sectionTitle}>Order books (each venue&apos;s own sides)</div>
+              <button
+                onClick={loadBooks}
+                disabled={loadingBooks}
+                className="p-1 text-gray-500 hover:text-gray-300 disabled:opacity-50"
+                title="Reload books"
+              >
+                <RefreshCw size={12} className={loadingBooks ? "animate-spin" : ""} />
+              </button>
+            </div>
+            {error && <div className="mb-2 text-xs text-red-400">{error}</div>}
+            {books ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">{books.books.map(renderBook)}</div>
+            ) : (
+              !error && <div className="text-[11px] text-gray-500">Loading books...</div>
+            )}
+          </section>
+
+          {/* Match Breakdown */}
+          <section>
+            <div className={sectionTitle}>
+              Match score {market.matchScore.toFixed(2)} (weakest pair)
+            </div>
+            <div className="space-y-2">
+              {market.matchBreakdown.map(renderBreakdown)}
+              {market.runnerUp && (
+                <div className="text-[11px] text-gray-500">
+                  Runner-up: {VENUE_LABELS[market.runnerUp.venue]} &ldquo;{market.runnerUp.eventName}&rdquo; at{" "}
+                  <span className="font-mono">{market.runnerUp.score.toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+          </section>
+
+          {/* Session Spread */}
+          <section>
+            <div className={sectionTitle}>Spread this session</div>
+            {renderSession()}
+          </section>
+        </div>
+      </aside>
+    </div>
+  );
+}
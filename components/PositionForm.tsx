@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useState } from "react";
+import { Briefcase, X } from "lucide-react";
+import { UnifiedMarket, Venue } from "@/types";
+import { REFERENCE_TRADE_SIZE } from "@/utils/format";
+import { estimateFees, hedgeLegs } from "@/utils/positions";
+import { VENUE_LABELS } from "@/utils/venues/labels";
+
+interface PositionFormProps {
+  market: UnifiedMarket; // Pair whose hedge was just opened
+  onSave: (position: Record<string, unknown>) => Promise<string | null>; // Error or null
+  onClose: () => void;
+}
+
+// Inputs hold strings until submit
+interface DraftLeg {
+  venue: Venue;
+  marketId: string;
+  side: "yes" | "no";
+  quantity: string;
+  fillPrice: string;
+  fees: string;
+}
+
+const inputClass =
+  "px-2 py-1.5 text-sm bg-gray-900/50 border border-gray-800 rounded text-gray-300 placeholder-gray-600 focus:outline-none focus:border-gray-700";
+
+// Prefilled from the best hedge at the best size; edit to what actually filled
+export default function PositionForm({ market, onSave, onClose }: PositionFormProps) {
+  const [legs, setLegs] = useState<DraftLeg[]>(() =>
+    hedgeLegs(market, market.depth?.bestSize || REFERENCE_TRADE_SIZE).map((leg) => ({
+      ...leg,
+      quantity: String(leg.quantity),
+      fillPrice: String(leg.fillPrice),
+      fees: leg.fees.toFixed(2),
+    }))
+  );
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Size and price changes re-estimate the fee; the fee itself can be overwritten
+  const setLeg = (i: number, patch: Partial<DraftLeg>) =>
+    setLegs(
+      legs.map((leg, j) => {
+        if (j !== i) return leg;
+        const next = { ...leg, ...patch };
+        if (patch.quantity !== undefined || patch.fillPrice !== undefined) {
+          const quantity = parseFloat(next.quantity);
+          const price = parseFloat(next.fillPrice);
+          if (quantity > 0 && price >= 0) next.fees = estimateFees(next.venue, price, quantity).toFixed(2);
+        }
+        return next;
+      })
+    );
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const error = await onSave({
+      marketId: market.id,
+      eventName: market.eventName,
+      legs: legs.map((leg) => ({
+        venue: leg.venue,
+        marketId: leg.marketId,
+        side: leg.side,
+        quantity: parseFloat(leg.quantity),
+        fillPrice: parseFloat(leg.fillPrice),
+        fees: parseFloat(leg.fees) || 0,
+      })),
+      notes,
+    });
+    setSaving(false);
+    setError(error);
+    if (!error) onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={submit}
+        className="w-full max-w-xl mx-4 rounded-lg border border-gray-800 bg-[#111111] shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 p-4 border-b border-gray-800/50">
+          <div>
+            <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">
+              Record fills
+            </div>
+            <div className="text-sm text-gray-200">{market.eventName}</div>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 text-gray-500 hover:text-gray-300">
+            <X size={16} />
+          </button>
+        </div>
+
+        {/* Legs */}
+        <div className="p-4 space-y-3">
+          <div className="grid grid-cols-[1fr_70px_90px_80px_80px] gap-2 text-[10px] text-gray-500 uppercase tracking-wider">
+            <span>Venue</span>
+            <span>Side</span>
+            <span>Contracts</span>
+            <span>Fill ¢</span>
+            <span>Fees $</span>
+          </div>
+          {legs.map((leg, i) => (
+            <div key={leg.venue} className="grid grid-cols-[1fr_70px_90px_80px_80px] gap-2 items-center">
+              <div className="min-w-0">
+                <div className="text-sm text-gray-300">{VENUE_LABELS[leg.venue]}</div>
+                <div className="text-[10px] text-gray-600 font-mono truncate">{leg.marketId}</div>
+              </div>
+              <select
+                value={leg.side}
+                onChange={(e) => setLeg(i, { side: e.target.value as DraftLeg["side"] })}
+                className={`${inputClass} uppercase`}
+              >
+                <option value="yes">Yes</option>
+                <option value="no">No</option>
+              </select>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={leg.quantity}
+                onChange={(e) => setLeg(i, { quantity: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="any"
+                value={leg.fillPrice}
+                onChange={(e) => setLeg(i, { fillPrice: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={leg.fees}
+                onChange={(e) => setLeg(i, { fees: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          ))}
+
+          <input
+            type="text"
+            placeholder="Notes (optional)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-gray-800/50">
+          <span className="text-xs text-red-400">{error}</span>
+          <button
+            type="submit"
+            disabled={saving || legs.length === 0}
+            className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded border border-emerald-500/30 bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 transition-colors disabled:opacity-50"
+          >
+            <Briefcase size={12} />
+            SAVE POSITION
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { Activity, Github, Twitter } from "lucide-react";
+import AlertBell from "@/components/AlertBell";
+
+export type SitePage = "markets" | "analytics" | "backtest" | "allocate" | "positions" | "alerts";
+
+interface SiteHeaderProps {
+  active: SitePage;
+}
+
+const NAV_LINKS: { page: SitePage | null; label: string; href: string }[] = [
+  { page: "markets", label: "Markets", href: "/" },
+  { page: "analytics", label: "Analytics", href: "/analytics" },
+  { page: "backtest", label: "Backtest", href: "/backtest" },
+  { page: "allocate", label: "Allocate", href: "/allocate" },
+  { page: "positions", label: "Positions", href: "/positions" },
+  { page: "alerts", label: "Alerts", href: "/alerts" },
+  { page: null, label: "Docs", href: "#" },
+];
+
+export default function SiteHeader({ active }: SiteHeaderProps) {
+  return (
+    <header className="border-b border-gray-800/50 bg-[#0d0d0d]/80 backdrop-blur-sm sticky top-0 z-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center justify-between h-14">
+          {/* Logo */}
+          <Link href="/" className="flex items-center gap-3">
+            <div className="flex items-center justify-center w-8 h-8 rounded-lg bg-emerald-500/10 border border-emerald-500/20">
+              <Activity size={18} className="text-emerald-400" />
+            </div>
+            <div>
+              <h1 className="text-base font-semibold text-gray-100 tracking-tight">
+                ArbScanner
+              </h1>
+              <p className="text-[10px] text-gray-500 -mt-0.5">
+                Prediction Market Arbitrage
+              </p>
+            </div>
+          </Link>
+
+          {/* Nav Links */}
+          <nav className="hidden sm:flex items-center gap-6">
+            {NAV_LINKS.map((link) => (
+              <Link
+                key={link.label}
+                href={link.href}
+                className={
+                  link.page === active
+                    ? "text-xs text-emerald-400 font-medium border-b border-emerald-400/50 pb-0.5"
+                    : "text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                }
+              >
+                {link.label}
+              </Link>
+            ))}
+          </nav>
+
+          {/* Alerts + Social Links */}
+          <div className="flex items-center gap-2">
+            <AlertBell />
+            <a
+              href="https://github.com"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="p-2 text-gray-500 hover:text-gray-300 transition-colors"
+            >
+              <Github size={16} />
+            </a>
+            <a
+              href="https://twitter.com"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="p-2 text-gray-500 hover:text-gray-300 transition-colors"
+            >
+              <Twitter size={16} />
+            </a>
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+}
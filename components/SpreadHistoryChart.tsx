@@ -0,0 +1,164 @@
+"use client";
+
+import React from "react";
+import { HistoryPoint, PairHistory } from "@/types";
+import { VENUE_COLORS, VENUE_LABELS, VENUE_ORDER } from "@/utils/venues/labels";
+
+interface SpreadHistoryChartProps {
+  history: PairHistory;
+}
+
+// SVG user units; the chart scales to its container's width
+const WIDTH = 800;
+const PRICE_HEIGHT = 200;
+const SPREAD_HEIGHT = 80;
+const GAP = 24;
+const PAD = { top: 8, right: 12, bottom: 20, left: 40 };
+
+function timeOf(point: HistoryPoint): number {
+  return Date.parse(point.scannedAt);
+}
+
+function formatTick(time: number, spanMs: number): string {
+  const date = new Date(time);
+  return spanMs > 2 * 24 * 60 * 60 * 1000
+    ? date.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+    : date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+// Venue prices (top) and the spread between them (bottom) on a shared time
+// axis. Scans that showed a net-positive hedge are shaded.
+export default function SpreadHistoryChart({ history }: SpreadHistoryChartProps) {
+  const points = history.points;
+  if (points.length === 0) return null;
+
+  const start = timeOf(points[0]);
+  const end = timeOf(points[points.length - 1]);
+  const span = Math.max(end - start, 1);
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const x = (t: number) => PAD.left + ((t - start) / span) * plotWidth;
+
+  const priceTop = PAD.top;
+  const priceY = (price: number) => priceTop + (1 - price / 100) * PRICE_HEIGHT;
+
+  const spreadTop = priceTop + PRICE_HEIGHT + GAP;
+  const maxSpread = Math.max(...points.map((p) => p.spreadPercent), 1);
+  const spreadY = (spread: number) => spreadTop + (1 - spread / maxSpread) * SPREAD_HEIGHT;
+
+  const height = spreadTop + SPREAD_HEIGHT + PAD.bottom;
+  const venues = VENUE_ORDER.filter((v) => points.some((p) => p.prices[v] !== undefined));
+
+  const path = (coords: [number, number][]) =>
+    coords.map(([px, py], i) => `${i === 0 ? "M" : "L"}${px.toFixed(1)},${py.toFixed(1)}`).join(" ");
+
+  // Half the gap to each neighbour, so shading touches without overlapping
+  const arbBands = points
+    .map((p, i) => {
+      if (!p.hasArbitrage) return null;
+      const prev = i > 0 ? x(timeOf(points[i - 1])) : x(timeOf(p));
+      const next = i < points.length - 1 ? x(timeOf(points[i + 1])) : x(timeOf(p));
+      const left = (prev + x(timeOf(p))) / 2;
+      const right = (next + x(timeOf(p))) / 2;
+      return { left, width: Math.max(right - left, 2) };
+    })
+    .filter((b): b is { left: number; width: number } => b !== null);
+
+  const ticks = Array.from({ length: 5 }, (_, i) => start + (span * i) / 4);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+        {/* Arb shading */}
+        {arbBands.map((band, i) => (
+          <rect
+            key={i}
+            x={band.left}
+            y={priceTop}
+            width={band.width}
+            height={spreadTop + SPREAD_HEIGHT - priceTop}
+            fill="#10b981"
+            opacity={0.08}
+          />
+        ))}
+
+        {/* Price grid */}
+        {[0, 25, 50, 75, 100].map((price) => (
+          <g key={price}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={priceY(price)} y2={priceY(price)} stroke="#1f2937" strokeWidth={1} />
+            <text x={PAD.left - 6} y={priceY(price) + 3} textAnchor="end" fontSize={10} fill="#6b7280" fontFamily="monospace">
+              {price}¢
+            </text>
+          </g>
+        ))}
+
+        {/* Venue prices */}
+        {venues.map((venue) => (
+          <path
+            key={venue}
+            d={path(
+              points
+                .filter((p) => p.prices[venue] !== undefined)
+                .map((p) => [x(timeOf(p)), priceY(p.prices[venue] as number)])
+            )}
+            fill="none"
+            stroke={VENUE_COLORS[venue]}
+            strokeWidth={1.5}
+          />
+        ))}
+
+        {/* Spread */}
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={spreadY(0)} y2={spreadY(0)} stroke="#1f2937" strokeWidth={1} />
+        <text x={PAD.left - 6} y={spreadTop + 8} textAnchor="end" fontSize={10} fill="#6b7280" fontFamily="monospace">
+          {maxSpread.toFixed(0)}%
+        </text>
+        <text x={PAD.left - 6} y={spreadY(0) + 3} textAnchor="end" fontSize={10} fill="#6b7280" fontFamily="monospace">
+          0%
+        </text>
+        <path
+          d={`${path(points.map((p) => [x(timeOf(p)), spreadY(p.spreadPercent)]))} L${x(end).toFixed(1)},${spreadY(0)} L${x(start).toFixed(1)},${spreadY(0)} Z`}
+          fill="#eab308"
+          opacity={0.15}
+        />
+        <path
+          d={path(points.map((p) => [x(timeOf(p)), spreadY(p.spreadPercent)]))}
+          fill="none"
+          stroke="#eab308"
+          strokeWidth={1.5}
+        />
+
+        {/* Time axis */}
+        {ticks.map((t, i) => (
+          <text
+            key={i}
+            x={x(t)}
+            y={height - 4}
+            textAnchor={i === 0 ? "start" : i === ticks.length - 1 ? "end" : "middle"}
+            fontSize={10}
+            fill="#6b7280"
+            fontFamily="monospace"
+          >
+            {formatTick(t, span)}
+          </text>
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 mt-2 text-[10px] text-gray-400">
+        {venues.map((venue) => (
+          <div key={venue} className="flex items-center gap-1.5">
+            <div className="w-3 h-0.5" style={{ backgroundColor: VENUE_COLORS[venue] }}></div>
+            {VENUE_LABELS[venue]}
+          </div>
+        ))}
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-0.5 bg-yellow-500"></div>
+          Spread %
+        </div>
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-2 bg-emerald-500/20"></div>
+          Net-positive hedge
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import React from "react";
+import { X } from "lucide-react";
+import { BacktestStrategy, MarketCategory, MatchConfidence } from "@/types";
+import { CONFIDENCE_RANK } from "@/utils/alerts";
+import { CATEGORY_PROFILES } from "@/utils/categories";
+
+interface StrategyEditorProps {
+  strategy: BacktestStrategy;
+  color: string;
+  onChange: (strategy: BacktestStrategy) => void;
+  onRemove: (() => void) | null; // null for the last strategy
+}
+
+const inputClass =
+  "w-full px-2 py-1.5 text-sm bg-gray-900/50 border border-gray-800 rounded text-gray-300 placeholder-gray-600 focus:outline-none focus:border-gray-700";
+
+const NUMBER_FIELDS: { key: "minSpreadPercent" | "minNetROI" | "minSize" | "contracts"; label: string }[] = [
+  { key: "minSpreadPercent", label: "Min spread %" },
+  { key: "minNetROI", label: "Min net ROI %" },
+  { key: "minSize", label: "Min book size" },
+  { key: "contracts", label: "Contracts" },
+];
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-[10px] text-gray-500 uppercase tracking-wider mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+// Entry and exit rules of one backtest strategy
+export default function StrategyEditor({ strategy, color, onChange, onRemove }: StrategyEditorProps) {
+  const set = (patch: Partial<BacktestStrategy>) => onChange({ ...strategy, ...patch });
+
+  const toggleCategory = (category: MarketCategory) =>
+    set({
+      categories: strategy.categories.includes(category)
+        ? strategy.categories.filter((c) => c !== category)
+        : [...strategy.categories, category],
+    });
+
+  return (
+    <div className="p-4 bg-gray-900/20 border border-gray-800/50 rounded-lg">
+      <div className="flex items-center gap-2 mb-3">
+        <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: color }}></div>
+        <input
+          type="text"
+          value={strategy.name}
+          onChange={(e) => set({ name: e.target.value })}
+          className={inputClass}
+        />
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="p-1.5 text-gray-500 hover:text-red-400 transition-colors"
+            title="Remove strategy"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        {NUMBER_FIELDS.map(({ key, label }) => (
+          <Field key={key} label={label}>
+            <input
+              type="number"
+              value={Number.isNaN(strategy[key]) ? "" : strategy[key]}
+              onChange={(e) => set({ [key]: parseFloat(e.target.value) })}
+              className={`${inputClass} font-mono`}
+            />
+          </Field>
+        ))}
+
+        <Field label="Min confidence">
+          <select
+            value={strategy.minConfidence}
+            onChange={(e) => set({ minConfidence: e.target.value as MatchConfidence })}
+            className={inputClass}
+          >
+            {CONFIDENCE_RANK.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </Field>
+
+        <Field label="Exit">
+          <select
+            value={strategy.exit.type}
+            onChange={(e) =>
+              set({
+                exit:
+                  e.target.value === "convergence"
+                    ? { type: "convergence", capture: 0.8 }
+                    : { type: "resolution" },
+              })
+            }
+            className={inputClass}
+          >
+            <option value="resolution">Hold to resolution</option>
+            <option value="convergence">Sell on convergence</option>
+          </select>
+        </Field>
+
+        {strategy.exit.type === "convergence" && (
+          <Field label="Capture % of hold profit">
+            <input
+              type="number"
+              value={Number.isNaN(strategy.exit.capture) ? "" : Math.round(strategy.exit.capture * 100)}
+              onChange={(e) => set({ exit: { type: "convergence", capture: parseFloat(e.target.value) / 100 } })}
+              className={`${inputClass} font-mono`}
+            />
+          </Field>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 mb-3 text-xs text-gray-400">
+        <input
+          type="checkbox"
+          checked={strategy.skipResolutionRisk}
+          onChange={(e) => set({ skipResolutionRisk: e.target.checked })}
+        />
+        Skip pairs with high resolution risk
+      </label>
+
+      {/* No categories selected = all */}
+      <div className="flex flex-wrap gap-1">
+        {CATEGORY_PROFILES.map((profile) => (
+          <button
+            key={profile.id}
+            type="button"
+            onClick={() => toggleCategory(profile.id)}
+            className={`px-2 py-1 text-[10px] rounded border transition-colors ${
+              strategy.categories.includes(profile.id)
+                ? "bg-gray-800 border-gray-700 text-gray-200"
+                : "bg-gray-900/50 border-gray-800 text-gray-500 hover:text-gray-300"
+            }`}
+          >
+            {profile.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
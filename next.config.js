@@ -5,6 +5,10 @@ const nextConfig = {
   images: {
     domains: [],
   },
+  experimental: {
+    // Bundling ws breaks its optional native helpers
+    serverComponentsExternalPackages: ["ws"],
+  },
 };
 
 module.exports = nextConfig;
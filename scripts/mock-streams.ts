@@ -0,0 +1,248 @@
+// ============================================
+// MOCK VENUE WEBSOCKETS (LOCAL TESTING)
+// ============================================
+//
+// Speaks enough of Polymarket's CLOB market channel (/polymarket) and
+// Kalshi's v2 feed (/kalshi) to drive the live feed without venue access:
+//
+//   npm run mock:streams
+//   POLYMARKET_WS_URL=ws://localhost:8765/polymarket \
+//   KALSHI_WS_URL=ws://localhost:8765/kalshi npm run dev
+//
+// Books start at the demo rows' prices (unknown ids get a random price) and
+// wander from there. MOCK_GAP_EVERY=n skips a Kalshi sequence number every
+// n deltas to exercise resubscription.
+
+import { IncomingMessage } from "http";
+import WebSocket, { WebSocketServer } from "ws";
+import { Venue, VenueQuote } from "@/types";
+import { getDummyData } from "@/utils/demoData";
+import { HEDGE_PAYOUT } from "@/utils/normalize";
+import { invertQuote } from "@/utils/polarity";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PORT = Number(process.env.MOCK_STREAMS_PORT) || 8765;
+const TICK_MS = Number(process.env.MOCK_TICK_MS) || 500;
+const GAP_EVERY = Number(process.env.MOCK_GAP_EVERY) || 0;
+
+const LEVEL_SIZES = [400, 1200, 3000];
+
+// ============================================
+// BOOKS
+// ============================================
+
+// Bids on each side in cents, as Kalshi keeps them. Polymarket's YES asks
+// are the NO bids at 100 - p.
+interface MockBook {
+  yes: Map<number, number>;
+  no: Map<number, number>;
+  volume: number;
+}
+
+const books = new Map<string, MockBook>();
+
+function round(price: number): number {
+  return Math.round(price * 10) / 10;
+}
+
+function ladder(bestBid: number): Map<number, number> {
+  return new Map(
+    LEVEL_SIZES.map((size, i) => [round(bestBid - i), size] as [number, number]).filter(
+      ([price]) => price > 0
+    )
+  );
+}
+
+// Demo quotes are in the cluster frame; books are in the venue's
+const seeds = new Map<string, { yesBid: number; noBid: number }>();
+for (const market of getDummyData()) {
+  for (const q of Object.values(market.quotes) as VenueQuote[]) {
+    const quote = q.polarity === "inverted" ? invertQuote(q.quote) : q.quote;
+    if (q.bookId && quote.yesBid !== null && quote.noBid !== null) {
+      seeds.set(`${q.venue}:${q.bookId}`, { yesBid: quote.yesBid, noBid: quote.noBid });
+    }
+  }
+}
+
+function getBook(venue: Venue, bookId: string): MockBook {
+  const key = `${venue}:${bookId}`;
+  let book = books.get(key);
+  if (!book) {
+    const yesBid = seeds.get(key)?.yesBid ?? 30 + Math.floor(Math.random() * 40);
+    const noBid = seeds.get(key)?.noBid ?? HEDGE_PAYOUT - yesBid - 2;
+    book = { yes: ladder(yesBid), no: ladder(noBid), volume: 10_000 };
+    books.set(key, book);
+  }
+  return book;
+}
+
+function best(bids: Map<number, number>): number {
+  return Math.max(0, ...Array.from(bids.keys()));
+}
+
+// Add to or take from one level near the top of one side, never crossing
+// the other side
+function wander(book: MockBook): { side: "yes" | "no"; price: number; delta: number } | null {
+  const side = Math.random() < 0.5 ? "yes" : "no";
+  const bids = book[side];
+  const other = best(book[side === "yes" ? "no" : "yes"]);
+  const price = round(best(bids) + Math.floor(Math.random() * 4) - 2);
+  if (price <= 0 || price + other >= HEDGE_PAYOUT) return null;
+
+  const size = bids.get(price) ?? 0;
+  const delta = size > 0 && Math.random() < 0.5 ? -size : 100 * (1 + Math.floor(Math.random() * 10));
+  if (size + delta > 0) bids.set(price, size + delta);
+  else bids.delete(price);
+  book.volume += Math.abs(delta);
+  return { side, price, delta };
+}
+
+// ============================================
+// CLIENTS
+// ============================================
+
+interface Client {
+  socket: WebSocket;
+  venue: Venue;
+  bookIds: Set<string>;
+  seq: number; // Kalshi orderbook sequence
+  deltas: number;
+}
+
+const clients = new Set<Client>();
+
+const decimal = (cents: number) => (cents / 100).toFixed(3);
+
+function polymarketBook(bookId: string, book: MockBook) {
+  return {
+    event_type: "book",
+    asset_id: bookId,
+    bids: Array.from(book.yes, ([price, size]) => ({ price: decimal(price), size: String(size) })),
+    asks: Array.from(book.no, ([price, size]) => ({
+      price: decimal(HEDGE_PAYOUT - price),
+      size: String(size),
+    })),
+  };
+}
+
+function subscribe(client: Client, message: Record<string, unknown>): void {
+  if (client.venue === "polymarket") {
+    const ids = (message.assets_ids as string[]) || [];
+    ids.forEach((id) => client.bookIds.add(id));
+    client.socket.send(JSON.stringify(ids.map((id) => polymarketBook(id, getBook("polymarket", id)))));
+    return;
+  }
+
+  const params = message.params as { market_tickers?: string[] };
+  const tickers = params?.market_tickers || [];
+  tickers.forEach((t) => client.bookIds.add(t));
+  client.socket.send(JSON.stringify({ type: "subscribed", id: message.id, msg: { channel: "orderbook_delta", sid: 1 } }));
+  client.socket.send(JSON.stringify({ type: "subscribed", id: message.id, msg: { channel: "ticker", sid: 2 } }));
+  for (const ticker of tickers) {
+    const book = getBook("kalshi", ticker);
+    client.socket.send(
+      JSON.stringify({
+        type: "orderbook_snapshot",
+        sid: 1,
+        seq: ++client.seq,
+        msg: { market_ticker: ticker, yes: Array.from(book.yes), no: Array.from(book.no) },
+      })
+    );
+  }
+}
+
+function broadcast(venue: Venue, bookId: string, book: MockBook, change: { side: "yes" | "no"; price: number; delta: number }): void {
+  clients.forEach((client) => {
+    if (client.venue !== venue || !client.bookIds.has(bookId)) return;
+
+    if (venue === "polymarket") {
+      const ask = change.side === "no";
+      client.socket.send(
+        JSON.stringify({
+          event_type: "price_change",
+          price_changes: [
+            {
+              asset_id: bookId,
+              price: decimal(ask ? HEDGE_PAYOUT - change.price : change.price),
+              size: String(book[change.side].get(change.price) ?? 0),
+              side: ask ? "SELL" : "BUY",
+            },
+          ],
+        })
+      );
+      return;
+    }
+
+    client.deltas++;
+    if (GAP_EVERY && client.deltas % GAP_EVERY === 0) client.seq++; // Lose one
+    client.socket.send(
+      JSON.stringify({
+        type: "orderbook_delta",
+        sid: 1,
+        seq: ++client.seq,
+        msg: { market_ticker: bookId, ...change },
+      })
+    );
+    client.socket.send(
+      JSON.stringify({ type: "ticker", sid: 2, msg: { market_ticker: bookId, volume: book.volume } })
+    );
+  });
+}
+
+// ============================================
+// SERVER
+// ============================================
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on("connection", (socket: WebSocket, request: IncomingMessage) => {
+  const venue: Venue | null = request.url?.startsWith("/polymarket")
+    ? "polymarket"
+    : request.url?.startsWith("/kalshi")
+    ? "kalshi"
+    : null;
+  if (!venue) {
+    socket.close(1008, "Use /polymarket or /kalshi");
+    return;
+  }
+
+  const client: Client = { socket, venue, bookIds: new Set(), seq: 0, deltas: 0 };
+  clients.add(client);
+  console.log(`${venue} client connected`);
+
+  socket.on("message", (data) => {
+    const text = data.toString();
+    if (text === "PING") {
+      socket.send("PONG");
+      return;
+    }
+    try {
+      subscribe(client, JSON.parse(text));
+    } catch {
+      // Ignore anything that isn't a subscription
+    }
+  });
+  socket.on("close", () => {
+    clients.delete(client);
+    console.log(`${venue} client disconnected`);
+  });
+});
+
+setInterval(() => {
+  for (const venue of ["polymarket", "kalshi"] as Venue[]) {
+    const subscribed = Array.from(clients)
+      .filter((c) => c.venue === venue)
+      .flatMap((c) => Array.from(c.bookIds));
+    if (subscribed.length === 0) continue;
+
+    const bookId = subscribed[Math.floor(Math.random() * subscribed.length)];
+    const book = getBook(venue, bookId);
+    const change = wander(book);
+    if (change) broadcast(venue, bookId, book, change);
+  }
+}, TICK_MS);
+
+console.log(`Mock venue streams on ws://localhost:${PORT}/polymarket and /kalshi`);
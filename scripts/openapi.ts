@@ -0,0 +1,299 @@
+// ============================================
+// OPENAPI GENERATOR (PUBLIC API v1)
+// ============================================
+//
+// Builds public/openapi.json from the response types in types/index.ts, read
+// with the TypeScript compiler so the document can't drift from the code:
+//
+//   npm run openapi           # rewrite public/openapi.json
+//   npm run openapi -- --check  # exit 1 if it is out of date
+//
+// Property descriptions come from the trailing `//` comments in the types.
+
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+import ts from "typescript";
+import { CATEGORY_PROFILES } from "@/utils/categories";
+import { DEFAULT_FILTERS, DEFAULT_SORT, SORT_FIELDS } from "@/utils/filters";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "@/utils/publicApi";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const TYPES_PATH = path.join(process.cwd(), "types", "index.ts");
+const OUTPUT_PATH = path.join(process.cwd(), "public", "openapi.json");
+
+const ROOT_TYPES = ["OpportunitiesPage", "PairResponse", "ApiError"];
+
+type Schema = Record<string, unknown>;
+
+// ============================================
+// TYPES → JSON SCHEMA
+// ============================================
+
+const program = ts.createProgram([TYPES_PATH], { strict: true, noEmit: true });
+const checker = program.getTypeChecker();
+const source = program.getSourceFile(TYPES_PATH)!;
+const text = source.getFullText();
+
+const schemas: Record<string, Schema> = {};
+
+function comment(ranges: ts.CommentRange[] | undefined): string | undefined {
+  const lines = (ranges ?? [])
+    .filter((r) => r.kind === ts.SyntaxKind.SingleLineCommentTrivia)
+    .map((r) => text.slice(r.pos + 2, r.end).trim());
+  return lines.length > 0 ? lines.join(" ") : undefined;
+}
+
+// Named types from types/index.ts become components; everything else inline
+function namedDeclaration(type: ts.Type): string | null {
+  const symbol = type.aliasSymbol ?? type.getSymbol();
+  const declaration = symbol?.declarations?.[0];
+  if (!symbol || !declaration || declaration.getSourceFile() !== source) return null;
+  if (!ts.isInterfaceDeclaration(declaration) && !ts.isTypeAliasDeclaration(declaration)) return null;
+  return symbol.getName();
+}
+
+function withNull(schema: Schema): Schema {
+  if (typeof schema.type === "string") {
+    const nullable: Schema = { ...schema, type: [schema.type, "null"] };
+    if (Array.isArray(schema.enum)) nullable.enum = [...schema.enum, null];
+    return nullable;
+  }
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+function literalUnion(types: ts.Type[]): Schema | null {
+  if (types.every((t) => t.isStringLiteral())) {
+    return { type: "string", enum: types.map((t) => (t as ts.StringLiteralType).value) };
+  }
+  if (types.every((t) => t.isNumberLiteral())) {
+    return { type: "number", enum: types.map((t) => (t as ts.NumberLiteralType).value) };
+  }
+  return null;
+}
+
+function objectSchema(type: ts.Type): Schema {
+  const properties: Record<string, Schema> = {};
+  const required: string[] = [];
+
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.valueDeclaration ?? property.declarations?.[0];
+    const optional = (property.flags & ts.SymbolFlags.Optional) !== 0;
+    // Optional properties read as T | undefined; the union handling drops it
+    const propertyType = declaration
+      ? checker.getTypeOfSymbolAtLocation(property, declaration)
+      : checker.getTypeOfSymbol(property);
+
+    const schema = toSchema(propertyType);
+    const description =
+      declaration && declaration.getSourceFile() === source
+        ? comment(ts.getTrailingCommentRanges(text, declaration.end))
+        : undefined;
+    properties[property.getName()] = description ? { ...schema, description } : schema;
+    if (!optional) required.push(property.getName());
+  }
+
+  const schema: Schema = { type: "object", properties };
+  if (required.length > 0) schema.required = required;
+  const index = checker.getIndexInfosOfType(type)[0];
+  if (index) schema.additionalProperties = toSchema(index.type);
+  return schema;
+}
+
+function toSchema(type: ts.Type): Schema {
+  const name = namedDeclaration(type);
+  if (name) {
+    if (!(name in schemas)) {
+      schemas[name] = {}; // Placeholder for recursive references
+      schemas[name] = describe(inlineSchema(type), name);
+    }
+    return { $ref: `#/components/schemas/${name}` };
+  }
+  return inlineSchema(type);
+}
+
+// Only the comment block touching the declaration; a blank line ends it, which
+// leaves out section banners
+function adjacent(node: ts.Node): ts.CommentRange[] {
+  const ranges = ts.getLeadingCommentRanges(text, node.pos) ?? [];
+  const block: ts.CommentRange[] = [];
+  for (let i = ranges.length - 1; i >= 0; i--) {
+    const next = block[0]?.pos ?? node.getStart(source);
+    if (/\n\s*\n/.test(text.slice(ranges[i].end, next))) break;
+    block.unshift(ranges[i]);
+  }
+  return block;
+}
+
+function describe(schema: Schema, name: string): Schema {
+  const declaration = source.statements.find(
+    (s) => (ts.isInterfaceDeclaration(s) || ts.isTypeAliasDeclaration(s)) && s.name.text === name
+  );
+  const description = declaration ? comment(adjacent(declaration)) : undefined;
+  return description ? { description, ...schema } : schema;
+}
+
+function inlineSchema(type: ts.Type): Schema {
+  if (type.flags & ts.TypeFlags.Boolean) return { type: "boolean" };
+  if (type.flags & ts.TypeFlags.String) return { type: "string" };
+  if (type.flags & ts.TypeFlags.Number) return { type: "number" };
+  if (type.flags & ts.TypeFlags.BooleanLiteral) return { type: "boolean" };
+  if (type.flags & ts.TypeFlags.Null) return { type: "null" };
+  if (type.isStringLiteral()) return { type: "string", enum: [type.value] };
+  if (type.isNumberLiteral()) return { type: "number", enum: [type.value] };
+
+  if (type.isUnion()) {
+    const members = type.types.filter(
+      (t) => !(t.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined))
+    );
+    const nullable = members.length < type.types.length && type.types.some((t) => t.flags & ts.TypeFlags.Null);
+    // boolean shows up as true | false inside a wider union
+    const booleans = members.filter((t) => t.flags & ts.TypeFlags.BooleanLiteral);
+    const others = members.filter((t) => !(t.flags & ts.TypeFlags.BooleanLiteral));
+
+    const parts: Schema[] = [];
+    if (booleans.length > 0) parts.push({ type: "boolean" });
+    if (others.length > 0) {
+      const literals = literalUnion(others);
+      if (literals) parts.push(literals);
+      else if (others.length === 1) parts.push(toSchema(others[0]));
+      else parts.push({ anyOf: others.map(toSchema) });
+    }
+    const schema = parts.length === 1 ? parts[0] : { anyOf: parts };
+    return nullable ? withNull(schema) : schema;
+  }
+
+  if (checker.isArrayType(type)) {
+    const [item] = checker.getTypeArguments(type as ts.TypeReference);
+    return { type: "array", items: toSchema(item) };
+  }
+
+  if (type.flags & ts.TypeFlags.Object) return objectSchema(type);
+
+  throw new Error(`No schema for type ${checker.typeToString(type)}`);
+}
+
+function componentSchemas(): Record<string, Schema> {
+  const exports = checker.getExportsOfModule(checker.getSymbolAtLocation(source)!);
+  for (const name of ROOT_TYPES) {
+    const symbol = exports.find((s) => s.getName() === name);
+    if (!symbol) throw new Error(`${name} is not exported from types/index.ts`);
+    toSchema(checker.getDeclaredTypeOfSymbol(symbol));
+  }
+  return Object.fromEntries(Object.keys(schemas).sort().map((name) => [name, schemas[name]]));
+}
+
+// ============================================
+// DOCUMENT
+// ============================================
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const rateLimitHeaders = {
+  "X-RateLimit-Limit": { description: "Requests allowed per minute for this key", schema: { type: "integer" } },
+  "X-RateLimit-Remaining": { description: "Requests left in the current minute", schema: { type: "integer" } },
+  "X-RateLimit-Reset": { description: "Unix time (seconds) the window resets", schema: { type: "integer" } },
+};
+
+function errorResponse(description: string, headers = true) {
+  return {
+    description,
+    ...(headers ? { headers: rateLimitHeaders } : {}),
+    content: { "application/json": { schema: ref("ApiError") } },
+  };
+}
+
+const commonErrors = {
+  "401": errorResponse("Missing or invalid API key", false),
+  "429": errorResponse("Rate limit exceeded; see Retry-After"),
+};
+
+function buildDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "ArbScanner API",
+      version: "1.0.0",
+      description:
+        "Cross-venue prediction market pairs from the latest scan, priced as a YES/NO hedge net of fees. Prices are in cents (0-100); money is in dollars.",
+    },
+    servers: [{ url: "/api/v1" }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      "/opportunities": {
+        get: {
+          operationId: "listOpportunities",
+          summary: "Matched pairs, filtered and sorted, one page at a time",
+          parameters: [
+            { name: "minSpread", in: "query", description: "Minimum spread %", schema: { type: "number", minimum: 0, default: DEFAULT_FILTERS.minSpread } },
+            { name: "showOnlyArbitrage", in: "query", description: "Only pairs with a net-positive hedge", schema: { type: "boolean", default: DEFAULT_FILTERS.showOnlyArbitrage } },
+            { name: "hideResolutionRisk", in: "query", description: "Drop pairs that could settle differently", schema: { type: "boolean", default: DEFAULT_FILTERS.hideResolutionRisk } },
+            { name: "category", in: "query", schema: { type: "string", enum: ["all", ...CATEGORY_PROFILES.map((p) => p.id)], default: DEFAULT_FILTERS.category } },
+            { name: "searchQuery", in: "query", description: "Event name contains (case-insensitive)", schema: { type: "string" } },
+            { name: "sort", in: "query", schema: { type: "string", enum: SORT_FIELDS, default: DEFAULT_SORT.field } },
+            { name: "direction", in: "query", schema: { type: "string", enum: ["asc", "desc"], default: DEFAULT_SORT.direction } },
+            { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+            { name: "cursor", in: "query", description: "nextCursor from the previous page, with the same sort and direction", schema: { type: "string" } },
+          ],
+          responses: {
+            "200": {
+              description: "One page of pairs",
+              headers: rateLimitHeaders,
+              content: { "application/json": { schema: ref("OpportunitiesPage") } },
+            },
+            "400": errorResponse("Invalid query parameter"),
+            ...commonErrors,
+          },
+        },
+      },
+      "/pairs/{id}": {
+        get: {
+          operationId: "getPair",
+          summary: "One pair by id",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": {
+              description: "The pair",
+              headers: rateLimitHeaders,
+              content: { "application/json": { schema: ref("PairResponse") } },
+            },
+            "404": errorResponse("No matched pair with this id in the latest scan"),
+            ...commonErrors,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: componentSchemas(),
+    },
+  };
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+const output = JSON.stringify(buildDocument(), null, 2) + "\n";
+
+if (process.argv.includes("--check")) {
+  let current = "";
+  try {
+    current = readFileSync(OUTPUT_PATH, "utf8");
+  } catch {
+    // Missing counts as stale
+  }
+  if (current !== output) {
+    console.error(`${path.relative(process.cwd(), OUTPUT_PATH)} is out of date; run npm run openapi`);
+    process.exit(1);
+  }
+  console.log("OpenAPI document is up to date");
+} else {
+  writeFileSync(OUTPUT_PATH, output);
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_PATH)} (${Object.keys(schemas).length} schemas)`);
+}
@@ -0,0 +1,358 @@
+// ============================================
+// HEADLESS SCANNER (CLI)
+// ============================================
+//
+// Runs the same fetch → match → price pipeline as the dashboard and prints
+// the pairs as a table, JSON or CSV:
+//
+//   npm run scan -- --only-arb --sort netROI
+//   npm run scan -- --format csv --min-spread 3 > pairs.csv
+//   npm run scan -- --fixture predictit=fixtures/predictit/marketdata-all.json
+//   npm run scan -- --watch --interval 120 --threshold 2
+//
+// Exit codes let cron jobs and scripts react to a scan; see EXIT below.
+
+import { readFile } from "fs/promises";
+import { parseArgs } from "util";
+import { FilterConfig, MarketCategory, SortConfig, SortField, UnifiedMarket, Venue } from "@/types";
+import { CATEGORY_PROFILES } from "@/utils/categories";
+import { getDummyData } from "@/utils/demoData";
+import { toCsv } from "@/utils/export";
+import { fetchAllMarkets } from "@/utils/fetcher";
+import { formatEdge, formatPrice, formatSpreadPercent, formatUsd } from "@/utils/format";
+import { DEFAULT_FILTERS, DEFAULT_SORT, SORT_FIELDS, applyFilters, sortMarkets } from "@/utils/filters";
+import { normalizeAndMatch } from "@/utils/matcher";
+import { loadOverrides } from "@/utils/overrideStore";
+import { nativeSide } from "@/utils/polarity";
+import { getVenue } from "@/utils/venues";
+import { VENUE_LABELS, VENUE_ORDER } from "@/utils/venues/labels";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const EXIT = {
+  OK: 0, // Scan ran; nothing at or above --threshold
+  ERROR: 1, // Scan failed, or a fixture couldn't be read
+  USAGE: 2, // Bad flags
+  ARBS: 3, // A listed pair has a net-positive hedge at or above --threshold
+  DEMO: 4, // The live crawl failed and fell back to demo data
+};
+
+const FORMATS = ["table", "json", "csv"] as const;
+type Format = (typeof FORMATS)[number];
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+const USAGE = `Usage: npm run scan -- [options]
+
+Filters (as in the dashboard)
+  --min-spread <pct>     Only pairs with at least this spread %
+  --only-arb             Only pairs with a net-positive hedge
+  --hide-risky           Drop pairs whose settlement terms could differ
+  --category <id>        ${CATEGORY_PROFILES.map((p) => p.id).join(", ")}
+  --search <text>        Event name contains text
+
+Output
+  --sort <field>         ${SORT_FIELDS.join(", ")} (default ${DEFAULT_SORT.field})
+  --asc                  Sort ascending (default descending)
+  --limit <n>            Print at most n pairs
+  --format <format>      ${FORMATS.join(", ")} (default table)
+
+Input
+  --fixture <venue=path> Recorded API JSON for a venue instead of crawling
+                         (repeatable; venues without one are skipped)
+  --demo                 Use the built-in demo data
+  --max-pages <n>        Pages crawled per venue
+
+Scheduling
+  --watch                Rescan until interrupted
+  --interval <seconds>   Time between watch scans (default ${DEFAULT_INTERVAL_SECONDS})
+  --threshold <roi>      Exit ${EXIT.ARBS} when a listed pair nets at least this ROI %
+
+Exit codes: ${EXIT.OK} ok, ${EXIT.ERROR} error, ${EXIT.USAGE} usage, ${EXIT.ARBS} arbs at or above --threshold,
+${EXIT.DEMO} live crawl fell back to demo data`;
+
+// ============================================
+// OPTIONS
+// ============================================
+
+interface CliOptions {
+  filters: FilterConfig;
+  sort: SortConfig;
+  limit: number | null;
+  format: Format;
+  fixtures: { venue: Venue; path: string }[];
+  demo: boolean;
+  maxPages: number | undefined;
+  watch: boolean;
+  intervalSeconds: number;
+  threshold: number | null;
+}
+
+function nonNegative(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`--${flag} needs a number ≥ 0`);
+  return n;
+}
+
+function parseOptions(argv: string[]): CliOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      "min-spread": { type: "string" },
+      "only-arb": { type: "boolean" },
+      "hide-risky": { type: "boolean" },
+      category: { type: "string" },
+      search: { type: "string" },
+      sort: { type: "string" },
+      asc: { type: "boolean" },
+      limit: { type: "string" },
+      format: { type: "string" },
+      fixture: { type: "string", multiple: true },
+      demo: { type: "boolean" },
+      "max-pages": { type: "string" },
+      watch: { type: "boolean" },
+      interval: { type: "string" },
+      threshold: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) return null;
+
+  const category = values.category ?? "all";
+  if (category !== "all" && !CATEGORY_PROFILES.some((p) => p.id === category)) {
+    throw new Error(`Unknown category: ${category}`);
+  }
+  const sortField = values.sort ?? DEFAULT_SORT.field;
+  if (!SORT_FIELDS.includes(sortField as SortField)) {
+    throw new Error(`Unknown sort field: ${sortField}`);
+  }
+  const format = values.format ?? "table";
+  if (!FORMATS.includes(format as Format)) {
+    throw new Error(`--format must be one of ${FORMATS.join(", ")}`);
+  }
+
+  const fixtures = (values.fixture ?? []).map((spec) => {
+    const [venue, path] = spec.split(/=(.*)/);
+    if (!path || !VENUE_ORDER.includes(venue as Venue)) {
+      throw new Error(`--fixture takes <venue>=<path> with venue one of ${VENUE_ORDER.join(", ")}`);
+    }
+    return { venue: venue as Venue, path };
+  });
+  if (fixtures.length > 0 && values.demo) throw new Error("Use --fixture or --demo, not both");
+
+  const limit = nonNegative("limit", values.limit);
+  const interval = nonNegative("interval", values.interval);
+  if (interval === 0) throw new Error("--interval must be above 0");
+  const threshold = values.threshold === undefined ? undefined : Number(values.threshold);
+  if (threshold !== undefined && !Number.isFinite(threshold)) {
+    throw new Error("--threshold needs a number");
+  }
+
+  return {
+    filters: {
+      ...DEFAULT_FILTERS,
+      minSpread: nonNegative("min-spread", values["min-spread"]) ?? DEFAULT_FILTERS.minSpread,
+      showOnlyArbitrage: values["only-arb"] ?? false,
+      hideResolutionRisk: values["hide-risky"] ?? false,
+      category: category as MarketCategory | "all",
+      searchQuery: values.search ?? "",
+    },
+    sort: { field: sortField as SortField, direction: values.asc ? "asc" : "desc" },
+    limit: limit === undefined ? null : Math.floor(limit),
+    format: format as Format,
+    fixtures,
+    demo: values.demo ?? false,
+    maxPages: nonNegative("max-pages", values["max-pages"]),
+    watch: values.watch ?? false,
+    intervalSeconds: interval ?? DEFAULT_INTERVAL_SECONDS,
+    threshold: threshold ?? null,
+  };
+}
+
+// ============================================
+// SCANNING
+// ============================================
+
+interface ScanResult {
+  markets: UnifiedMarket[];
+  usedDummy: boolean;
+  error: string | null;
+  scannedAt: string;
+}
+
+// Recorded API responses go through the venue's own parser, so a fixture is
+// whatever the venue's endpoint returned. Order books aren't fetched.
+async function scanFixtures(options: CliOptions): Promise<UnifiedMarket[]> {
+  const normalized = await Promise.all(
+    options.fixtures.map(async ({ venue, path }) => {
+      const adapter = getVenue(venue);
+      const data = JSON.parse(await readFile(path, "utf8"));
+      return adapter.normalize(adapter.parseEvents(data));
+    })
+  );
+  return normalizeAndMatch(normalized.flat(), await loadOverrides());
+}
+
+async function scan(options: CliOptions): Promise<ScanResult> {
+  const scannedAt = new Date().toISOString();
+
+  if (options.demo) {
+    return { markets: getDummyData(), usedDummy: true, error: null, scannedAt };
+  }
+  if (options.fixtures.length > 0) {
+    return { markets: await scanFixtures(options), usedDummy: false, error: null, scannedAt };
+  }
+
+  const isTty = process.stderr.isTTY;
+  const result = await fetchAllMarkets({
+    overrides: await loadOverrides(),
+    maxPages: options.maxPages,
+    onProgress: (progress) => {
+      if (!isTty) return;
+      const crawled = progress.reduce((sum, p) => sum + p.markets, 0);
+      process.stderr.write(`\rCrawled ${crawled.toLocaleString()} markets...`);
+    },
+  });
+  if (isTty) process.stderr.write("\r\x1b[K");
+  return { markets: result.markets, usedDummy: result.usedDummy, error: result.error, scannedAt };
+}
+
+// ============================================
+// OUTPUT
+// ============================================
+
+function describeHedge(market: UnifiedMarket): string {
+  if (!market.hedge) return "—";
+  return [market.hedge.yesLeg, market.hedge.noLeg]
+    .map((leg) => {
+      const side = nativeSide(leg, market.quotes[leg.venue]?.polarity).toUpperCase();
+      return `${side} ${VENUE_LABELS[leg.venue]} ${formatPrice(leg.price)}`;
+    })
+    .join(" + ");
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+function renderTable(markets: UnifiedMarket[], result: ScanResult): string {
+  const venues = VENUE_ORDER.filter((v) => markets.some((m) => m.quotes[v]));
+  const header = ["Event", ...venues.map((v) => VENUE_LABELS[v]), "Spread", "Edge", "Net", "ROI", "Hedge", "Match"];
+  const rows = markets.map((m) => [
+    truncate(m.eventName, 50),
+    ...venues.map((v) => formatPrice(m.quotes[v]?.price ?? null)),
+    formatSpreadPercent(m.spreadPercent),
+    m.hedge ? formatEdge(m.hedge.edge) : "—",
+    formatUsd(m.netProfit),
+    m.netROI === null ? "—" : `${m.netROI.toFixed(1)}%`,
+    describeHedge(m),
+    m.matchConfidence,
+  ]);
+
+  // Numbers right-aligned, text left
+  const numeric = header.map((_, i) => i > 0 && i <= venues.length + 4);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (cells: string[]) =>
+    cells.map((c, i) => (numeric[i] ? c.padStart(widths[i]) : c.padEnd(widths[i]))).join("  ").trimEnd();
+
+  const color = process.stdout.isTTY && !process.env.NO_COLOR;
+  const arbs = markets.filter((m) => m.hasArbitrage).length;
+  const source = result.usedDummy ? "demo data" : "live data";
+
+  return [
+    line(header),
+    line(widths.map((w) => "-".repeat(w))),
+    ...rows.map((r, i) => (color && markets[i].hasArbitrage ? `\x1b[32m${line(r)}\x1b[0m` : line(r))),
+    "",
+    `${markets.length} pairs, ${arbs} with a net-positive hedge · ${source} · ${new Date(result.scannedAt).toLocaleString()}`,
+  ].join("\n");
+}
+
+// Same columns and metadata as the dashboard's CSV export
+function renderCsv(markets: UnifiedMarket[], result: ScanResult, options: CliOptions): string {
+  const venues = VENUE_ORDER.filter((v) => markets.some((m) => m.quotes[v]));
+  return toCsv(markets, {
+    exportedAt: new Date().toISOString(),
+    scannedAt: result.scannedAt,
+    source: result.usedDummy ? "Demo data" : venues.map((v) => VENUE_LABELS[v]).join(", "),
+    usedDummy: result.usedDummy,
+    rows: markets.length,
+    selection: false,
+    filters: options.filters,
+    sort: options.sort,
+  }).trimEnd();
+}
+
+function render(markets: UnifiedMarket[], result: ScanResult, options: CliOptions): string {
+  switch (options.format) {
+    case "json": {
+      const body = { scannedAt: result.scannedAt, usedDummy: result.usedDummy, error: result.error, markets };
+      // One line per scan when watching, so the output stays line-delimited
+      return options.watch ? JSON.stringify(body) : JSON.stringify(body, null, 2);
+    }
+    case "csv":
+      return renderCsv(markets, result, options);
+    default:
+      return renderTable(markets, result);
+  }
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+function exitCode(markets: UnifiedMarket[], result: ScanResult, options: CliOptions): number {
+  // Demo prices would only set off false alarms
+  if (result.usedDummy && !options.demo) return EXIT.DEMO;
+  if (options.threshold === null) return EXIT.OK;
+  const threshold = options.threshold;
+  return markets.some((m) => m.hasArbitrage && (m.netROI ?? -Infinity) >= threshold) ? EXIT.ARBS : EXIT.OK;
+}
+
+async function runOnce(options: CliOptions): Promise<number> {
+  const result = await scan(options);
+  if (result.error) console.error(result.error);
+
+  const listed = sortMarkets(applyFilters(result.markets, options.filters), options.sort);
+  const markets = options.limit === null ? listed : listed.slice(0, options.limit);
+  console.log(render(markets, result, options));
+  return exitCode(listed, result, options);
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    return EXIT.USAGE;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return EXIT.OK;
+  }
+
+  if (!options.watch) return runOnce(options);
+
+  // Runs until interrupted; a failed scan is reported and the next one tried
+  for (;;) {
+    if (options.format === "table" && process.stdout.isTTY) process.stdout.write("\x1b[2J\x1b[H");
+    try {
+      await runOnce(options);
+    } catch (error) {
+      console.error("Scan failed:", error instanceof Error ? error.message : error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, options!.intervalSeconds * 1000));
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(EXIT.ERROR);
+  });
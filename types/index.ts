@@ -20,6 +20,14 @@ export interface PolymarketMarket {
   closed: boolean;
   volume: string;
   liquidity: string;
+  clobTokenIds?: string; // JSON string like '["<yes token>", "<no token>"]'
+  bestBid?: number; // Best YES bid as a decimal (0-1)
+  bestAsk?: number; // Best YES ask as a decimal (0-1)
+  lastTradePrice?: number;
+  endDate?: string;
+  description?: string; // Resolution rules
+  resolutionSource?: string;
+  umaResolutionStatus?: string; // "resolved" once the oracle has settled it
 }
 
 export interface PolymarketEvent {
@@ -32,6 +40,8 @@ export interface PolymarketEvent {
   markets: PolymarketMarket[];
   tags?: string[];
   category?: string;
+  resolutionSource?: string;
+  negRisk?: boolean; // Markets are mutually exclusive outcomes of one event
 }
 
 // Kalshi API Types (Trade API v2)
@@ -48,7 +58,13 @@ export interface KalshiMarket {
   last_price: number;
   volume: number;
   open_interest: number;
-  result?: string;
+  result?: string; // "yes" / "no" once settled
+  settlement_value?: number; // Cents one YES contract paid
+  yes_sub_title?: string; // Outcome name in multi-market events
+  close_time?: string; // Trading stops; the outcome is expected by then
+  expiration_time?: string; // Latest possible settlement
+  rules_primary?: string;
+  rules_secondary?: string;
 }
 
 export interface KalshiEvent {
@@ -58,6 +74,7 @@ export interface KalshiEvent {
   sub_title?: string;
   markets: KalshiMarket[];
   status: string;
+  mutually_exclusive?: boolean;
 }
 
 export interface KalshiEventsResponse {
@@ -70,43 +87,701 @@ export interface PolymarketEventsResponse {
   data?: PolymarketEvent[];
 }
 
-// Unified Market Interface for Arbitrage Detection
+// PredictIt API Types (marketdata/all). Prices are decimals (0-1), null when
+// there is no offer.
+export interface PredictItContract {
+  id: number;
+  name: string;
+  shortName: string;
+  status: string; // "Open" | "Closed"
+  dateEnd: string; // ISO date or "N/A"
+  lastTradePrice: number | null;
+  bestBuyYesCost: number | null; // YES ask
+  bestBuyNoCost: number | null; // NO ask
+  bestSellYesCost: number | null; // YES bid
+  bestSellNoCost: number | null; // NO bid
+  lastClosePrice: number | null;
+  displayOrder: number;
+}
+
+export interface PredictItMarket {
+  id: number;
+  name: string;
+  shortName: string;
+  url: string;
+  contracts: PredictItContract[];
+  timeStamp: string;
+  status: string;
+}
+
+export interface PredictItResponse {
+  markets: PredictItMarket[];
+}
+
+// Kalshi orderbook endpoint: resting bids only, as [price in cents, quantity]
+export interface KalshiOrderbookResponse {
+  orderbook: {
+    yes: [number, number][] | null;
+    no: [number, number][] | null;
+  };
+}
+
+// Polymarket CLOB book for one outcome token, prices as decimal strings
+export interface PolymarketBookResponse {
+  asset_id: string;
+  bids: { price: string; size: string }[];
+  asks: { price: string; size: string }[];
+}
+
+// Polymarket CLOB market channel. "book" is a full snapshot of one token;
+// "price_change" carries new sizes at changed levels (BUY = bid, SELL = ask).
+// Older deployments sent one token's changes under `changes`.
+export interface PolymarketStreamMessage {
+  event_type: "book" | "price_change" | "last_trade_price" | "tick_size_change";
+  asset_id?: string;
+  bids?: { price: string; size: string }[];
+  asks?: { price: string; size: string }[];
+  price_changes?: { asset_id: string; price: string; size: string; side: "BUY" | "SELL" }[];
+  changes?: { price: string; size: string; side: "BUY" | "SELL" }[];
+}
+
+// Kalshi WebSocket envelope. Snapshots and deltas share a per-subscription
+// sequence number; a skipped number means a delta was lost.
+export interface KalshiStreamMessage {
+  type: "orderbook_snapshot" | "orderbook_delta" | "ticker" | "subscribed" | "error";
+  sid?: number;
+  seq?: number;
+  msg?: {
+    market_ticker: string;
+    yes?: [number, number][]; // Snapshot bids, [price in cents, quantity]
+    no?: [number, number][];
+    price?: number; // Delta level
+    delta?: number;
+    side?: "yes" | "no";
+    volume?: number; // Ticker
+  };
+}
+
+// ============================================
+// CATEGORIES
+// ============================================
+
+export type MarketCategory = "politics" | "economics" | "crypto" | "weather" | "sports";
+
+// What the scanner crawls for one kind of market, and how it scores matches
+export interface CategoryProfile {
+  id: MarketCategory;
+  label: string;
+  keywords: string[]; // Any of these in an event's text pulls it in
+  venueCategories: string[]; // Venue-native category names (substring match)
+  tags: string[]; // Polymarket event tags
+  keyTerms: string[]; // Shared terms that boost a pair's match score
+}
+
+// ============================================
+// ORDER BOOKS & DEPTH
+// ============================================
+
+export interface OrderBookLevel {
+  price: number; // Cents
+  size: number; // Contracts
+}
+
+// Both sides of a binary market, asks sorted cheapest first
+export interface OrderBook {
+  venue: Venue;
+  marketId: string;
+  yesAsks: OrderBookLevel[];
+  noAsks: OrderBookLevel[];
+}
+
+// One listing's full book for the detail panel, in the venue's own frame
+export interface ListingBook {
+  venue: Venue;
+  marketId: string;
+  book: OrderBook | null; // null when the venue has no book id or the fetch failed
+  live: boolean; // From the WebSocket copy rather than a REST fetch
+  error: string | null;
+}
+
+export interface MarketBooks {
+  id: string; // UnifiedMarket id
+  books: ListingBook[];
+  fetchedAt: string;
+}
+
+export interface DepthPoint {
+  size: number; // Contracts per leg
+  fillCost: number; // Volume-weighted cost of a YES+NO pair, cents
+  yesPrice: number; // The YES leg's share of fillCost; the NO leg's is the rest
+  netProfit: number; // Dollars
+}
+
+// Result of walking both legs' books against each other
+export interface DepthAnalysis {
+  maxSize: number; // Largest size that is still profitable net of fees
+  fillCost: number; // VWAP pair cost at maxSize
+  maxProfit: number; // Best net profit over all sizes, dollars
+  bestSize: number; // Size that achieves maxProfit
+  curve: DepthPoint[];
+}
+
+// Executable top-of-book quote for one venue, in cents (0-100).
+// null means the side has no resting liquidity.
+export interface MarketQuote {
+  yesBid: number | null;
+  yesAsk: number | null;
+  noBid: number | null;
+  noAsk: number | null;
+}
+
+export type Venue = "polymarket" | "kalshi" | "predictit";
+
+export interface HedgeLeg {
+  venue: Venue;
+  side: "yes" | "no";
+  price: number; // Ask in cents
+}
+
+// Cross-venue hedge: buy YES on one venue and NO on the other.
+// Exactly one leg pays out, so the pair is worth `payout` at settlement.
+export interface Hedge {
+  yesLeg: HedgeLeg;
+  noLeg: HedgeLeg;
+  totalCost: number; // Cents per contract pair
+  payout: number; // Guaranteed payout in cents
+  edge: number; // payout - totalCost
+  edgePercent: number; // Edge as a percentage of totalCost
+}
+
+// Per-venue fee schedule. Prices are in cents, money amounts in dollars.
+export interface FeeSchedule {
+  venue: Venue;
+  tradingFee: (price: number, contracts: number) => number; // Charged when a leg fills
+  settlementFee: (profit: number) => number; // Charged on winnings at settlement
+  withdrawalFee: (amount: number) => number; // Moving proceeds off the venue
+  gasPerTrade: number; // On-chain cost per order
+}
+
+export interface VenueFees {
+  venue: Venue;
+  trading: number;
+  gas: number;
+  settlement: number;
+  withdrawal: number;
+  total: number;
+}
+
+// Profit of a hedge for a given size, net of every venue's costs
+export interface HedgeProfit {
+  contracts: number;
+  capital: number; // Leg costs plus up-front fees
+  grossProfit: number;
+  netProfit: number;
+  netROI: number; // Percentage of capital
+  fees: VenueFees[];
+}
+
+// How a listing's question relates to the cluster's lead listing. "Will
+// Trump lose?" is the inverse of "Will Trump win?": its YES is the lead's NO.
+export type Polarity = "same" | "inverted";
+
+// How a venue says a market will settle. Any field may be unknown.
+export interface ResolutionTerms {
+  endDate: string | null; // ISO timestamp the outcome is expected by
+  source: string | null; // Named resolution source, if the venue gives one
+  rules: string | null; // Full rules text
+}
+
+// One venue's listing inside a unified market. Prices are in the lead
+// listing's frame; inverted listings have their sides swapped.
+export interface VenueQuote {
+  venue: Venue;
+  marketId: string; // Venue-native id (Polymarket market id, Kalshi ticker)
+  eventName: string;
+  price: number; // Reference YES price in cents (0-100)
+  quote: MarketQuote;
+  bookId: string | null; // Id for the venue's order book endpoint
+  url: string;
+  volume: number;
+  openInterest: number | null; // Contracts outstanding, where the venue reports it
+  polarity: Polarity;
+  resolution: ResolutionTerms;
+  updatedAt: string | null; // Last live book change; null = as of the scan
+}
+
+// A numeric line in a title, e.g. "above 3.5%" → { 3.5, "%", "above" }
+export interface Threshold {
+  value: number;
+  unit: "%" | "$" | "bps" | "";
+  direction: "above" | "below" | null;
+}
+
+// Structured facts pulled from a market title for matching
+export interface MarketEntities {
+  people: string[]; // Canonical surnames
+  parties: string[];
+  states: string[]; // Two-letter postal codes
+  offices: string[];
+  years: number[];
+  months: number[]; // 1-12
+  thresholds: Threshold[];
+}
+
+// Entity fields two titles both mention, split by whether they share a value
+export interface EntityComparison {
+  agreements: string[];
+  contradictions: string[];
+}
+
+// "verified" clusters were confirmed or linked by hand
+export type MatchConfidence = "verified" | "high" | "medium" | "low";
+
+// Next-best listing for a cluster: what the matcher would have picked instead
+export interface MatchCandidate {
+  venue: Venue;
+  marketId: string;
+  eventName: string;
+  score: number;
+}
+
+// How calculateMatchScore scored two listings of a cluster
+export interface MatchBreakdown {
+  venues: [Venue, Venue];
+  sharedKeywords: string[];
+  unionSize: number; // Distinct keywords across both titles
+  jaccard: number; // sharedKeywords / unionSize
+  keyTerms: string[]; // Category key terms both titles use
+  keyTermBoost: number;
+  entityAgreements: string[]; // Entity fields both titles give the same value
+  entityContradictions: string[]; // Any of these forces the score to 0
+  entityBoost: number;
+  score: number; // Capped at 1
+}
+
+export type ResolutionRisk = "low" | "medium" | "high" | "unknown";
+
+// Settlement differences between two listings of one cluster
+export interface ResolutionDiff {
+  venues: [Venue, Venue];
+  dateDeltaDays: number | null; // null when either date is unknown
+  sources: [string[], string[]]; // Resolution sources named by each side
+  onlyInA: string[]; // Rule sentences with no counterpart on the other side
+  onlyInB: string[];
+  ruleSimilarity: number | null; // Word overlap of the rules texts (0-1)
+  risk: ResolutionRisk;
+  reasons: string[]; // Human-readable differences driving the rating
+}
+
+export interface ResolutionAnalysis {
+  risk: ResolutionRisk; // Worst pair in the cluster
+  pairs: ResolutionDiff[];
+}
+
+// Where to buy each side of the best hedge
+export interface ArbitrageDirection {
+  buyYes: Venue;
+  buyNo: Venue;
+}
+
+// Unified Market Interface for Arbitrage Detection: a cluster of equivalent
+// markets, at most one per venue
 export interface UnifiedMarket {
   id: string;
   eventName: string;
+  category: MarketCategory; // The lead listing's
   normalizedName: string; // For matching
-  polyPrice: number | null; // In cents (0-100)
-  kalshiPrice: number | null; // In cents (0-100)
-  spread: number; // Absolute difference
+  quotes: Partial<Record<Venue, VenueQuote>>;
+  spread: number; // Widest gap between venue reference prices
   spreadPercent: number; // Percentage
-  urlPoly: string | null;
-  urlKalshi: string | null;
-  polyVolume: string | null;
-  kalshiVolume: number | null;
-  matchConfidence: "high" | "medium" | "low";
+  hedge: Hedge | null; // Best YES/NO venue pair in the cluster, net of fees
+  grossProfit: number | null; // Dollars at the reference trade size
+  netProfit: number | null;
+  netROI: number | null; // Percentage
+  fees: VenueFees[];
+  endDate: string | null; // When the hedge's capital frees up: the later leg's resolution date
+  daysToResolution: number | null; // From the scan; 0 once the end date has passed
+  annualizedROI: number | null; // Percentage, netROI over the days to resolution
+  lockupCost: number | null; // Dollars the reference-size capital forgoes at the hurdle rate
+  depth: DepthAnalysis | null; // Filled in from full order books when there is an edge
+  matchScore: number; // Weakest pairwise score in the cluster
+  matchBreakdown: MatchBreakdown[]; // Every pair of listings, scored
+  matchConfidence: MatchConfidence;
+  runnerUp: MatchCandidate | null; // Best listing that could replace a member
+  scoreMargin: number | null; // matchScore - runnerUp.score; small = ambiguous
+  resolution: ResolutionAnalysis;
   hasArbitrage: boolean;
-  arbitrageDirection: "buy_poly" | "buy_kalshi" | null;
+  arbitrageDirection: ArbitrageDirection | null;
 }
 
-// Normalized market data before matching
-export interface NormalizedPolyMarket {
-  id: string;
-  eventName: string;
+// Normalized market data before matching, same shape for every venue
+export interface NormalizedMarket extends Omit<VenueQuote, "polarity" | "updatedAt"> {
   normalizedName: string;
-  price: number; // In cents
-  url: string;
-  volume: string;
   keywords: string[];
+  entities: MarketEntities;
+  category: MarketCategory;
+  eventId: string; // Venue-native id of the parent event
+  eventTitle: string;
+  outcomeLabel: string; // e.g. "Donald Trump" within "Who will win?"
+  exclusive: boolean; // Parent event's markets are mutually exclusive outcomes
 }
 
-export interface NormalizedKalshiMarket {
-  ticker: string;
+// ============================================
+// MATCH OVERRIDES
+// ============================================
+
+// A venue listing, as `${venue}:${marketId}`
+export type ListingKey = `${Venue}:${string}`;
+
+// confirm: keep a heuristic cluster as-is. link: pair listings the heuristic
+// missed. reject: never put these listings in the same cluster.
+export type OverrideAction = "confirm" | "link" | "reject";
+
+export interface MatchOverride {
+  id: string;
+  action: OverrideAction;
+  listings: ListingKey[];
+  createdAt: string; // ISO timestamp
+}
+
+// ============================================
+// DUTCH BOOKS
+// ============================================
+
+// All outcomes of one mutually exclusive event on one venue
+export interface OutcomeSet {
+  venue: Venue;
+  eventId: string;
+  title: string;
+  outcomes: NormalizedMarket[];
+}
+
+export interface DutchBookLeg {
+  outcome: string;
+  venue: Venue;
+  marketId: string;
+  side: "yes" | "no";
+  price: number; // Ask in cents
+  url: string;
+}
+
+// Buy one side of every outcome, each leg from whichever venue is cheapest.
+// A YES basket pays 100¢ if one outcome wins, which is only certain when the
+// event lists a catch-all outcome; a NO basket pays (n − 1) × 100¢.
+export interface DutchBook {
+  id: string;
+  title: string;
+  category: MarketCategory;
+  side: "yes" | "no";
+  guaranteed: boolean; // False when no listed outcome may win
+  legs: DutchBookLeg[];
+  cost: number; // Cents per basket
+  payout: number; // Payout in cents, certain only when guaranteed
+  edge: number; // payout - cost
+  netProfit: number; // Dollars at the reference size, after fees
+  netROI: number; // Percentage
+  venues: Venue[];
+}
+
+// ============================================
+// HISTORY
+// ============================================
+
+// One matched pair as it stood in one scan
+export interface HistoryRecord {
+  id: string; // UnifiedMarket.id, stable while the match holds
   eventName: string;
-  normalizedName: string;
-  price: number; // In cents
+  category: MarketCategory;
+  prices: Partial<Record<Venue, number>>; // Reference prices in the lead's frame
+  spreadPercent: number;
+  netProfit: number | null;
+  hasArbitrage: boolean;
+  // For backtesting; missing from lines recorded before it existed
+  quotes?: Partial<Record<Venue, MarketQuote>>; // Executable quotes in the lead's frame
+  matchConfidence?: MatchConfidence;
+  resolutionRisk?: ResolutionRisk;
+  endDate?: string | null; // Earliest expected settlement in the pair
+  maxSize?: number | null; // Largest profitable size from the books, when measured
+}
+
+// One line of the history file
+export interface ScanRecord {
+  scannedAt: string; // ISO timestamp
+  markets: HistoryRecord[];
+}
+
+export interface HistoryPoint {
+  scannedAt: string;
+  prices: Partial<Record<Venue, number>>;
+  spreadPercent: number;
+  hasArbitrage: boolean;
+}
+
+export interface PairHistory {
+  id: string;
+  eventName: string;
+  category: MarketCategory;
+  points: HistoryPoint[];
+}
+
+// A run of consecutive scans in which a pair showed a net-positive hedge
+export interface ArbEpisode {
+  id: string;
+  eventName: string;
+  category: MarketCategory;
+  start: string;
+  end: string; // Last scan that still showed it
+  minutes: number;
+  open: boolean; // Still live in the latest scan
+}
+
+export interface PairSummary {
+  id: string;
+  eventName: string;
+  category: MarketCategory;
+  scans: number;
+  latestSpreadPercent: number;
+  maxSpreadPercent: number;
+}
+
+export interface CategorySpread {
+  id: string;
+  eventName: string;
+  spreadPercent: number;
+  scannedAt: string;
+}
+
+export interface HistorySummary {
+  scans: number;
+  from: string | null;
+  to: string | null;
+  arbsPerDay: { day: string; count: number }[]; // Episodes by UTC start day
+  medianArbMinutes: number | null;
+  widestSpreads: Partial<Record<MarketCategory, CategorySpread[]>>;
+  pairs: PairSummary[]; // Widest spread first
+}
+
+// ============================================
+// BACKTESTING
+// ============================================
+
+// How a backtested position is closed
+export type BacktestExit =
+  | { type: "resolution" } // Hold both legs to settlement
+  | { type: "convergence"; capture: number }; // Sell at the bids once that realizes this share (0-1) of the hold-to-settlement P&L
+
+// Entry rules and sizing. A pair is entered when every rule passes.
+export interface BacktestStrategy {
+  name: string;
+  minSpreadPercent: number;
+  minNetROI: number; // Percentage, after fees and slippage
+  minConfidence: MatchConfidence;
+  minSize: number; // Profitable contracts the books must have shown; 0 = ignore depth
+  skipResolutionRisk: boolean; // Pass on pairs whose settlement terms are rated high risk
+  categories: MarketCategory[]; // Empty = all
+  contracts: number; // Per leg, capped at the books' profitable size
+  exit: BacktestExit;
+}
+
+// Market assumptions shared by every strategy in a run
+export interface BacktestAssumptions {
+  feeMultiplier: number; // 1 = the venues' schedules, 0 = no fees
+  latencySeconds: number; // Orders fill at the first scan at least this long after the signal
+  slippageCents: number; // Added to each ask paid, taken off each bid sold
+  impactCentsPer1k: number; // Extra slippage per 1,000 contracts
+}
+
+export interface BacktestTrade {
+  marketId: string;
+  eventName: string;
+  category: MarketCategory;
+  signalAt: string;
+  enteredAt: string;
+  exitedAt: string | null; // null while still open at the end of the history
+  exitReason: "resolution" | "convergence" | "open";
+  yesLeg: HedgeLeg; // Fill prices, slippage included
+  noLeg: HedgeLeg;
+  contracts: number;
+  capital: number; // Dollars tied up: legs plus up-front fees
+  pnl: number; // Dollars; for open trades, what holding to settlement locks in
+}
+
+export interface EquityPoint {
+  at: string;
+  equity: number; // Realized P&L plus open positions marked at the bids
+  capital: number; // Dollars deployed
+}
+
+export interface BacktestResult {
+  strategy: BacktestStrategy;
+  signals: number; // Times the rules passed on a pair with no position
+  missed: number; // Signals whose pair or asks were gone by the fill
+  trades: BacktestTrade[];
+  realizedPnl: number;
+  unrealizedPnl: number; // Open trades held to settlement
+  totalPnl: number;
+  hitRate: number | null; // Share of trades with positive P&L
+  peakCapital: number;
+  averageCapital: number; // Mean capital deployed over the scans
+  returnOnPeakCapital: number | null; // Percentage
+  maxDrawdown: number; // Dollars, peak to trough of the equity curve
+  equity: EquityPoint[];
+}
+
+export interface BacktestReport {
+  from: string | null;
+  to: string | null;
+  scans: number; // Scans with quotes recorded; older lines can't be replayed
+  assumptions: BacktestAssumptions;
+  results: BacktestResult[];
+}
+
+// ============================================
+// ALERTS
+// ============================================
+
+// UnifiedMarket values a rule can test. "price" needs a venue; "volume" is
+// summed across venues; "maxProfit" comes from the depth analysis.
+export type AlertField =
+  | "spreadPercent"
+  | "edge"
+  | "netProfit"
+  | "netROI"
+  | "maxProfit"
+  | "volume"
+  | "matchScore"
+  | "matchConfidence"
+  | "price";
+
+export type AlertOperator = ">=" | "<=" | "=";
+
+export interface AlertCondition {
+  field: AlertField;
+  operator: AlertOperator;
+  value: number | MatchConfidence; // Confidences compare by rank
+  venue?: Venue; // Required for "price"
+}
+
+export type AlertChannel = "webhook" | "email" | "browser";
+
+// Fires for a market when every condition holds, once per crossing: the
+// rule has to stop matching that market before it can fire for it again,
+// and never sooner than the cooldown.
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: AlertCondition[];
+  marketId: string | null; // Limit to one pair
+  category: MarketCategory | null;
+  channels: AlertChannel[];
+  cooldownMinutes: number;
+  webhookUrl: string | null; // Falls back to ALERT_WEBHOOK_URL
+  emailTo: string | null; // Falls back to ALERT_EMAIL_TO
+  createdAt: string;
+}
+
+export interface AlertDelivery {
+  channel: AlertChannel;
+  ok: boolean;
+  error?: string;
+}
+
+// One firing of a rule for one market
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  marketId: string;
+  eventName: string;
+  message: string;
+  url: string | null; // Lead venue's market page
+  channels: AlertChannel[];
+  deliveries: AlertDelivery[];
+  firedAt: string;
+}
+
+// ============================================
+// LIVE STREAMING
+// ============================================
+
+// One change to a venue book, decoded from a WebSocket message. Books are
+// held as bids on each side in the venue's own frame: a YES ask at p is a
+// NO bid at 100 - p.
+export type BookMessage =
+  | { type: "snapshot"; bookId: string; yesBids: OrderBookLevel[]; noBids: OrderBookLevel[] }
+  | { type: "level"; bookId: string; side: "yes" | "no"; price: number; size: number } // New size
+  | { type: "delta"; bookId: string; side: "yes" | "no"; price: number; delta: number } // Size change
+  | { type: "volume"; bookId: string; volume: number }
+  | { type: "gap" }; // Missed messages; the books must be rebuilt
+
+// A venue's WebSocket feed
+export interface VenueStream {
+  defaultUrl: string;
+  urlEnv: string; // Env var that overrides the URL, e.g. to point at a mock server
+  headers?: () => Record<string, string>; // Signed per connection
+  credentialed?: () => boolean; // False when the real feed needs keys that aren't set
+  subscribe: (bookIds: string[]) => unknown[]; // Messages sent once connected
+  parse: (message: unknown) => BookMessage[];
+  keepAlive?: { message: string; intervalMs: number };
+}
+
+export interface StreamStatus {
+  venue: Venue;
   url: string;
-  volume: number;
-  keywords: string[];
+  connected: boolean;
+  books: number; // Subscribed books
+  lastMessageAt: string | null;
+  reconnects: number;
+}
+
+// ============================================
+// VENUE ADAPTERS
+// ============================================
+
+// Everything the scanner needs to know about one venue. Register new venues
+// in utils/venues/index.ts; no other layer needs to change.
+export interface VenueAdapter<TEvent = unknown, TMarket = unknown> {
+  id: Venue;
+  name: string;
+  fetchEvents: (options?: CrawlOptions) => Promise<TEvent[]>;
+  parseEvents: (data: unknown) => TEvent[]; // Raw API JSON → events, for fixtures
+  normalize: (events: TEvent[]) => NormalizedMarket[];
+  quote: (market: TMarket) => MarketQuote;
+  url: (event: TEvent, market: TMarket) => string;
+  fetchOrderBook: (bookId: string) => Promise<OrderBook>;
+  stream?: VenueStream; // Live book updates, where the venue has a feed
+  fetchSettlement?: (marketId: string) => Promise<number | null>; // YES payout in cents once resolved, else null
+  fees: FeeSchedule;
+  positionLimit?: number; // Max dollars one account may hold in a single contract
+}
+
+// Paginated venue crawls
+export interface CrawlProgress {
+  venue: Venue;
+  pages: number;
+  events: number;
+  markets: number;
+  estimatedTotal: number | null; // Markets expected once the crawl finishes
+  done: boolean;
+}
+
+export interface CrawlOptions {
+  maxPages?: number; // Hard cap on pages fetched per venue
+  pageSize?: number;
+  concurrency?: number; // Pages fetched in parallel where the API allows it
+  onProgress?: (progress: CrawlProgress) => void;
+}
+
+// Result of one fetch → normalize → match run, as served by /api/markets
+export interface MarketsSnapshot {
+  markets: UnifiedMarket[];
+  dutchBooks: DutchBook[];
+  usedDummy: boolean;
+  error: string | null;
+  generatedAt: string; // ISO timestamp
+  crawl: CrawlProgress[];
+  hurdleRate: number; // Annual %, the rate lockup costs are charged at
 }
 
 // API Fetch Status
@@ -121,7 +796,20 @@ export interface ApiState<T> {
 
 // Table sorting
 export type SortDirection = "asc" | "desc";
-export type SortField = "eventName" | "polyPrice" | "kalshiPrice" | "spread" | "spreadPercent";
+export type VenuePriceField = `price:${Venue}`;
+export type SortField =
+  | "eventName"
+  | VenuePriceField
+  | "spread"
+  | "spreadPercent"
+  | "edge"
+  | "netProfit"
+  | "netROI"
+  | "maxSize"
+  | "maxProfit"
+  | "daysToResolution"
+  | "annualizedROI"
+  | "lockupCost";
 
 export interface SortConfig {
   field: SortField;
@@ -132,5 +820,151 @@ export interface SortConfig {
 export interface FilterConfig {
   minSpread: number;
   showOnlyArbitrage: boolean;
+  hideResolutionRisk: boolean; // Drop pairs that could settle differently
+  category: MarketCategory | "all";
   searchQuery: string;
 }
+
+// ============================================
+// EXPORT
+// ============================================
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+// Describes an exported table view
+export interface ExportMetadata {
+  exportedAt: string; // ISO timestamp
+  scannedAt: string | null; // When the exported data was fetched
+  source: string; // Venues the data came from, or "Demo data"
+  usedDummy: boolean;
+  rows: number;
+  selection: boolean; // Only rows picked in the table, not the whole view
+  filters: FilterConfig;
+  sort: SortConfig;
+}
+
+// ============================================
+// PUBLIC API (v1)
+// ============================================
+
+// GET /api/v1/opportunities
+export interface OpportunitiesPage {
+  data: UnifiedMarket[];
+  nextCursor: string | null; // Pass as ?cursor= for the next page; null on the last
+  total: number; // Pairs matching the filters, across all pages
+  generatedAt: string; // ISO timestamp of the scan the data came from
+  usedDummy: boolean;
+}
+
+// GET /api/v1/pairs/:id
+export interface PairResponse {
+  data: UnifiedMarket;
+  generatedAt: string;
+  usedDummy: boolean;
+}
+
+export interface ApiError {
+  error: string;
+}
+
+// ============================================
+// POSITIONS
+// ============================================
+
+// One filled order. Side and prices are in the venue's own frame, as the
+// order was placed, not the cluster's.
+export interface PositionLeg {
+  venue: Venue;
+  marketId: string; // Venue-native id, for marks and settlement lookups
+  side: "yes" | "no";
+  quantity: number; // Contracts
+  fillPrice: number; // Cents per contract
+  fees: number; // Dollars paid on the fill
+  mark: number | null; // Latest bid for the held side in cents; null = no bid
+  markedAt: string | null; // ISO timestamp of the scan that set `mark`
+  settlement: number | null; // What one YES contract paid in cents (100, 0, or a split); null = unresolved
+  settledAt: string | null;
+}
+
+// An executed pair, usually one YES and one NO leg on different venues
+export interface Position {
+  id: string;
+  marketId: string; // UnifiedMarket id it was opened from
+  eventName: string;
+  legs: PositionLeg[];
+  notes: string;
+  openedAt: string; // ISO timestamp
+}
+
+// partial: at least one leg has settled and at least one hasn't
+export type PositionStatus = "open" | "partial" | "settled";
+
+// Position P&L in dollars. Settled legs are realized at their payout net of
+// settlement fees; open legs are marked to the bid.
+export interface PositionValuation {
+  position: Position;
+  status: PositionStatus;
+  cost: number; // Fills plus fees
+  realizedPnl: number;
+  unrealizedPnl: number | null; // null when an open leg has no bid to mark to
+  locked: Partial<Record<Venue, number>>; // Cost of the open legs, per venue
+}
+
+export interface PortfolioSummary {
+  positions: PositionValuation[]; // Newest first
+  realizedPnl: number;
+  unrealizedPnl: number; // Over positions whose open legs all have a mark
+  unmarkedLegs: number; // Open legs with no bid; their positions are left out of unrealizedPnl
+  locked: Partial<Record<Venue, number>>;
+  partial: number; // Positions with one side resolved and the other not
+  manualSettlement: Venue[]; // Venues with no settlement lookup; their legs are settled by hand
+}
+
+// ============================================
+// CAPITAL ALLOCATION
+// ============================================
+
+// profit: most dollars from the balances. annualized: most return per day
+// the capital is locked, so quick resolutions win over bigger, slower edges.
+export type AllocationObjective = "profit" | "annualized";
+
+export interface AllocationConstraints {
+  balances: Partial<Record<Venue, number>>; // Dollars free to trade on each venue
+  maxContractsPerMarket: number | null; // Per pair, on top of book depth and venue caps
+  marketLimits: Record<string, number>; // Contract caps for single pairs, by UnifiedMarket id
+  minNetROI: number; // Percentage, on the allocated size
+  hideResolutionRisk: boolean; // Skip pairs rated high risk
+  objective: AllocationObjective;
+}
+
+// One order: the venue-native side, so it can be placed as written
+export interface AllocationLeg {
+  venue: Venue;
+  marketId: string;
+  side: "yes" | "no";
+  contracts: number;
+  price: number; // Volume-weighted ask, cents
+  capital: number; // Dollars taken from this venue's balance, fees included
+}
+
+export interface AllocationTrade {
+  marketId: string; // UnifiedMarket id
+  eventName: string;
+  contracts: number; // Per leg
+  legs: AllocationLeg[];
+  capital: number;
+  expectedProfit: number; // Net of every fee, held to settlement
+  netROI: number; // Percentage
+  endDate: string | null; // Later of the two legs' resolution dates
+  daysToResolution: number | null;
+  annualizedROI: number | null; // Percentage
+  depthKnown: boolean; // false: sized from top of book without a depth walk
+}
+
+export interface AllocationResult {
+  trades: AllocationTrade[]; // Best first
+  capital: number;
+  expectedProfit: number;
+  venues: { venue: Venue; available: number; used: number }[];
+  considered: number; // Pairs that passed the filters
+}
@@ -0,0 +1,188 @@
+// ============================================
+// ALERT DELIVERY (WEBHOOK & SMTP)
+// ============================================
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import nodemailer, { Transporter } from "nodemailer";
+import { AlertDelivery, AlertEvent, AlertRule } from "@/types";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Discord rejects longer message content
+const MAX_WEBHOOK_TEXT = 2000;
+
+// Rule webhooks may point at a LAN host only when this is set
+const ALLOW_PRIVATE_WEBHOOKS = process.env.ALERT_WEBHOOK_ALLOW_PRIVATE === "true";
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and
+// reserved ranges - nothing a rule's webhook has any business reaching
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // :: and ::1
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+// BlockList also matches IPv4-mapped IPv6 (::ffff:7f00:1) against the IPv4 ranges
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_RANGES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+// ============================================
+// WEBHOOK
+// ============================================
+
+// Why a rule's webhook URL can't be used, or null if it can: it must be
+// http(s) and every address its host resolves to must be public. Checked when
+// a rule is saved and again before each POST, since DNS can change in between.
+export async function webhookUrlError(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "webhookUrl is not a valid URL";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return "webhookUrl must be an http(s) URL";
+  }
+  if (ALLOW_PRIVATE_WEBHOOKS) return null;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    return `webhookUrl host ${host} does not resolve`;
+  }
+  if (addresses.some(isPrivateAddress)) {
+    return `webhookUrl host ${host} is a private or loopback address`;
+  }
+  return null;
+}
+
+// One generic JSON body: Slack reads `text`, Discord reads `content`, and
+// anything else can use the full `alert`
+async function sendWebhook(url: string, event: AlertEvent): Promise<void> {
+  const text = (event.url ? `${event.message}\n${event.url}` : event.message).slice(
+    0,
+    MAX_WEBHOOK_TEXT
+  );
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text, content: text, alert: event }),
+      signal: controller.signal,
+      // A redirect could point anywhere, including past the address check
+      redirect: "error",
+    });
+    if (!response.ok) throw new Error(`Webhook responded ${response.status}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ============================================
+// EMAIL
+// ============================================
+
+let transporter: Transporter | null = null;
+
+// Built on first use from SMTP_* so a server without mail config still runs
+function getTransporter(): Transporter {
+  if (!process.env.SMTP_HOST) throw new Error("SMTP_HOST not set");
+  transporter ??= nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587", 10),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+  return transporter;
+}
+
+async function sendEmail(to: string, event: AlertEvent): Promise<void> {
+  await getTransporter().sendMail({
+    from: process.env.ALERT_EMAIL_FROM || process.env.SMTP_USER,
+    to,
+    subject: `[ArbScanner] ${event.ruleName}: ${event.eventName}`,
+    text: event.url ? `${event.message}\n\n${event.url}` : event.message,
+  });
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+// Push an alert to every server-side channel of its rule. Browser
+// notifications are pulled by open tabs, so they need no delivery here.
+export async function deliverAlert(rule: AlertRule, event: AlertEvent): Promise<AlertDelivery[]> {
+  const attempt = async (
+    channel: AlertDelivery["channel"],
+    send: () => Promise<void>
+  ): Promise<AlertDelivery> => {
+    try {
+      await send();
+      return { channel, ok: true };
+    } catch (error) {
+      return { channel, ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  const deliveries: Promise<AlertDelivery>[] = [];
+
+  if (rule.channels.includes("webhook")) {
+    deliveries.push(
+      attempt("webhook", async () => {
+        // ALERT_WEBHOOK_URL is set by whoever runs the server, so only a
+        // rule's own URL is checked
+        if (rule.webhookUrl) {
+          const error = await webhookUrlError(rule.webhookUrl);
+          if (error) throw new Error(error);
+        }
+        const url = rule.webhookUrl || process.env.ALERT_WEBHOOK_URL;
+        if (!url) throw new Error("No webhook URL configured");
+        return sendWebhook(url, event);
+      })
+    );
+  }
+
+  if (rule.channels.includes("email")) {
+    deliveries.push(
+      attempt("email", () => {
+        const to = rule.emailTo || process.env.ALERT_EMAIL_TO;
+        if (!to) throw new Error("No email recipient configured");
+        return sendEmail(to, event);
+      })
+    );
+  }
+
+  return Promise.all(deliveries);
+}
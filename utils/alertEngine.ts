@@ -0,0 +1,122 @@
+// ============================================
+// ALERT ENGINE (RUNS ON EVERY SCAN)
+// ============================================
+
+import { randomUUID } from "crypto";
+import { AlertEvent, AlertRule, UnifiedMarket, VenueQuote } from "@/types";
+import { deliverAlert } from "@/utils/alertDelivery";
+import { describeAlert, ruleMatches } from "@/utils/alerts";
+import { appendAlertEvents, loadAlertEvents, loadRules } from "@/utils/alertStore";
+
+// ============================================
+// STATE
+// ============================================
+
+const MS_PER_MINUTE = 60_000;
+
+interface EngineState {
+  active: Set<string>; // rule|market pairs that fired and still match
+  lastFired: Map<string, number>; // rule|market → epoch ms
+  seeded: boolean; // lastFired loaded from history after a restart
+}
+
+// Kept on globalThis so dev-mode module reloads don't re-fire everything
+const globalForAlerts = globalThis as unknown as { alertEngine?: EngineState };
+const state: EngineState = (globalForAlerts.alertEngine ??= {
+  active: new Set(),
+  lastFired: new Map(),
+  seeded: false,
+});
+
+function stateKey(ruleId: string, marketId: string): string {
+  return `${ruleId}|${marketId}`;
+}
+
+// Cooldowns survive restarts; crossings don't, so a rule that is still
+// matching fires again once its cooldown has passed
+async function seedFromHistory(rules: AlertRule[]): Promise<void> {
+  if (state.seeded) return;
+  const longest = Math.max(0, ...rules.map((r) => r.cooldownMinutes));
+  const since = new Date(Date.now() - longest * MS_PER_MINUTE);
+
+  for (const event of await loadAlertEvents({ since })) {
+    const key = stateKey(event.ruleId, event.marketId);
+    state.lastFired.set(key, Math.max(state.lastFired.get(key) ?? 0, Date.parse(event.firedAt)));
+  }
+  state.seeded = true;
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+// A rule fires for a market when it starts matching (a crossing) and the
+// cooldown has passed. A crossing inside the cooldown is held, not dropped:
+// it fires once the cooldown ends if the market still matches.
+function dueAlerts(
+  markets: UnifiedMarket[],
+  rules: AlertRule[],
+  now: number
+): { rule: AlertRule; market: UnifiedMarket }[] {
+  const due: { rule: AlertRule; market: UnifiedMarket }[] = [];
+  const active = new Set<string>();
+
+  for (const rule of rules) {
+    for (const market of markets) {
+      if (!ruleMatches(rule, market)) continue;
+
+      const key = stateKey(rule.id, market.id);
+      if (state.active.has(key)) {
+        active.add(key);
+        continue;
+      }
+
+      const last = state.lastFired.get(key) ?? 0;
+      if (now - last < rule.cooldownMinutes * MS_PER_MINUTE) continue;
+
+      due.push({ rule, market });
+      active.add(key);
+      state.lastFired.set(key, now);
+    }
+  }
+
+  // Pairs that stopped matching, or left the scan, can cross again
+  state.active = active;
+  return due;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+// Evaluate every enabled rule against a scan, deliver what fires and record
+// it in the alert history
+export async function processAlerts(markets: UnifiedMarket[]): Promise<AlertEvent[]> {
+  const rules = (await loadRules()).filter((r) => r.enabled);
+  if (rules.length === 0) return [];
+  await seedFromHistory(rules);
+
+  const firedAt = new Date();
+  const events = await Promise.all(
+    dueAlerts(markets, rules, firedAt.getTime()).map(async ({ rule, market }) => {
+      const lead = Object.values(market.quotes)[0] as VenueQuote | undefined;
+      const event: AlertEvent = {
+        id: randomUUID(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        marketId: market.id,
+        eventName: market.eventName,
+        message: describeAlert(rule, market),
+        url: lead?.url ?? null,
+        channels: rule.channels,
+        deliveries: [],
+        firedAt: firedAt.toISOString(),
+      };
+      event.deliveries = await deliverAlert(rule, event);
+      return event;
+    })
+  );
+
+  await appendAlertEvents(events);
+  return events;
+}
@@ -0,0 +1,128 @@
+// ============================================
+// ALERT RULES & HISTORY STORE (SERVER-SIDE FILES)
+// ============================================
+
+import { randomUUID } from "crypto";
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import { createInterface } from "readline";
+import { AlertEvent, AlertRule } from "@/types";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const RULES_PATH =
+  process.env.ALERT_RULES_PATH || path.join(process.cwd(), "data", "alert-rules.json");
+const EVENTS_PATH =
+  process.env.ALERT_EVENTS_PATH || path.join(process.cwd(), "data", "alert-events.jsonl");
+
+export type AlertRuleInput = Omit<AlertRule, "id" | "createdAt">;
+
+// ============================================
+// RULES
+// ============================================
+
+export async function loadRules(): Promise<AlertRule[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(RULES_PATH, "utf8"));
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+// Write to a temp file and rename, so a crash never leaves half a file
+async function saveRules(rules: AlertRule[]): Promise<void> {
+  await fs.mkdir(path.dirname(RULES_PATH), { recursive: true });
+  const tmp = `${RULES_PATH}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(rules, null, 2) + "\n");
+  await fs.rename(tmp, RULES_PATH);
+}
+
+// Read-modify-write cycles run one at a time
+let rulesQueue: Promise<unknown> = Promise.resolve();
+
+function update<T>(fn: (rules: AlertRule[]) => { next: AlertRule[]; result: T }): Promise<T> {
+  const run = rulesQueue.then(async () => {
+    const { next, result } = fn(await loadRules());
+    await saveRules(next);
+    return result;
+  });
+  rulesQueue = run.catch(() => undefined);
+  return run;
+}
+
+export function addRule(input: AlertRuleInput): Promise<AlertRule> {
+  const rule: AlertRule = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+  return update((rules) => ({ next: [...rules, rule], result: rule }));
+}
+
+// null when no rule has this id
+export function updateRule(
+  id: string,
+  patch: Partial<AlertRuleInput>
+): Promise<AlertRule | null> {
+  return update((rules) => {
+    const existing = rules.find((r) => r.id === id);
+    if (!existing) return { next: rules, result: null };
+    const updated = { ...existing, ...patch };
+    return { next: rules.map((r) => (r.id === id ? updated : r)), result: updated };
+  });
+}
+
+export function removeRule(id: string): Promise<boolean> {
+  return update((rules) => {
+    const next = rules.filter((r) => r.id !== id);
+    return { next, result: next.length < rules.length };
+  });
+}
+
+// ============================================
+// HISTORY
+// ============================================
+
+let eventsQueue: Promise<unknown> = Promise.resolve();
+
+export function appendAlertEvents(events: AlertEvent[]): Promise<void> {
+  if (events.length === 0) return Promise.resolve();
+
+  const run = eventsQueue.then(async () => {
+    await fs.mkdir(path.dirname(EVENTS_PATH), { recursive: true });
+    await fs.appendFile(EVENTS_PATH, events.map((e) => JSON.stringify(e) + "\n").join(""));
+  });
+  eventsQueue = run.catch(() => undefined);
+  return run;
+}
+
+// Newest first
+export async function loadAlertEvents(
+  options: { since?: Date; limit?: number } = {}
+): Promise<AlertEvent[]> {
+  try {
+    await fs.access(EVENTS_PATH);
+  } catch {
+    return [];
+  }
+
+  const events: AlertEvent[] = [];
+  const lines = createInterface({
+    input: createReadStream(EVENTS_PATH, "utf8"),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      const event: AlertEvent = JSON.parse(line);
+      if (options.since && Date.parse(event.firedAt) <= options.since.getTime()) continue;
+      events.push(event);
+    } catch {
+      // Partial line
+    }
+  }
+
+  events.reverse();
+  return options.limit ? events.slice(0, options.limit) : events;
+}
@@ -0,0 +1,263 @@
+// ============================================
+// ALERT RULE EVALUATION
+// ============================================
+
+import {
+  AlertChannel,
+  AlertCondition,
+  AlertField,
+  AlertOperator,
+  AlertRule,
+  MatchConfidence,
+  UnifiedMarket,
+  VenueQuote,
+} from "@/types";
+import { CATEGORY_PROFILES } from "@/utils/categories";
+import { VENUE_LABELS, VENUE_ORDER } from "@/utils/venues/labels";
+
+// ============================================
+// FIELDS
+// ============================================
+
+export const ALERT_FIELD_LABELS: Record<AlertField, string> = {
+  spreadPercent: "Spread %",
+  edge: "Hedge edge (¢)",
+  netProfit: "Net profit ($)",
+  netROI: "Net ROI %",
+  maxProfit: "Max $ profit (depth)",
+  volume: "Volume ($)",
+  matchScore: "Match score (0-1)",
+  matchConfidence: "Match confidence",
+  price: "Venue price (¢)",
+};
+
+export const CONFIDENCE_RANK: MatchConfidence[] = ["low", "medium", "high", "verified"];
+
+function totalVolume(market: UnifiedMarket): number {
+  return (Object.values(market.quotes) as VenueQuote[]).reduce((sum, q) => sum + q.volume, 0);
+}
+
+// The market's value for a condition, null when it has none (no hedge, no
+// listing on the venue, ...)
+export function fieldValue(
+  market: UnifiedMarket,
+  condition: AlertCondition
+): number | MatchConfidence | null {
+  switch (condition.field) {
+    case "spreadPercent":
+      return market.spreadPercent;
+    case "edge":
+      return market.hedge?.edge ?? null;
+    case "netProfit":
+      return market.netProfit;
+    case "netROI":
+      return market.netROI;
+    case "maxProfit":
+      return market.depth?.maxProfit ?? null;
+    case "volume":
+      return totalVolume(market);
+    case "matchScore":
+      return market.matchScore;
+    case "matchConfidence":
+      return market.matchConfidence;
+    case "price":
+      return condition.venue ? market.quotes[condition.venue]?.price ?? null : null;
+  }
+}
+
+function asNumber(value: number | MatchConfidence): number {
+  return typeof value === "number" ? value : CONFIDENCE_RANK.indexOf(value);
+}
+
+export function conditionHolds(market: UnifiedMarket, condition: AlertCondition): boolean {
+  const actual = fieldValue(market, condition);
+  if (actual === null) return false;
+
+  const a = asNumber(actual);
+  const b = asNumber(condition.value);
+  switch (condition.operator) {
+    case ">=":
+      return a >= b;
+    case "<=":
+      return a <= b;
+    case "=":
+      return a === b;
+  }
+}
+
+export function ruleMatches(rule: AlertRule, market: UnifiedMarket): boolean {
+  if (rule.marketId && rule.marketId !== market.id) return false;
+  if (rule.category && rule.category !== market.category) return false;
+  return rule.conditions.length > 0 && rule.conditions.every((c) => conditionHolds(market, c));
+}
+
+// ============================================
+// MESSAGES
+// ============================================
+
+function formatValue(field: AlertField, value: number | MatchConfidence): string {
+  if (typeof value === "string") return value;
+  switch (field) {
+    case "spreadPercent":
+    case "netROI":
+      return `${value.toFixed(1)}%`;
+    case "netProfit":
+    case "maxProfit":
+    case "volume":
+      return `$${value.toFixed(2)}`;
+    case "edge":
+    case "price":
+      return `${value}¢`;
+    case "matchScore":
+      return value.toFixed(2);
+    default:
+      return String(value);
+  }
+}
+
+function conditionLabel(condition: AlertCondition): string {
+  return condition.field === "price" && condition.venue
+    ? `${VENUE_LABELS[condition.venue]} price`
+    : ALERT_FIELD_LABELS[condition.field];
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  return `${conditionLabel(condition)} ${condition.operator} ${formatValue(condition.field, condition.value)}`;
+}
+
+// "Wide spreads: Trump wins Georgia — Spread % 12.4% (>= 10.0%)"
+export function describeAlert(rule: AlertRule, market: UnifiedMarket): string {
+  const values = rule.conditions.map((c) => {
+    const actual = fieldValue(market, c);
+    const shown = actual === null ? "—" : formatValue(c.field, actual);
+    return `${conditionLabel(c)} ${shown} (${c.operator} ${formatValue(c.field, c.value)})`;
+  });
+  return `${rule.name}: ${market.eventName} — ${values.join(", ")}`;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+export const ALERT_OPERATORS: AlertOperator[] = [">=", "<=", "="];
+export const ALERT_CHANNELS: AlertChannel[] = ["webhook", "email", "browser"];
+export const DEFAULT_COOLDOWN_MINUTES = 60;
+
+export type AlertRulePatch = Partial<Omit<AlertRule, "id" | "createdAt">>;
+
+function parseCondition(value: unknown): AlertCondition | string {
+  const c = value as Partial<AlertCondition> | null;
+  if (!c || !c.field || !(c.field in ALERT_FIELD_LABELS)) return "Unknown condition field";
+  if (!c.operator || !ALERT_OPERATORS.includes(c.operator)) {
+    return `operator must be one of ${ALERT_OPERATORS.join(", ")}`;
+  }
+
+  if (c.field === "matchConfidence") {
+    if (!CONFIDENCE_RANK.includes(c.value as MatchConfidence)) {
+      return `Confidence must be one of ${CONFIDENCE_RANK.join(", ")}`;
+    }
+  } else if (typeof c.value !== "number" || !Number.isFinite(c.value)) {
+    return `${ALERT_FIELD_LABELS[c.field]} needs a numeric value`;
+  }
+
+  if (c.field === "price" && !VENUE_ORDER.some((v) => v === c.venue)) {
+    return "Price conditions need a venue";
+  }
+
+  return {
+    field: c.field,
+    operator: c.operator,
+    value: c.value as AlertCondition["value"],
+    ...(c.field === "price" ? { venue: c.venue } : {}),
+  };
+}
+
+// Checks the fields present in a request body. With `complete`, name and
+// conditions are required and missing options get defaults.
+export function parseRuleInput(
+  body: unknown,
+  complete: boolean
+): { rule: AlertRulePatch } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const rule: AlertRulePatch = {};
+
+  if ("name" in b || complete) {
+    if (typeof b.name !== "string" || !b.name.trim()) return { error: "name is required" };
+    rule.name = b.name.trim().slice(0, 100);
+  }
+
+  if ("conditions" in b || complete) {
+    if (!Array.isArray(b.conditions) || b.conditions.length === 0) {
+      return { error: "At least one condition is required" };
+    }
+    const conditions: AlertCondition[] = [];
+    for (const raw of b.conditions) {
+      const parsed = parseCondition(raw);
+      if (typeof parsed === "string") return { error: parsed };
+      conditions.push(parsed);
+    }
+    rule.conditions = conditions;
+  }
+
+  if ("enabled" in b) {
+    if (typeof b.enabled !== "boolean") return { error: "enabled must be a boolean" };
+    rule.enabled = b.enabled;
+  } else if (complete) {
+    rule.enabled = true;
+  }
+
+  if ("marketId" in b) {
+    if (b.marketId !== null && typeof b.marketId !== "string") {
+      return { error: "marketId must be a string or null" };
+    }
+    rule.marketId = (b.marketId as string | null) || null;
+  } else if (complete) {
+    rule.marketId = null;
+  }
+
+  if ("category" in b) {
+    if (b.category !== null && !CATEGORY_PROFILES.some((p) => p.id === b.category)) {
+      return { error: "Unknown category" };
+    }
+    rule.category = b.category as AlertRule["category"];
+  } else if (complete) {
+    rule.category = null;
+  }
+
+  if ("channels" in b || complete) {
+    const channels = Array.isArray(b.channels) ? b.channels : [];
+    if (channels.length === 0 || !channels.every((c) => ALERT_CHANNELS.includes(c))) {
+      return { error: `channels must be some of ${ALERT_CHANNELS.join(", ")}` };
+    }
+    rule.channels = Array.from(new Set(channels as AlertChannel[]));
+  }
+
+  if ("cooldownMinutes" in b) {
+    if (typeof b.cooldownMinutes !== "number" || !(b.cooldownMinutes >= 0)) {
+      return { error: "cooldownMinutes must be a number ≥ 0" };
+    }
+    rule.cooldownMinutes = b.cooldownMinutes;
+  } else if (complete) {
+    rule.cooldownMinutes = DEFAULT_COOLDOWN_MINUTES;
+  }
+
+  if ("webhookUrl" in b) {
+    if (b.webhookUrl && (typeof b.webhookUrl !== "string" || !/^https?:\/\//.test(b.webhookUrl))) {
+      return { error: "webhookUrl must be an http(s) URL" };
+    }
+    rule.webhookUrl = (b.webhookUrl as string) || null;
+  } else if (complete) {
+    rule.webhookUrl = null;
+  }
+
+  if ("emailTo" in b) {
+    if (b.emailTo && (typeof b.emailTo !== "string" || !b.emailTo.includes("@"))) {
+      return { error: "emailTo must be an email address" };
+    }
+    rule.emailTo = (b.emailTo as string) || null;
+  } else if (complete) {
+    rule.emailTo = null;
+  }
+
+  return { rule };
+}
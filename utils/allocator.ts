@@ -0,0 +1,397 @@
+// ============================================
+// BANKROLL ALLOCATION ACROSS OPPORTUNITIES
+// ============================================
+
+import {
+  AllocationConstraints,
+  AllocationLeg,
+  AllocationObjective,
+  AllocationResult,
+  AllocationTrade,
+  Hedge,
+  HedgeProfit,
+  UnifiedMarket,
+  Venue,
+} from "@/types";
+import { MIN_HOLD_DAYS, annualizeROI, calculateHedgeProfit, daysUntil } from "@/utils/fees";
+import { REFERENCE_TRADE_SIZE } from "@/utils/format";
+import { nativeSide } from "@/utils/polarity";
+import { VENUE_LABELS, VENUE_ORDER } from "@/utils/venues/labels";
+import { VENUE_POSITION_LIMITS } from "@/utils/venues/schedules";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const DEFAULT_CONSTRAINTS: AllocationConstraints = {
+  balances: { polymarket: 1000, kalshi: 1000, predictit: 850 },
+  maxContractsPerMarket: null,
+  marketLimits: {},
+  minNetROI: 0,
+  hideResolutionRisk: true,
+  objective: "profit",
+};
+
+// Pairs with no resolution date are assumed to lock capital this long
+const UNKNOWN_HOLD_DAYS = 365;
+// Safety net; each round grows one pair to a new size, so this is never hit
+const MAX_ROUNDS = 10_000;
+
+// ============================================
+// OPPORTUNITIES
+// ============================================
+
+// A pair's cost as a function of size. With a depth walk the legs' total cost
+// is piecewise linear between curve points; without one it is flat at the
+// top of book, up to the reference size.
+interface Opportunity {
+  market: UnifiedMarket;
+  hedge: Hedge;
+  points: { size: number; yesTotal: number; pairTotal: number }[]; // Cents, cumulative
+  maxContracts: number;
+  breakpoints: number[]; // Sizes where the marginal price changes
+  days: number | null;
+  endDate: string | null;
+  depthKnown: boolean;
+}
+
+interface Evaluation {
+  profit: HedgeProfit;
+  byVenue: Partial<Record<Venue, number>>; // Capital per venue, dollars
+}
+
+// Contracts a venue's dollar cap allows at a price
+function venueCap(venue: Venue, price: number): number {
+  const limit = VENUE_POSITION_LIMITS[venue];
+  return limit === undefined || price <= 0 ? Infinity : Math.floor(limit / (price / 100));
+}
+
+function toOpportunity(
+  market: UnifiedMarket,
+  constraints: AllocationConstraints,
+  now: number
+): Opportunity | null {
+  const hedge = market.hedge;
+  if (!hedge || hedge.edge <= 0 || !market.hasArbitrage) return null;
+  if (constraints.hideResolutionRisk && market.resolution.risk === "high") return null;
+
+  const curve = market.depth?.curve ?? [];
+  const depthKnown = curve.length > 0;
+  const points = depthKnown
+    ? curve.map((p) => ({ size: p.size, yesTotal: p.yesPrice * p.size, pairTotal: p.fillCost * p.size }))
+    : [
+        {
+          size: REFERENCE_TRADE_SIZE,
+          yesTotal: hedge.yesLeg.price * REFERENCE_TRADE_SIZE,
+          pairTotal: hedge.totalCost * REFERENCE_TRADE_SIZE,
+        },
+      ];
+
+  // Depth walks already stop at each venue's cap; top-of-book sizing doesn't
+  const caps = [
+    points[points.length - 1].size,
+    constraints.maxContractsPerMarket ?? Infinity,
+    constraints.marketLimits[market.id] ?? Infinity,
+  ];
+  if (!depthKnown) {
+    caps.push(venueCap(hedge.yesLeg.venue, hedge.yesLeg.price), venueCap(hedge.noLeg.venue, hedge.noLeg.price));
+  }
+  const maxContracts = Math.floor(Math.min(...caps));
+  if (maxContracts < 1) return null;
+
+  const endDate = market.endDate;
+  const days = daysUntil(endDate, now);
+
+  return {
+    market,
+    hedge,
+    points,
+    maxContracts,
+    breakpoints: points.map((p) => Math.floor(p.size)).filter((s) => s >= 1 && s < maxContracts),
+    days,
+    endDate,
+    depthKnown,
+  };
+}
+
+// Cumulative leg costs at any size, interpolated inside a curve segment
+function totalsAt(opp: Opportunity, size: number): { yesTotal: number; pairTotal: number } {
+  let prev = { size: 0, yesTotal: 0, pairTotal: 0 };
+  for (const point of opp.points) {
+    if (size <= point.size) {
+      const t = (size - prev.size) / (point.size - prev.size);
+      return {
+        yesTotal: prev.yesTotal + (point.yesTotal - prev.yesTotal) * t,
+        pairTotal: prev.pairTotal + (point.pairTotal - prev.pairTotal) * t,
+      };
+    }
+    prev = point;
+  }
+  // Sizes are capped at the last point; past it, assume its average price
+  const last = opp.points[opp.points.length - 1];
+  return {
+    yesTotal: (last.yesTotal / last.size) * size,
+    pairTotal: (last.pairTotal / last.size) * size,
+  };
+}
+
+function evaluate(opp: Opportunity, size: number): Evaluation {
+  const { yesTotal, pairTotal } = totalsAt(opp, size);
+  const yesPrice = yesTotal / size;
+  const noPrice = (pairTotal - yesTotal) / size;
+  const totalCost = yesPrice + noPrice;
+  const hedge: Hedge = {
+    ...opp.hedge,
+    yesLeg: { ...opp.hedge.yesLeg, price: yesPrice },
+    noLeg: { ...opp.hedge.noLeg, price: noPrice },
+    totalCost,
+    edge: opp.hedge.payout - totalCost,
+  };
+  const profit = calculateHedgeProfit(hedge, size);
+
+  // Each venue pays for its own leg and the fees charged when it fills
+  const byVenue: Partial<Record<Venue, number>> = {};
+  for (const leg of [hedge.yesLeg, hedge.noLeg]) {
+    const fees = profit.fees.find((f) => f.venue === leg.venue);
+    byVenue[leg.venue] = (size * leg.price) / 100 + (fees ? fees.trading + fees.gas : 0);
+  }
+  return { profit, byVenue };
+}
+
+const NO_TRADE: Evaluation = {
+  profit: { contracts: 0, capital: 0, grossProfit: 0, netProfit: 0, netROI: 0, fees: [] },
+  byVenue: {},
+};
+
+// ============================================
+// GREEDY ALLOCATION
+// ============================================
+
+// Value of one more dollar in this pair: marginal profit per marginal dollar,
+// per year locked for the annualized objective
+function rate(opp: Opportunity, from: Evaluation, to: Evaluation, objective: AllocationObjective): number {
+  const gain = to.profit.netProfit - from.profit.netProfit;
+  const capital = to.profit.capital - from.profit.capital;
+  if (gain <= 0 || capital <= 0) return -Infinity;
+  if (objective === "profit") return gain / capital;
+  const years = Math.max(opp.days ?? UNKNOWN_HOLD_DAYS, MIN_HOLD_DAYS) / 365;
+  return gain / capital / years;
+}
+
+function fits(current: Evaluation, next: Evaluation, remaining: Partial<Record<Venue, number>>): boolean {
+  return (Object.keys(next.byVenue) as Venue[]).every(
+    (venue) => (next.byVenue[venue] ?? 0) - (current.byVenue[venue] ?? 0) <= (remaining[venue] ?? 0) + 1e-9
+  );
+}
+
+// Largest size the remaining balances can pay for, by bisection: capital
+// only grows with size
+function largestAffordable(
+  opp: Opportunity,
+  size: number,
+  current: Evaluation,
+  remaining: Partial<Record<Venue, number>>
+): number {
+  let lo = size;
+  let hi = opp.maxContracts;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (fits(current, evaluate(opp, mid), remaining)) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+// Best next size for a pair: every curve breakpoint it can afford, plus the
+// most it can afford. Looking past the next breakpoint lets fixed costs
+// (gas, withdrawal fees) be spread over a size worth paying them for.
+function bestStep(
+  opp: Opportunity,
+  size: number,
+  current: Evaluation,
+  remaining: Partial<Record<Venue, number>>,
+  constraints: AllocationConstraints
+): { size: number; evaluation: Evaluation; rate: number } | null {
+  const affordable = largestAffordable(opp, size, current, remaining);
+  if (affordable <= size) return null;
+
+  let best: { size: number; evaluation: Evaluation; rate: number } | null = null;
+  for (const target of [...opp.breakpoints.filter((s) => s > size && s < affordable), affordable]) {
+    const evaluation = evaluate(opp, target);
+    if (evaluation.profit.netProfit <= 0 || evaluation.profit.netROI < constraints.minNetROI) continue;
+    const r = rate(opp, current, evaluation, constraints.objective);
+    if (r > (best?.rate ?? 0)) best = { size: target, evaluation, rate: r };
+  }
+  return best;
+}
+
+function toTrade(opp: Opportunity, size: number, evaluation: Evaluation): AllocationTrade {
+  const { yesTotal, pairTotal } = totalsAt(opp, size);
+  const vwap = { yes: yesTotal / size, no: (pairTotal - yesTotal) / size };
+  const legs: AllocationLeg[] = [opp.hedge.yesLeg, opp.hedge.noLeg].map((leg) => {
+    const quote = opp.market.quotes[leg.venue]!;
+    return {
+      venue: leg.venue,
+      marketId: quote.marketId,
+      side: nativeSide(leg, quote.polarity),
+      contracts: size,
+      price: Math.round(vwap[leg.side] * 10) / 10,
+      capital: Math.round((evaluation.byVenue[leg.venue] ?? 0) * 100) / 100,
+    };
+  });
+  const { capital, netProfit, netROI } = evaluation.profit;
+  const days = opp.days;
+
+  return {
+    marketId: opp.market.id,
+    eventName: opp.market.eventName,
+    contracts: size,
+    legs,
+    capital: Math.round(capital * 100) / 100,
+    expectedProfit: Math.round(netProfit * 100) / 100,
+    netROI,
+    endDate: opp.endDate,
+    daysToResolution: days === null ? null : Math.round(days * 10) / 10,
+    annualizedROI: days === null ? null : annualizeROI(netROI, days),
+    depthKnown: opp.depthKnown,
+  };
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+// Greedy approximation of the allocation LP: repeatedly grow whichever pair
+// earns the most per extra dollar (or per dollar-year), subject to each
+// venue's balance, each pair's size caps and book depth, until no pair can
+// grow profitably. Both legs of a pair draw on different venues, so one
+// pair can exhaust a venue another pair needed; the greedy doesn't undo that.
+export function allocateCapital(
+  markets: UnifiedMarket[],
+  constraints: AllocationConstraints = DEFAULT_CONSTRAINTS,
+  now: number = Date.now()
+): AllocationResult {
+  const opportunities = markets
+    .map((m) => toOpportunity(m, constraints, now))
+    .filter((o): o is Opportunity => o !== null);
+
+  const remaining: Partial<Record<Venue, number>> = { ...constraints.balances };
+  const sizes = opportunities.map(() => 0);
+  const evaluations = opportunities.map(() => NO_TRADE);
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    let pick: { index: number; size: number; evaluation: Evaluation; rate: number } | null = null;
+    for (let index = 0; index < opportunities.length; index++) {
+      const step = bestStep(opportunities[index], sizes[index], evaluations[index], remaining, constraints);
+      if (step && step.rate > (pick?.rate ?? 0)) pick = { index, ...step };
+    }
+    if (!pick) break;
+
+    const { index, size, evaluation } = pick;
+    for (const venue of Object.keys(evaluation.byVenue) as Venue[]) {
+      const delta = (evaluation.byVenue[venue] ?? 0) - (evaluations[index].byVenue[venue] ?? 0);
+      remaining[venue] = (remaining[venue] ?? 0) - delta;
+    }
+    sizes[index] = size;
+    evaluations[index] = evaluation;
+  }
+
+  const trades = opportunities
+    .map((opp, i) => (sizes[i] > 0 ? toTrade(opp, sizes[i], evaluations[i]) : null))
+    .filter((t): t is AllocationTrade => t !== null)
+    .sort((a, b) =>
+      constraints.objective === "annualized"
+        ? (b.annualizedROI ?? -Infinity) - (a.annualizedROI ?? -Infinity)
+        : b.expectedProfit - a.expectedProfit
+    );
+
+  const used: Partial<Record<Venue, number>> = {};
+  for (const trade of trades) {
+    for (const leg of trade.legs) used[leg.venue] = (used[leg.venue] ?? 0) + leg.capital;
+  }
+
+  return {
+    trades,
+    capital: Math.round(trades.reduce((sum, t) => sum + t.capital, 0) * 100) / 100,
+    expectedProfit: Math.round(trades.reduce((sum, t) => sum + t.expectedProfit, 0) * 100) / 100,
+    venues: VENUE_ORDER.filter((v) => constraints.balances[v] !== undefined || used[v]).map((venue) => ({
+      venue,
+      available: constraints.balances[venue] ?? 0,
+      used: Math.round((used[venue] ?? 0) * 100) / 100,
+    })),
+    considered: opportunities.length,
+  };
+}
+
+// "Buy 250 YES on Kalshi @ 42¢ / 250 NO on Polymarket @ 55.2¢"
+export function describeTrade(trade: AllocationTrade): string {
+  return trade.legs
+    .map((leg) => `Buy ${leg.contracts.toLocaleString()} ${leg.side.toUpperCase()} on ${VENUE_LABELS[leg.venue]} @ ${leg.price}¢`)
+    .join(" / ");
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function nonNegative(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+// Constraints from a request body; omitted fields take the defaults
+export function parseAllocationInput(body: unknown): { constraints: AllocationConstraints } | { error: string } {
+  const input = (typeof body === "object" && body !== null ? body : {}) as Record<string, unknown>;
+  const constraints: AllocationConstraints = { ...DEFAULT_CONSTRAINTS };
+
+  if (input.balances !== undefined) {
+    if (typeof input.balances !== "object" || input.balances === null) return { error: "balances must be an object" };
+    const balances: Partial<Record<Venue, number>> = {};
+    for (const [venue, amount] of Object.entries(input.balances)) {
+      if (!VENUE_ORDER.includes(venue as Venue)) return { error: `Unknown venue in balances: ${venue}` };
+      const value = nonNegative(amount);
+      if (value === null) return { error: `balances.${venue} must be a number ≥ 0` };
+      balances[venue as Venue] = value;
+    }
+    constraints.balances = balances;
+  }
+
+  if (input.maxContractsPerMarket !== undefined && input.maxContractsPerMarket !== null) {
+    const value = nonNegative(input.maxContractsPerMarket);
+    if (value === null) return { error: "maxContractsPerMarket must be a number ≥ 0 or null" };
+    constraints.maxContractsPerMarket = value;
+  }
+
+  if (input.marketLimits !== undefined) {
+    if (typeof input.marketLimits !== "object" || input.marketLimits === null) {
+      return { error: "marketLimits must be an object of market id → contracts" };
+    }
+    const limits: Record<string, number> = {};
+    for (const [id, amount] of Object.entries(input.marketLimits)) {
+      const value = nonNegative(amount);
+      if (value === null) return { error: `marketLimits.${id} must be a number ≥ 0` };
+      limits[id] = value;
+    }
+    constraints.marketLimits = limits;
+  }
+
+  if (input.minNetROI !== undefined) {
+    if (typeof input.minNetROI !== "number" || !Number.isFinite(input.minNetROI)) {
+      return { error: "minNetROI must be a number" };
+    }
+    constraints.minNetROI = input.minNetROI;
+  }
+
+  if (input.hideResolutionRisk !== undefined) {
+    if (typeof input.hideResolutionRisk !== "boolean") return { error: "hideResolutionRisk must be a boolean" };
+    constraints.hideResolutionRisk = input.hideResolutionRisk;
+  }
+
+  if (input.objective !== undefined) {
+    if (input.objective !== "profit" && input.objective !== "annualized") {
+      return { error: "objective must be profit or annualized" };
+    }
+    constraints.objective = input.objective;
+  }
+
+  return { constraints };
+}
@@ -0,0 +1,178 @@
+// ============================================
+// SCAN HISTORY ANALYTICS
+// ============================================
+
+import {
+  ArbEpisode,
+  CategorySpread,
+  HistorySummary,
+  MarketCategory,
+  PairHistory,
+  PairSummary,
+  ScanRecord,
+} from "@/types";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// Widest pairs listed per category
+const WIDEST_PER_CATEGORY = 5;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function byTime(scans: ScanRecord[]): ScanRecord[] {
+  return [...scans].sort((a, b) => Date.parse(a.scannedAt) - Date.parse(b.scannedAt));
+}
+
+function utcDay(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// ============================================
+// ARB EPISODES
+// ============================================
+
+// An arb lives from the first scan that shows it to the last consecutive one.
+// Scans are discrete, so a lifetime is a lower bound: an arb seen once is 0.
+export function arbEpisodes(scans: ScanRecord[]): ArbEpisode[] {
+  const episodes: ArbEpisode[] = [];
+  let open = new Map<string, ArbEpisode>();
+
+  for (const scan of byTime(scans)) {
+    const stillOpen = new Map<string, ArbEpisode>();
+
+    for (const record of scan.markets) {
+      if (!record.hasArbitrage) continue;
+      const episode = open.get(record.id) ?? {
+        id: record.id,
+        eventName: record.eventName,
+        category: record.category,
+        start: scan.scannedAt,
+        end: scan.scannedAt,
+        minutes: 0,
+        open: true,
+      };
+      episode.end = scan.scannedAt;
+      episode.minutes = (Date.parse(episode.end) - Date.parse(episode.start)) / MS_PER_MINUTE;
+      stillOpen.set(record.id, episode);
+    }
+
+    open.forEach((episode, id) => {
+      if (stillOpen.has(id)) return;
+      episode.open = false;
+      episodes.push(episode);
+    });
+    open = stillOpen;
+  }
+
+  return [...episodes, ...Array.from(open.values())];
+}
+
+// Episodes by the UTC day they started, with empty days filled in
+function arbsPerDay(episodes: ArbEpisode[], from: string, to: string) {
+  const counts = new Map<string, number>();
+  for (const e of episodes) counts.set(utcDay(e.start), (counts.get(utcDay(e.start)) ?? 0) + 1);
+
+  const days: { day: string; count: number }[] = [];
+  for (let t = Date.parse(utcDay(from)); t <= Date.parse(utcDay(to)); t += MS_PER_DAY) {
+    const day = new Date(t).toISOString().slice(0, 10);
+    days.push({ day, count: counts.get(day) ?? 0 });
+  }
+  return days;
+}
+
+// ============================================
+// PAIRS
+// ============================================
+
+export function pairHistory(scans: ScanRecord[], id: string): PairHistory | null {
+  let history: PairHistory | null = null;
+
+  for (const scan of byTime(scans)) {
+    const record = scan.markets.find((m) => m.id === id);
+    if (!record) continue;
+    history ??= { id, eventName: record.eventName, category: record.category, points: [] };
+    history.points.push({
+      scannedAt: scan.scannedAt,
+      prices: record.prices,
+      spreadPercent: record.spreadPercent,
+      hasArbitrage: record.hasArbitrage,
+    });
+  }
+
+  return history;
+}
+
+// ============================================
+// SUMMARY
+// ============================================
+
+export function summarizeHistory(scans: ScanRecord[]): HistorySummary {
+  const ordered = byTime(scans);
+  const from = ordered[0]?.scannedAt ?? null;
+  const to = ordered[ordered.length - 1]?.scannedAt ?? null;
+
+  const pairs = new Map<string, PairSummary>();
+  const widest = new Map<string, CategorySpread & { category: MarketCategory }>();
+
+  for (const scan of ordered) {
+    for (const record of scan.markets) {
+      const pair = pairs.get(record.id) ?? {
+        id: record.id,
+        eventName: record.eventName,
+        category: record.category,
+        scans: 0,
+        latestSpreadPercent: 0,
+        maxSpreadPercent: 0,
+      };
+      pair.scans++;
+      pair.latestSpreadPercent = record.spreadPercent;
+      pair.maxSpreadPercent = Math.max(pair.maxSpreadPercent, record.spreadPercent);
+      pairs.set(record.id, pair);
+
+      const best = widest.get(record.id);
+      if (!best || record.spreadPercent > best.spreadPercent) {
+        widest.set(record.id, {
+          id: record.id,
+          eventName: record.eventName,
+          category: record.category,
+          spreadPercent: record.spreadPercent,
+          scannedAt: scan.scannedAt,
+        });
+      }
+    }
+  }
+
+  // Each pair's widest moment, ranked within its category
+  const widestSpreads: HistorySummary["widestSpreads"] = {};
+  const ranked = Array.from(widest.values()).sort((a, b) => b.spreadPercent - a.spreadPercent);
+  for (const { category, ...spread } of ranked) {
+    const list = (widestSpreads[category] ??= []);
+    if (list.length < WIDEST_PER_CATEGORY) list.push(spread);
+  }
+
+  const episodes = arbEpisodes(ordered);
+
+  return {
+    scans: ordered.length,
+    from,
+    to,
+    arbsPerDay: from && to ? arbsPerDay(episodes, from, to) : [],
+    medianArbMinutes: median(episodes.map((e) => e.minutes)),
+    widestSpreads,
+    pairs: Array.from(pairs.values()).sort((a, b) => b.maxSpreadPercent - a.maxSpreadPercent),
+  };
+}
@@ -0,0 +1,141 @@
+// ============================================
+// PUBLIC API KEYS + RATE LIMITS
+// ============================================
+
+import { createHash, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+// ============================================
+// KEYS
+// ============================================
+
+// Requests per key per minute when API_KEYS doesn't give one
+const DEFAULT_RATE_LIMIT = Number(process.env.API_RATE_LIMIT) || 60;
+const WINDOW_MS = 60_000;
+
+interface ApiKey {
+  name: string;
+  digest: Buffer; // SHA-256 of the key, compared in constant time
+  perMinute: number;
+}
+
+function digest(key: string): Buffer {
+  return createHash("sha256").update(key).digest();
+}
+
+// One API_KEYS entry. The name runs to the first colon and the limit follows
+// the last one when it's all digits, so keys may contain colons (such a key
+// needs an explicit limit, or its own numeric tail would be read as one).
+function parseKey(entry: string): ApiKey {
+  const first = entry.indexOf(":");
+  const name = first === -1 ? "" : entry.slice(0, first);
+  let key = first === -1 ? "" : entry.slice(first + 1);
+  let perMinute = DEFAULT_RATE_LIMIT;
+
+  const last = key.lastIndexOf(":");
+  if (last !== -1 && /^\d+$/.test(key.slice(last + 1))) {
+    perMinute = Number(key.slice(last + 1));
+    key = key.slice(0, last);
+  }
+
+  // Never echo the entry itself - it holds the key
+  if (!name) throw new Error("Malformed API_KEYS entry: expected name:key[:perMinute]");
+  if (!key) throw new Error(`Malformed API_KEYS entry "${name}": missing key`);
+  if (perMinute < 1) throw new Error(`Malformed API_KEYS entry "${name}": rate limit must be at least 1`);
+  return { name, digest: digest(key), perMinute };
+}
+
+// API_KEYS="trading-bot:s3cret:120,dashboard:0th3r" - name:key[:per minute].
+// A malformed entry throws here, at startup, rather than quietly leaving that
+// client locked out.
+function loadKeys(): ApiKey[] {
+  return (process.env.API_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map(parseKey);
+}
+
+const keys = loadKeys();
+
+function findKey(presented: string): ApiKey | null {
+  const d = digest(presented);
+  return keys.find((k) => timingSafeEqual(k.digest, d)) ?? null;
+}
+
+// "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function presentedKey(request: NextRequest): string | null {
+  const auth = request.headers.get("authorization");
+  if (auth?.toLowerCase().startsWith("bearer ")) return auth.slice(7).trim();
+  return request.headers.get("x-api-key");
+}
+
+// ============================================
+// RATE LIMITING
+// ============================================
+
+interface Window {
+  start: number;
+  count: number;
+}
+
+// Fixed one-minute windows per key, kept on globalThis so dev-mode module
+// reloads don't reset them
+const globalForLimits = globalThis as unknown as { apiRateWindows?: Map<string, Window> };
+const windows: Map<string, Window> = (globalForLimits.apiRateWindows ??= new Map());
+
+// Keyed by digest, since two keys may share a name
+function take(key: ApiKey, now: number): { allowed: boolean; remaining: number; resetAt: number } {
+  const id = key.digest.toString("hex");
+  let window = windows.get(id);
+  if (!window || now - window.start >= WINDOW_MS) {
+    window = { start: now, count: 0 };
+    windows.set(id, window);
+  }
+
+  const allowed = window.count < key.perMinute;
+  if (allowed) window.count++;
+  return { allowed, remaining: key.perMinute - window.count, resetAt: window.start + WINDOW_MS };
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+// Checks the key and counts the request against its limit. On success the
+// rate-limit headers are returned for the response; otherwise the error
+// response to send.
+export function authorize(
+  request: NextRequest
+): { ok: true; headers: Record<string, string> } | { ok: false; response: NextResponse } {
+  const presented = presentedKey(request);
+  const key = presented ? findKey(presented) : null;
+  if (!key) {
+    const error = keys.length === 0 ? "The API is disabled: no API_KEYS configured" : "Missing or invalid API key";
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error },
+        { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="api"' } }
+      ),
+    };
+  }
+
+  const now = Date.now();
+  const { allowed, remaining, resetAt } = take(key, now);
+  const headers = {
+    "X-RateLimit-Limit": String(key.perMinute),
+    "X-RateLimit-Remaining": String(Math.max(remaining, 0)),
+    "X-RateLimit-Reset": String(Math.ceil(resetAt / 1000)), // Unix seconds
+  };
+  if (!allowed) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: `Rate limit of ${key.perMinute} requests per minute exceeded` },
+        { status: 429, headers: { ...headers, "Retry-After": String(Math.ceil((resetAt - now) / 1000)) } }
+      ),
+    };
+  }
+  return { ok: true, headers };
+}
@@ -0,0 +1,157 @@
+// ============================================
+// HEDGE SELECTION & MARKET EVALUATION
+// ============================================
+
+import {
+  Hedge,
+  HedgeLeg,
+  HedgeProfit,
+  MarketCategory,
+  MatchBreakdown,
+  MatchCandidate,
+  MatchConfidence,
+  ResolutionAnalysis,
+  UnifiedMarket,
+  Venue,
+  VenueQuote,
+} from "@/types";
+import { annualizeROI, calculateHedgeProfit, daysUntil, lockupCost } from "@/utils/fees";
+import { HEDGE_PAYOUT } from "@/utils/normalize";
+import { analyzeResolution } from "@/utils/resolution";
+
+// ============================================
+// HEDGE CALCULATION
+// ============================================
+
+export function pairLegs(yesLeg: HedgeLeg, noLeg: HedgeLeg): Hedge {
+  const totalCost = Math.round((yesLeg.price + noLeg.price) * 10) / 10;
+  const edge = Math.round((HEDGE_PAYOUT - totalCost) * 10) / 10;
+
+  return {
+    yesLeg,
+    noLeg,
+    totalCost,
+    payout: HEDGE_PAYOUT,
+    edge,
+    edgePercent: totalCost > 0 ? (edge / totalCost) * 100 : 0,
+  };
+}
+
+// Executable hedges: YES on one venue plus NO on another, both at the ask.
+// Every ordered pair of venues in the cluster is a candidate.
+function hedgeCandidates(quotes: Pick<VenueQuote, "venue" | "quote">[]): Hedge[] {
+  const candidates: Hedge[] = [];
+
+  for (const yesQuote of quotes) {
+    for (const noQuote of quotes) {
+      if (yesQuote.venue === noQuote.venue) continue;
+      if (yesQuote.quote.yesAsk === null || noQuote.quote.noAsk === null) continue;
+
+      candidates.push(
+        pairLegs(
+          { venue: yesQuote.venue, side: "yes", price: yesQuote.quote.yesAsk },
+          { venue: noQuote.venue, side: "no", price: noQuote.quote.noAsk }
+        )
+      );
+    }
+  }
+
+  return candidates;
+}
+
+// The cheapest hedge isn't always the best one: fees depend on price and venue
+export function findBestHedge(
+  quotes: Pick<VenueQuote, "venue" | "quote">[]
+): { hedge: Hedge; profit: HedgeProfit } | null {
+  let best: { hedge: Hedge; profit: HedgeProfit } | null = null;
+
+  for (const hedge of hedgeCandidates(quotes)) {
+    const profit = calculateHedgeProfit(hedge);
+    if (!best || profit.netProfit > best.profit.netProfit) {
+      best = { hedge, profit };
+    }
+  }
+
+  return best;
+}
+
+// ============================================
+// MARKET EVALUATION
+// ============================================
+
+// The later of the two legs' dates: capital is locked until both settle.
+// Unknown if either leg has no date.
+export function hedgeEndDate(
+  quotes: Partial<Record<Venue, Pick<VenueQuote, "resolution">>>,
+  hedge: Hedge
+): string | null {
+  const dates = [hedge.yesLeg.venue, hedge.noLeg.venue].map(
+    (venue) => quotes[venue]?.resolution.endDate ?? null
+  );
+  if (dates.some((d) => d === null || Number.isNaN(Date.parse(d)))) return null;
+  return (dates as string[]).reduce((a, b) => (Date.parse(a) >= Date.parse(b) ? a : b));
+}
+
+export interface MarketCluster {
+  id: string;
+  eventName: string;
+  category: MarketCategory;
+  normalizedName: string;
+  quotes: Partial<Record<Venue, VenueQuote>>;
+  matchScore: number;
+  matchBreakdown: MatchBreakdown[];
+  matchConfidence: MatchConfidence;
+  runnerUp: MatchCandidate | null;
+  scoreMargin: number | null;
+}
+
+// Derive spreads, the best hedge, profit, capital lockup and settlement risk
+// from a cluster's venue quotes. Days to resolution count from now.
+// Re-run whenever a quote changes; depth is left for attachDepth to fill in.
+// Settlement terms don't change with prices, so a caller re-running it on a
+// price tick can pass the previous resolution analysis.
+export function evaluateMarket(
+  cluster: MarketCluster,
+  resolution?: ResolutionAnalysis
+): UnifiedMarket {
+  const quotes = Object.values(cluster.quotes) as VenueQuote[];
+
+  let spread = 0;
+  let spreadPercent = 0;
+  if (quotes.length > 1) {
+    const prices = quotes.map((q) => q.price);
+    const high = Math.max(...prices);
+    const low = Math.min(...prices);
+    const avgPrice = (high + low) / 2;
+    spread = high - low;
+    spreadPercent = avgPrice > 0 ? (spread / avgPrice) * 100 : 0;
+  }
+
+  const best = findBestHedge(quotes);
+  const hedge = best?.hedge ?? null;
+  const profit = best?.profit ?? null;
+  const hasArbitrage = hedge !== null && profit !== null && profit.netProfit > 0;
+  const endDate = hedge ? hedgeEndDate(cluster.quotes, hedge) : null;
+  const days = daysUntil(endDate);
+
+  return {
+    ...cluster,
+    spread,
+    spreadPercent,
+    hedge,
+    grossProfit: profit?.grossProfit ?? null,
+    netProfit: profit?.netProfit ?? null,
+    netROI: profit?.netROI ?? null,
+    fees: profit?.fees ?? [],
+    endDate,
+    daysToResolution: days,
+    annualizedROI: profit && days !== null ? annualizeROI(profit.netROI, days) : null,
+    lockupCost: profit && days !== null ? lockupCost(profit.capital, days) : null,
+    depth: null,
+    resolution: resolution ?? analyzeResolution(quotes),
+    hasArbitrage,
+    arbitrageDirection: hasArbitrage
+      ? { buyYes: hedge.yesLeg.venue, buyNo: hedge.noLeg.venue }
+      : null,
+  };
+}
@@ -0,0 +1,89 @@
+// ============================================
+// OPTIMAL ONE-TO-ONE ASSIGNMENT (HUNGARIAN METHOD)
+// ============================================
+
+// Minimum-cost assignment of every row to a distinct column, for a matrix
+// with no more rows than columns. Returns the column chosen for each row.
+// O(rows² × columns), using potentials and shortest augmenting paths.
+function minCostAssignment(cost: number[][]): number[] {
+  const n = cost.length;
+  const m = cost[0]?.length ?? 0;
+
+  // 1-based; column 0 is a virtual start
+  const u = new Float64Array(n + 1);
+  const v = new Float64Array(m + 1);
+  const rowOf = new Int32Array(m + 1); // Row assigned to each column, 0 = none
+  const way = new Int32Array(m + 1);
+
+  for (let i = 1; i <= n; i++) {
+    rowOf[0] = i;
+    let j0 = 0;
+    const minv = new Float64Array(m + 1).fill(Infinity);
+    const used = new Uint8Array(m + 1);
+
+    do {
+      used[j0] = 1;
+      const i0 = rowOf[j0];
+      let delta = Infinity;
+      let j1 = 0;
+
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const reduced = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[rowOf[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (rowOf[j0] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const j1 = way[j0];
+      rowOf[j0] = rowOf[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const columnOf = new Array<number>(n).fill(-1);
+  for (let j = 1; j <= m; j++) {
+    if (rowOf[j] !== 0) columnOf[rowOf[j] - 1] = j - 1;
+  }
+  return columnOf;
+}
+
+// Pairs (row, column) maximizing the total weight, each row and column used
+// at most once. Zero weight means "may not pair", so those never come back.
+export function maxWeightAssignment(weights: number[][]): [number, number][] {
+  const rows = weights.length;
+  const columns = weights[0]?.length ?? 0;
+  if (rows === 0 || columns === 0) return [];
+
+  // The solver needs rows ≤ columns
+  const transpose = rows > columns;
+  const matrix = transpose
+    ? Array.from({ length: columns }, (_, j) => weights.map((row) => -row[j]))
+    : weights.map((row) => row.map((w) => -w));
+
+  const pairs: [number, number][] = [];
+  minCostAssignment(matrix).forEach((j, i) => {
+    if (j === -1) return;
+    const [row, column] = transpose ? [j, i] : [i, j];
+    if (weights[row][column] > 0) pairs.push([row, column]);
+  });
+  return pairs;
+}
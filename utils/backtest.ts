@@ -0,0 +1,462 @@
+// ============================================
+// STRATEGY BACKTESTER (REPLAYS SCAN HISTORY)
+// ============================================
+
+import {
+  BacktestAssumptions,
+  BacktestExit,
+  BacktestReport,
+  BacktestResult,
+  BacktestStrategy,
+  BacktestTrade,
+  EquityPoint,
+  Hedge,
+  HedgeLeg,
+  HistoryRecord,
+  MarketCategory,
+  MarketQuote,
+  MatchConfidence,
+  ScanRecord,
+  Venue,
+} from "@/types";
+import { CONFIDENCE_RANK } from "@/utils/alerts";
+import { findBestHedge, pairLegs } from "@/utils/arbitrage";
+import { CATEGORY_PROFILES } from "@/utils/categories";
+import { calculateHedgeProfit, getFeeSchedule } from "@/utils/fees";
+import { HEDGE_PAYOUT } from "@/utils/normalize";
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const DEFAULT_ASSUMPTIONS: BacktestAssumptions = {
+  feeMultiplier: 1,
+  latencySeconds: 0,
+  slippageCents: 0.5,
+  impactCentsPer1k: 0.5,
+};
+
+const BASE_STRATEGY: BacktestStrategy = {
+  name: "Any net arb",
+  minSpreadPercent: 0,
+  minNetROI: 0,
+  minConfidence: "low",
+  minSize: 0,
+  skipResolutionRisk: false,
+  categories: [],
+  contracts: 100,
+  exit: { type: "resolution" },
+};
+
+export const DEFAULT_STRATEGIES: BacktestStrategy[] = [
+  BASE_STRATEGY,
+  { ...BASE_STRATEGY, name: "5% spread", minSpreadPercent: 5 },
+  { ...BASE_STRATEGY, name: "High confidence only", minConfidence: "high", skipResolutionRisk: true },
+  { ...BASE_STRATEGY, name: "500+ contracts", minSize: 500, contracts: 500 },
+  { ...BASE_STRATEGY, name: "Exit on convergence", exit: { type: "convergence", capture: 0.8 } },
+];
+
+// ============================================
+// PRICING
+// ============================================
+
+function slippage(assumptions: BacktestAssumptions, contracts: number): number {
+  return assumptions.slippageCents + (assumptions.impactCentsPer1k * contracts) / 1000;
+}
+
+function round(price: number): number {
+  return Math.round(price * 10) / 10;
+}
+
+// Asks paid a little worse than quoted
+function slipQuotes(
+  quotes: Partial<Record<Venue, MarketQuote>>,
+  slip: number
+): { venue: Venue; quote: MarketQuote }[] {
+  const worse = (ask: number | null) => (ask === null ? null : Math.min(round(ask + slip), HEDGE_PAYOUT));
+  return (Object.entries(quotes) as [Venue, MarketQuote][]).map(([venue, quote]) => ({
+    venue,
+    quote: { ...quote, yesAsk: worse(quote.yesAsk), noAsk: worse(quote.noAsk) },
+  }));
+}
+
+// Holding both legs to settlement, with fees scaled by the assumptions
+function holdOutcome(
+  hedge: Hedge,
+  contracts: number,
+  assumptions: BacktestAssumptions
+): { capital: number; pnl: number } {
+  const profit = calculateHedgeProfit(hedge, contracts);
+  const m = assumptions.feeMultiplier;
+  const upfront = profit.fees.reduce((sum, f) => sum + f.trading + f.gas, 0);
+  const total = profit.fees.reduce((sum, f) => sum + f.total, 0);
+
+  return {
+    capital: (hedge.totalCost / 100) * contracts + upfront * m,
+    pnl: profit.grossProfit - total * m,
+  };
+}
+
+// P&L of selling both legs back at the bids. null when a bid is missing.
+function unwindPnl(
+  position: OpenPosition,
+  quotes: Partial<Record<Venue, MarketQuote>>,
+  assumptions: BacktestAssumptions
+): number | null {
+  const { yesLeg, noLeg, contracts } = position.trade;
+  const yesBid = quotes[yesLeg.venue]?.yesBid ?? null;
+  const noBid = quotes[noLeg.venue]?.noBid ?? null;
+  if (yesBid === null || noBid === null) return null;
+
+  const slip = slippage(assumptions, contracts);
+  let proceeds = 0;
+  let fees = 0;
+  for (const [venue, bid] of [
+    [yesLeg.venue, yesBid],
+    [noLeg.venue, noBid],
+  ] as [Venue, number][]) {
+    const price = Math.max(bid - slip, 0);
+    const amount = (price / 100) * contracts;
+    const schedule = getFeeSchedule(venue);
+    proceeds += amount;
+    fees += schedule.tradingFee(price, contracts) + schedule.gasPerTrade + schedule.withdrawalFee(amount);
+  }
+
+  return proceeds - fees * assumptions.feeMultiplier - position.trade.capital;
+}
+
+// ============================================
+// ENTRY RULES
+// ============================================
+
+function confidenceAtLeast(actual: MatchConfidence | undefined, min: MatchConfidence): boolean {
+  return CONFIDENCE_RANK.indexOf(actual ?? "low") >= CONFIDENCE_RANK.indexOf(min);
+}
+
+// The hedge a strategy would send orders for, or null when a rule fails.
+// Prices here are only for the rules; the fill reprices at the fill scan.
+function entrySignal(
+  record: HistoryRecord,
+  at: number,
+  strategy: BacktestStrategy,
+  assumptions: BacktestAssumptions
+): { hedge: Hedge; contracts: number } | null {
+  if (!record.quotes) return null;
+  if (record.endDate && Date.parse(record.endDate) <= at) return null; // Already settling
+  if (strategy.categories.length > 0 && !strategy.categories.includes(record.category)) return null;
+  if (record.spreadPercent < strategy.minSpreadPercent) return null;
+  if (!confidenceAtLeast(record.matchConfidence, strategy.minConfidence)) return null;
+  if (strategy.skipResolutionRisk && record.resolutionRisk === "high") return null;
+  if (strategy.minSize > 0 && (record.maxSize ?? 0) < strategy.minSize) return null;
+
+  // Can't take more than the books showed as profitable, when measured
+  const contracts =
+    record.maxSize === undefined || record.maxSize === null
+      ? strategy.contracts
+      : Math.min(strategy.contracts, record.maxSize);
+  if (contracts <= 0) return null;
+
+  const best = findBestHedge(slipQuotes(record.quotes, slippage(assumptions, contracts)));
+  if (!best) return null;
+  const { capital, pnl } = holdOutcome(best.hedge, contracts, assumptions);
+  if (pnl <= 0 || capital <= 0 || (pnl / capital) * 100 < strategy.minNetROI) return null;
+
+  return { hedge: best.hedge, contracts };
+}
+
+// ============================================
+// SIMULATION
+// ============================================
+
+interface PendingEntry {
+  record: HistoryRecord;
+  signalAt: string;
+  fillAfter: number; // Epoch ms
+  yesVenue: Venue;
+  noVenue: Venue;
+  contracts: number;
+}
+
+interface OpenPosition {
+  trade: BacktestTrade;
+  holdPnl: number;
+  endDate: number | null; // Epoch ms of settlement, when known
+  mark: number; // Last unwind P&L
+}
+
+// Orders go out at the signal for the venues chosen then, and fill at
+// whatever the asks are by the fill scan. A slow fill can lose money.
+function fill(
+  pending: PendingEntry,
+  record: HistoryRecord | undefined,
+  at: string,
+  assumptions: BacktestAssumptions
+): OpenPosition | null {
+  const yesAsk = record?.quotes?.[pending.yesVenue]?.yesAsk ?? null;
+  const noAsk = record?.quotes?.[pending.noVenue]?.noAsk ?? null;
+  if (!record || yesAsk === null || noAsk === null) return null;
+
+  const slip = slippage(assumptions, pending.contracts);
+  const yesLeg: HedgeLeg = { venue: pending.yesVenue, side: "yes", price: Math.min(round(yesAsk + slip), HEDGE_PAYOUT) };
+  const noLeg: HedgeLeg = { venue: pending.noVenue, side: "no", price: Math.min(round(noAsk + slip), HEDGE_PAYOUT) };
+  const { capital, pnl } = holdOutcome(pairLegs(yesLeg, noLeg), pending.contracts, assumptions);
+  const endDate = record.endDate ? Date.parse(record.endDate) : NaN;
+
+  return {
+    trade: {
+      marketId: record.id,
+      eventName: record.eventName,
+      category: record.category,
+      signalAt: pending.signalAt,
+      enteredAt: at,
+      exitedAt: null,
+      exitReason: "open",
+      yesLeg,
+      noLeg,
+      contracts: pending.contracts,
+      capital,
+      pnl,
+    },
+    holdPnl: pnl,
+    endDate: Number.isFinite(endDate) ? endDate : null,
+    mark: 0,
+  };
+}
+
+function shouldConverge(exit: BacktestExit, unwind: number, holdPnl: number): boolean {
+  return exit.type === "convergence" && unwind >= exit.capture * holdPnl;
+}
+
+function runStrategy(
+  scans: ScanRecord[],
+  strategy: BacktestStrategy,
+  assumptions: BacktestAssumptions
+): BacktestResult {
+  const trades: BacktestTrade[] = [];
+  const open = new Map<string, OpenPosition>();
+  const pending = new Map<string, PendingEntry>();
+  const equity: EquityPoint[] = [];
+  let signals = 0;
+  let missed = 0;
+  let realized = 0;
+
+  const close = (position: OpenPosition, at: string, reason: "resolution" | "convergence", pnl: number) => {
+    position.trade.exitedAt = at;
+    position.trade.exitReason = reason;
+    position.trade.pnl = pnl;
+    realized += pnl;
+    open.delete(position.trade.marketId);
+  };
+
+  for (const scan of scans) {
+    const now = Date.parse(scan.scannedAt);
+    const records = new Map(scan.markets.map((r) => [r.id, r]));
+
+    // Settlements since the last scan
+    open.forEach((position) => {
+      if (position.endDate !== null && position.endDate <= now) {
+        close(position, new Date(position.endDate).toISOString(), "resolution", position.holdPnl);
+      }
+    });
+
+    // Mark open positions at the bids; convergence exits sell there
+    open.forEach((position) => {
+      const quotes = records.get(position.trade.marketId)?.quotes;
+      const unwind = quotes ? unwindPnl(position, quotes, assumptions) : null;
+      if (unwind === null) return;
+      if (shouldConverge(strategy.exit, unwind, position.holdPnl)) {
+        close(position, scan.scannedAt, "convergence", unwind);
+      } else {
+        position.mark = unwind;
+      }
+    });
+
+    // New signals on pairs without a position or an order out
+    for (const record of scan.markets) {
+      if (open.has(record.id) || pending.has(record.id)) continue;
+      const signal = entrySignal(record, now, strategy, assumptions);
+      if (!signal) continue;
+      signals++;
+      pending.set(record.id, {
+        record,
+        signalAt: scan.scannedAt,
+        fillAfter: now + assumptions.latencySeconds * 1000,
+        yesVenue: signal.hedge.yesLeg.venue,
+        noVenue: signal.hedge.noLeg.venue,
+        contracts: signal.contracts,
+      });
+    }
+
+    // Fills due by this scan, priced from it
+    pending.forEach((entry, id) => {
+      if (entry.fillAfter > now) return;
+      pending.delete(id);
+      const position = fill(entry, records.get(id), scan.scannedAt, assumptions);
+      if (!position) {
+        missed++;
+        return;
+      }
+      trades.push(position.trade);
+      position.mark = unwindPnl(position, records.get(id)!.quotes!, assumptions) ?? 0;
+      open.set(id, position);
+    });
+
+    let marked = 0;
+    let capital = 0;
+    open.forEach((position) => {
+      marked += position.mark;
+      capital += position.trade.capital;
+    });
+    equity.push({ at: scan.scannedAt, equity: realized + marked, capital });
+  }
+
+  // Orders still waiting at the end never filled
+  missed += pending.size;
+
+  let unrealized = 0;
+  open.forEach((position) => {
+    unrealized += position.holdPnl;
+  });
+
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const point of equity) {
+    peak = Math.max(peak, point.equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - point.equity);
+  }
+  const peakCapital = Math.max(0, ...equity.map((p) => p.capital));
+  const totalPnl = realized + unrealized;
+
+  return {
+    strategy,
+    signals,
+    missed,
+    trades,
+    realizedPnl: realized,
+    unrealizedPnl: unrealized,
+    totalPnl,
+    hitRate: trades.length > 0 ? trades.filter((t) => t.pnl > 0).length / trades.length : null,
+    peakCapital,
+    averageCapital:
+      equity.length > 0 ? equity.reduce((sum, p) => sum + p.capital, 0) / equity.length : 0,
+    returnOnPeakCapital: peakCapital > 0 ? (totalPnl / peakCapital) * 100 : null,
+    maxDrawdown,
+    equity,
+  };
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+// Replay recorded scans through each strategy. Positions are held to their
+// settlement date, or sold on convergence; whatever is still open at the end
+// counts the profit holding it to settlement locks in. Both legs are assumed
+// to settle the same way.
+export function runBacktest(
+  scans: ScanRecord[],
+  strategies: BacktestStrategy[],
+  assumptions: BacktestAssumptions = DEFAULT_ASSUMPTIONS
+): BacktestReport {
+  // Lines written before quotes were recorded can't be priced
+  const usable = scans
+    .filter((scan) => scan.markets.some((r) => r.quotes))
+    .sort((a, b) => Date.parse(a.scannedAt) - Date.parse(b.scannedAt));
+
+  return {
+    from: usable[0]?.scannedAt ?? null,
+    to: usable[usable.length - 1]?.scannedAt ?? null,
+    scans: usable.length,
+    assumptions,
+    results: strategies.map((strategy) => runStrategy(usable, strategy, assumptions)),
+  };
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function inRange(value: unknown, fallback: number, min: number, max = Infinity): number | null {
+  if (value === undefined) return fallback;
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max
+    ? value
+    : null;
+}
+
+function parseStrategy(input: unknown, index: number): BacktestStrategy | string {
+  if (typeof input !== "object" || input === null) return `strategies[${index}] must be an object`;
+  const body = input as Record<string, unknown>;
+  const label = `strategies[${index}]`;
+
+  const numbers = {
+    minSpreadPercent: inRange(body.minSpreadPercent, BASE_STRATEGY.minSpreadPercent, 0),
+    minNetROI: inRange(body.minNetROI, BASE_STRATEGY.minNetROI, -100),
+    minSize: inRange(body.minSize, BASE_STRATEGY.minSize, 0),
+    contracts: inRange(body.contracts, BASE_STRATEGY.contracts, 1),
+  };
+  for (const [field, value] of Object.entries(numbers)) {
+    if (value === null) return `${label}.${field} is out of range`;
+  }
+
+  const minConfidence = body.minConfidence ?? BASE_STRATEGY.minConfidence;
+  if (!CONFIDENCE_RANK.includes(minConfidence as MatchConfidence)) {
+    return `${label}.minConfidence must be one of ${CONFIDENCE_RANK.join(", ")}`;
+  }
+
+  const categories = body.categories ?? [];
+  const known = CATEGORY_PROFILES.map((p) => p.id);
+  if (!Array.isArray(categories) || categories.some((c) => !known.includes(c))) {
+    return `${label}.categories must be a list of ${known.join(", ")}`;
+  }
+
+  const exit = (body.exit ?? BASE_STRATEGY.exit) as BacktestExit;
+  if (exit.type === "convergence") {
+    if (inRange(exit.capture, 1, 0, 1) === null) return `${label}.exit.capture must be between 0 and 1`;
+  } else if (exit.type !== "resolution") {
+    return `${label}.exit.type must be resolution or convergence`;
+  }
+
+  return {
+    name: typeof body.name === "string" && body.name.trim() ? body.name.trim() : `Strategy ${index + 1}`,
+    minSpreadPercent: numbers.minSpreadPercent!,
+    minNetROI: numbers.minNetROI!,
+    minConfidence: minConfidence as MatchConfidence,
+    minSize: numbers.minSize!,
+    skipResolutionRisk: body.skipResolutionRisk === true,
+    categories: categories as MarketCategory[],
+    contracts: Math.floor(numbers.contracts!),
+    exit: exit.type === "convergence" ? { type: "convergence", capture: exit.capture ?? 1 } : { type: "resolution" },
+  };
+}
+
+// Strategies and assumptions from a request body; omitted fields take the
+// defaults, omitted strategies the default set
+export function parseBacktestInput(
+  body: unknown
+): { strategies: BacktestStrategy[]; assumptions: BacktestAssumptions } | { error: string } {
+  const input = (typeof body === "object" && body !== null ? body : {}) as Record<string, unknown>;
+
+  const strategies: BacktestStrategy[] = [];
+  const rawStrategies = input.strategies ?? DEFAULT_STRATEGIES;
+  if (!Array.isArray(rawStrategies) || rawStrategies.length === 0) {
+    return { error: "strategies must be a non-empty list" };
+  }
+  for (let i = 0; i < rawStrategies.length; i++) {
+    const strategy = parseStrategy(rawStrategies[i], i);
+    if (typeof strategy === "string") return { error: strategy };
+    strategies.push(strategy);
+  }
+
+  const raw = (input.assumptions ?? {}) as Record<string, unknown>;
+  const assumptions = {
+    feeMultiplier: inRange(raw.feeMultiplier, DEFAULT_ASSUMPTIONS.feeMultiplier, 0),
+    latencySeconds: inRange(raw.latencySeconds, DEFAULT_ASSUMPTIONS.latencySeconds, 0),
+    slippageCents: inRange(raw.slippageCents, DEFAULT_ASSUMPTIONS.slippageCents, 0, HEDGE_PAYOUT),
+    impactCentsPer1k: inRange(raw.impactCentsPer1k, DEFAULT_ASSUMPTIONS.impactCentsPer1k, 0, HEDGE_PAYOUT),
+  };
+  for (const [field, value] of Object.entries(assumptions)) {
+    if (value === null) return { error: `assumptions.${field} is out of range` };
+  }
+
+  return { strategies, assumptions: assumptions as BacktestAssumptions };
+}
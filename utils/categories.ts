@@ -0,0 +1,162 @@
+// ============================================
+// CATEGORY PROFILES
+// ============================================
+
+import { CategoryProfile, MarketCategory } from "@/types";
+
+// ============================================
+// PROFILES
+// ============================================
+
+// Checked in order: an event that fits several goes to the first
+export const CATEGORY_PROFILES: CategoryProfile[] = [
+  {
+    id: "politics",
+    label: "Politics",
+    keywords: [
+      "trump",
+      "biden",
+      "harris",
+      "president",
+      "presidential",
+      "election",
+      "republican",
+      "democrat",
+      "democratic",
+      "senate",
+      "congress",
+      "governor",
+      "vote",
+      "electoral",
+      "primary",
+      "primaries",
+      "nominee",
+      "nomination",
+      "vance",
+      "walz",
+      "cabinet",
+      "inauguration",
+      "popular vote",
+      "swing state",
+    ],
+    venueCategories: ["politic", "election"],
+    tags: ["politics", "elections"],
+    keyTerms: ["trump", "biden", "harris", "president", "2024", "winner"],
+  },
+  {
+    id: "economics",
+    label: "Economics",
+    keywords: [
+      "cpi",
+      "inflation",
+      "fed",
+      "fomc",
+      "interest rate",
+      "rate cut",
+      "rate hike",
+      "gdp",
+      "unemployment",
+      "jobs report",
+      "payrolls",
+      "recession",
+    ],
+    venueCategories: ["economic", "financial"],
+    tags: ["economy", "economics", "fed", "inflation"],
+    keyTerms: ["cpi", "inflation", "fed", "fomc", "gdp", "unemployment", "recession", "cut", "hike"],
+  },
+  {
+    id: "crypto",
+    label: "Crypto",
+    keywords: ["bitcoin", "btc", "ethereum", "eth", "solana", "crypto", "dogecoin", "xrp"],
+    venueCategories: ["crypto"],
+    tags: ["crypto", "bitcoin", "ethereum"],
+    keyTerms: ["bitcoin", "btc", "ethereum", "eth", "solana"],
+  },
+  {
+    id: "weather",
+    label: "Weather",
+    keywords: ["temperature", "hurricane", "tornado", "snowfall", "rainfall", "weather", "heat wave"],
+    venueCategories: ["weather", "climate"],
+    tags: ["weather", "climate"],
+    keyTerms: ["temperature", "hurricane", "snow", "rain", "degrees", "landfall"],
+  },
+  {
+    id: "sports",
+    label: "Sports",
+    keywords: [
+      "nfl",
+      "nba",
+      "mlb",
+      "nhl",
+      "super bowl",
+      "world series",
+      "stanley cup",
+      "championship",
+      "playoffs",
+      "world cup",
+      "premier league",
+      "ufc",
+    ],
+    venueCategories: ["sport"],
+    tags: ["sports", "nfl", "nba", "mlb", "nhl", "soccer"],
+    keyTerms: ["nfl", "nba", "mlb", "nhl", "super", "bowl", "championship", "finals", "series"],
+  },
+];
+
+const PROFILES_BY_ID = Object.fromEntries(
+  CATEGORY_PROFILES.map((p) => [p.id, p])
+) as Record<MarketCategory, CategoryProfile>;
+
+// ============================================
+// ACTIVE PROFILES
+// ============================================
+
+// SCAN_CATEGORIES=politics,crypto narrows the crawl; unset scans everything
+export function getActiveProfiles(): CategoryProfile[] {
+  const wanted = (process.env.SCAN_CATEGORIES || "")
+    .split(",")
+    .map((c) => c.trim().toLowerCase())
+    .filter(Boolean);
+  if (wanted.length === 0) return CATEGORY_PROFILES;
+  return CATEGORY_PROFILES.filter((p) => wanted.includes(p.id));
+}
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+
+// Whole words (plurals allowed), so "fed" finds "Fed's" but not "federal"
+// and "eth" stays out of "ethics"
+function mentions(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z])${escaped}(s|'s)?([^a-z]|$)`).test(text);
+}
+
+// An event's category from what the venue says about it. Venue categories
+// and tags win over keywords; null means no active profile wants it.
+export function classifyEvent(
+  event: { text: string; venueCategory?: string; tags?: string[] },
+  profiles: CategoryProfile[] = getActiveProfiles()
+): MarketCategory | null {
+  const category = event.venueCategory?.toLowerCase() ?? "";
+  const tags = (event.tags || []).map((t) => t.toLowerCase());
+
+  const tagged = profiles.find(
+    (p) =>
+      (category && p.venueCategories.some((c) => category.includes(c))) ||
+      p.tags.some((t) => tags.includes(t))
+  );
+  if (tagged) return tagged.id;
+
+  const text = event.text.toLowerCase();
+  return profiles.find((p) => p.keywords.some((kw) => mentions(text, kw)))?.id ?? null;
+}
+
+// Terms that boost a pair's score: both listings' profiles count
+export function categoryKeyTerms(...categories: MarketCategory[]): string[] {
+  return Array.from(new Set(categories.flatMap((c) => PROFILES_BY_ID[c].keyTerms)));
+}
+
+export function categoryLabel(category: MarketCategory): string {
+  return PROFILES_BY_ID[category].label;
+}
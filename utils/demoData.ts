@@ -0,0 +1,201 @@
+// ============================================
+// DEMO DATA
+// ============================================
+//
+// Built from the same pricing code as live scans, without any fetch code, so
+// the page can fall back to it in the browser.
+
+import {
+  DutchBook,
+  ListingBook,
+  MarketQuote,
+  NormalizedMarket,
+  ResolutionTerms,
+  UnifiedMarket,
+  Venue,
+  VenueQuote,
+} from "@/types";
+import { evaluateMarket } from "@/utils/arbitrage";
+import { CATEGORY_PROFILES, classifyEvent } from "@/utils/categories";
+import { analyzeDepth } from "@/utils/depth";
+import { findDutchBooks } from "@/utils/dutchBook";
+import { extractEntities } from "@/utils/entities";
+import { buildCluster } from "@/utils/matcher";
+import { complement, extractKeywords, normalizeEventName, referencePrice } from "@/utils/normalize";
+import { invertQuote } from "@/utils/polarity";
+
+const DUMMY_END_DATE = "2024-11-05T00:00:00Z";
+
+// Demo quotes are YES bid/ask pairs; the NO side is the complement
+function dummyQuote(yesBid: number, yesAsk: number): MarketQuote {
+  return {
+    yesBid,
+    yesAsk,
+    noBid: complement(yesAsk),
+    noAsk: complement(yesBid),
+  };
+}
+
+function dummyListing(
+  venue: Venue,
+  marketId: string,
+  eventName: string,
+  url: string,
+  quote: MarketQuote,
+  volume: number,
+  resolution: Partial<ResolutionTerms> = {}
+): NormalizedMarket {
+  return {
+    venue,
+    marketId,
+    eventName,
+    normalizedName: normalizeEventName(eventName),
+    price: referencePrice(quote, 50),
+    quote,
+    bookId: marketId, // Only streamed from a mock server
+    url,
+    volume,
+    openInterest: null,
+    keywords: extractKeywords(eventName),
+    entities: extractEntities(eventName),
+    category: classifyEvent({ text: eventName }, CATEGORY_PROFILES) ?? "politics",
+    eventId: marketId,
+    eventTitle: eventName,
+    outcomeLabel: eventName,
+    exclusive: false,
+    resolution: { endDate: DUMMY_END_DATE, source: null, rules: null, ...resolution },
+  };
+}
+
+// One outcome of a mutually exclusive demo event
+function dummyOutcome(
+  venue: Venue,
+  eventId: string,
+  eventTitle: string,
+  outcomeLabel: string,
+  url: string,
+  quote: MarketQuote
+): NormalizedMarket {
+  return {
+    ...dummyListing(venue, `${eventId}-${outcomeLabel}`, outcomeLabel, url, quote, 0),
+    eventId,
+    eventTitle,
+    exclusive: true,
+  };
+}
+
+// Ways the Kalshi side of a demo row differs from the Polymarket side
+interface DummyKalshiOptions {
+  eventName?: string;
+  terms?: Partial<ResolutionTerms>;
+  polyTerms?: Partial<ResolutionTerms>;
+}
+
+function dummyMarket(
+  id: string,
+  eventName: string,
+  polySlug: string,
+  kalshiTicker: string,
+  polyQuote: MarketQuote,
+  kalshiQuote: MarketQuote,
+  polyVolume: string,
+  kalshiVolume: number,
+  score: number,
+  kalshi: DummyKalshiOptions = {}
+): UnifiedMarket {
+  const members = [
+    dummyListing("polymarket", id, eventName, `https://polymarket.com/event/${polySlug}`, polyQuote, parseFloat(polyVolume), kalshi.polyTerms),
+    dummyListing("kalshi", kalshiTicker, kalshi.eventName ?? eventName, `https://kalshi.com/markets/${kalshiTicker}`, kalshiQuote, kalshiVolume, kalshi.terms),
+  ];
+
+  const market = evaluateMarket({ ...buildCluster(members, score), id });
+  const hedge = market.hedge;
+  const depth =
+    hedge && hedge.edge > 0
+      ? analyzeDepth(hedge, dummyLadder(hedge.yesLeg.price), dummyLadder(hedge.noLeg.price))
+      : null;
+
+  return { ...market, depth };
+}
+
+// Thin top of book that gets thicker, and pricier, further out
+function dummyLadder(bestAsk: number) {
+  return [
+    { price: bestAsk, size: 400 },
+    { price: bestAsk + 0.5, size: 1200 },
+    { price: bestAsk + 1, size: 3000 },
+    { price: bestAsk + 2, size: 8000 },
+  ];
+}
+
+export function getDummyData(): UnifiedMarket[] {
+  const HIGH = 0.8;
+  const MEDIUM = 0.5;
+
+  return [
+    dummyMarket("dummy-1", "Trump wins 2024 Presidential Election", "presidential-election-winner-2024", "PRES-2024", dummyQuote(51, 53), dummyQuote(57, 59), "125000000", 45000000, HIGH),
+    dummyMarket("dummy-2", "Harris wins 2024 Presidential Election", "presidential-election-winner-2024", "PRES-2024-KH", dummyQuote(46, 48), dummyQuote(40, 42), "98000000", 38000000, HIGH),
+    dummyMarket("dummy-3", "Republicans win Senate majority", "senate-control-2024", "SENATE-2024", dummyQuote(77, 79), dummyQuote(74, 77), "45000000", 12000000, HIGH),
+    dummyMarket("dummy-4", "Democrats win House majority", "house-control-2024", "HOUSE-2024", dummyQuote(31, 32), dummyQuote(34, 36), "28000000", 8500000, HIGH),
+    dummyMarket("dummy-5", "Trump wins Pennsylvania", "pennsylvania-2024", "PA-2024", dummyQuote(53, 55), dummyQuote(51, 53), "18000000", 5200000, MEDIUM),
+    dummyMarket("dummy-6", "Trump wins Georgia", "georgia-2024", "GA-2024", dummyQuote(57, 59), dummyQuote(54, 56), "15000000", 4800000, MEDIUM),
+    dummyMarket("dummy-7", "Trump wins Michigan", "michigan-2024", "MI-2024", dummyQuote(47, 49), dummyQuote(50, 52), "14000000", 4200000, MEDIUM),
+    dummyMarket("dummy-8", "Trump wins Arizona", "arizona-2024", "AZ-2024", dummyQuote(55, 57), dummyQuote(53, 55), "12000000", 3800000, MEDIUM),
+    dummyMarket("dummy-9", "Electoral college tie (269-269)", "electoral-tie-2024", "EC-TIE-2024", dummyQuote(0.9, 1.1), dummyQuote(1, 3), "2000000", 450000, HIGH),
+    dummyMarket("dummy-10", "Trump wins popular vote", "popular-vote-2024", "POPVOTE-2024", dummyQuote(37, 39), dummyQuote(41, 43), "8500000", 2800000, HIGH),
+    dummyMarket("dummy-11", "Biden drops out before election", "biden-dropout", "BIDEN-DROP", dummyQuote(94, 96), dummyQuote(93, 95), "35000000", 15000000, HIGH, {
+      terms: { endDate: "2025-01-20T17:00:00Z" }, // Runs to inauguration day
+    }),
+    dummyMarket("dummy-12", "Third party candidate gets >5% votes", "third-party-2024", "3RD-PARTY-2024", dummyQuote(7, 9), dummyQuote(11, 13), "3200000", 980000, MEDIUM, {
+      // Same question, different tally: certified results vs the AP count
+      polyTerms: { rules: "Resolves Yes if any third-party candidate receives more than 5% of the national popular vote according to official certified results." },
+      terms: { rules: "If a third-party candidate receives more than 5% of the national popular vote as reported by the Associated Press, the market resolves to Yes." },
+    }),
+    dummyMarket("dummy-13", "Trump wins Wisconsin", "wisconsin-2024", "WI-2024", dummyQuote(48, 50), dummyQuote(46, 48), "11000000", 3500000, MEDIUM),
+    dummyMarket("dummy-14", "Trump wins Nevada", "nevada-2024", "NV-2024", dummyQuote(52, 53), dummyQuote(49, 51), "9500000", 2900000, MEDIUM),
+    dummyMarket("dummy-15", "Trump wins North Carolina", "north-carolina-2024", "NC-2024", dummyQuote(61, 63), dummyQuote(59, 61), "10500000", 3200000, MEDIUM),
+    // Kalshi asks the complement; its quote is flipped before comparing
+    dummyMarket("dummy-16", "Harris wins Virginia", "virginia-2024", "VA-2024", dummyQuote(78, 80), dummyQuote(21, 23), "6400000", 1900000, MEDIUM, { eventName: "Harris loses Virginia" }),
+    // Other category profiles
+    dummyMarket("dummy-17", "Fed cuts rates in December", "fed-decision-december", "FED-DEC", dummyQuote(61, 63), dummyQuote(58, 60), "7200000", 2100000, HIGH),
+    dummyMarket("dummy-18", "Bitcoin above $100k on December 31", "bitcoin-100k-eoy", "BTC-100K", dummyQuote(34, 36), dummyQuote(38, 40), "9100000", 2600000, HIGH),
+    dummyMarket("dummy-19", "Hurricane makes landfall in Florida in October", "florida-hurricane-october", "HURR-FL-OCT", dummyQuote(22, 24), dummyQuote(25, 27), "850000", 310000, MEDIUM),
+    dummyMarket("dummy-20", "Chiefs win the Super Bowl", "super-bowl-champion", "SB-KC", dummyQuote(18, 19), dummyQuote(20, 21), "14500000", 3900000, HIGH),
+  ];
+}
+
+// Demo books for the detail panel, built like the demo depth: the listing's
+// own asks (venue frame) at the top of the same ladder
+export function getDummyBooks(market: UnifiedMarket): ListingBook[] {
+  return (Object.values(market.quotes) as VenueQuote[]).map((quote) => {
+    const native = quote.polarity === "inverted" ? invertQuote(quote.quote) : quote.quote;
+    const ladder = (ask: number | null) =>
+      ask === null ? [] : dummyLadder(ask).filter((level) => level.price < 100);
+    return {
+      venue: quote.venue,
+      marketId: quote.marketId,
+      book: { venue: quote.venue, marketId: quote.marketId, yesAsks: ladder(native.yesAsk), noAsks: ladder(native.noAsk) },
+      live: false,
+      error: null,
+    };
+  });
+}
+
+// Winner-take-all events priced to match the demo rows above. The party
+// market doesn't line up with the candidate events, so it stands alone.
+export function getDummyDutchBooks(): DutchBook[] {
+  const polyUrl = "https://polymarket.com/event/presidential-election-winner-2024";
+  const kalshiUrl = "https://kalshi.com/markets/PRES-2024";
+  const predictItUrl = "https://www.predictit.org/markets/detail/7456";
+
+  return findDutchBooks([
+    dummyOutcome("polymarket", "pres-2024", "Presidential Election Winner 2024", "Donald Trump", polyUrl, dummyQuote(51, 53)),
+    dummyOutcome("polymarket", "pres-2024", "Presidential Election Winner 2024", "Kamala Harris", polyUrl, dummyQuote(46, 48)),
+    dummyOutcome("polymarket", "pres-2024", "Presidential Election Winner 2024", "Other", polyUrl, dummyQuote(0.9, 1.2)),
+    dummyOutcome("kalshi", "PRES-2024", "Who will win the 2024 presidential election?", "Trump", kalshiUrl, dummyQuote(57, 59)),
+    dummyOutcome("kalshi", "PRES-2024", "Who will win the 2024 presidential election?", "Harris", kalshiUrl, dummyQuote(40, 42)),
+    dummyOutcome("kalshi", "PRES-2024", "Who will win the 2024 presidential election?", "Other", kalshiUrl, dummyQuote(1, 2)),
+    dummyOutcome("predictit", "7456", "Which party will win the 2024 US presidential election?", "Republican", predictItUrl, dummyQuote(55, 57)),
+    dummyOutcome("predictit", "7456", "Which party will win the 2024 US presidential election?", "Democratic", predictItUrl, dummyQuote(44, 46)),
+  ]);
+}
@@ -0,0 +1,144 @@
+// ============================================
+// ORDER BOOK DEPTH ANALYSIS
+// ============================================
+//
+// Pure book walking, apart from the fetch code in orderbook.ts so the demo
+// data can be built in the browser.
+
+import {
+  DepthAnalysis,
+  DepthPoint,
+  Hedge,
+  HedgeLeg,
+  OrderBook,
+  OrderBookLevel,
+  UnifiedMarket,
+} from "@/types";
+import { calculateHedgeProfit } from "@/utils/fees";
+import { nativeSide } from "@/utils/polarity";
+import { VENUE_POSITION_LIMITS } from "@/utils/venues/schedules";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Stop walking the books here even if they are still profitable
+const MAX_WALK_SIZE = 100_000;
+
+// ============================================
+// DEPTH ANALYSIS
+// ============================================
+
+// Walk the YES asks of one venue against the NO asks of the other, buying
+// matched pairs while each extra pair still costs less than it pays out.
+export function analyzeDepth(
+  hedge: Hedge,
+  yesAsks: OrderBookLevel[],
+  noAsks: OrderBookLevel[]
+): DepthAnalysis {
+  const curve: DepthPoint[] = [];
+  let size = 0;
+  let yesCost = 0;
+  let noCost = 0;
+  let i = 0;
+  let j = 0;
+  let yesLeft = yesAsks[0]?.size ?? 0;
+  let noLeft = noAsks[0]?.size ?? 0;
+
+  while (i < yesAsks.length && j < noAsks.length && size < MAX_WALK_SIZE) {
+    const yesLevel = yesAsks[i];
+    const noLevel = noAsks[j];
+    if (yesLevel.price + noLevel.price >= hedge.payout) break;
+
+    // Empty levels fill nothing; step past them rather than pricing a zero fill
+    const chunk = Math.min(yesLeft, noLeft, MAX_WALK_SIZE - size);
+    if (!(chunk > 0)) {
+      if (!(yesLeft > 0)) yesLeft = yesAsks[++i]?.size ?? 0;
+      if (!(noLeft > 0)) noLeft = noAsks[++j]?.size ?? 0;
+      continue;
+    }
+    size += chunk;
+    yesCost += yesLevel.price * chunk;
+    noCost += noLevel.price * chunk;
+    yesLeft -= chunk;
+    noLeft -= chunk;
+
+    // Price the cumulative fill as one hedge at the volume-weighted prices
+    const fillHedge: Hedge = {
+      ...hedge,
+      yesLeg: { ...hedge.yesLeg, price: yesCost / size },
+      noLeg: { ...hedge.noLeg, price: noCost / size },
+      totalCost: (yesCost + noCost) / size,
+      edge: hedge.payout - (yesCost + noCost) / size,
+    };
+    curve.push({
+      size,
+      fillCost: fillHedge.totalCost,
+      yesPrice: fillHedge.yesLeg.price,
+      netProfit: calculateHedgeProfit(fillHedge, size).netProfit,
+    });
+
+    if (yesLeft <= 0) yesLeft = yesAsks[++i]?.size ?? 0;
+    if (noLeft <= 0) noLeft = noAsks[++j]?.size ?? 0;
+  }
+
+  // Nothing filled: no curve, and no fill prices to average
+  if (size === 0) {
+    return { maxSize: 0, fillCost: hedge.totalCost, maxProfit: 0, bestSize: 0, curve };
+  }
+
+  const profitable = curve.filter((p) => p.netProfit > 0);
+  const last = profitable[profitable.length - 1];
+  const best = profitable.reduce<DepthPoint | null>(
+    (top, p) => (!top || p.netProfit > top.netProfit ? p : top),
+    null
+  );
+
+  return {
+    maxSize: last?.size ?? 0,
+    fillCost: last?.fillCost ?? hedge.totalCost,
+    maxProfit: best?.netProfit ?? 0,
+    bestSize: best?.size ?? 0,
+    curve,
+  };
+}
+
+// Trim a ladder to what one account may hold under a venue's position cap
+export function capToPositionLimit(
+  levels: OrderBookLevel[],
+  limitDollars: number | undefined
+): OrderBookLevel[] {
+  if (limitDollars === undefined) return levels;
+
+  const capped: OrderBookLevel[] = [];
+  let budget = limitDollars;
+  for (const level of levels) {
+    const affordable = Math.floor(budget / (level.price / 100));
+    if (affordable <= 0) break;
+    const size = Math.min(level.size, affordable);
+    capped.push({ ...level, size });
+    budget -= (size * level.price) / 100;
+  }
+  return capped;
+}
+
+// Books are in the venue's own frame; an inverted listing's NO is our YES
+function asksFor(market: UnifiedMarket, book: OrderBook, leg: HedgeLeg): OrderBookLevel[] {
+  const side = nativeSide(leg, market.quotes[leg.venue]?.polarity);
+  const asks = side === "yes" ? book.yesAsks : book.noAsks;
+  return capToPositionLimit(asks, VENUE_POSITION_LIMITS[leg.venue]);
+}
+
+// Depth of a market's best hedge given the books of its two legs
+export function depthFromBooks(
+  market: UnifiedMarket,
+  hedge: Hedge,
+  yesBook: OrderBook,
+  noBook: OrderBook
+): DepthAnalysis {
+  return analyzeDepth(
+    hedge,
+    asksFor(market, yesBook, hedge.yesLeg),
+    asksFor(market, noBook, hedge.noLeg)
+  );
+}
@@ -0,0 +1,244 @@
+// ============================================
+// DUTCH BOOK DETECTION (MUTUALLY EXCLUSIVE OUTCOME SETS)
+// ============================================
+
+import {
+  DutchBook,
+  DutchBookLeg,
+  NormalizedMarket,
+  OutcomeSet,
+  Venue,
+} from "@/types";
+import { calculateBasketProfit } from "@/utils/fees";
+import { HEDGE_PAYOUT, extractKeywords, normalizeEventName } from "@/utils/normalize";
+import { VENUE_ORDER } from "@/utils/venues/labels";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Event titles on different venues must be at least this similar
+const TITLE_SCORE_FLOOR = 0.4;
+
+// "Trump" vs "Donald Trump" scores 0.5; anything lower is a different outcome
+const LABEL_SCORE_FLOOR = 0.5;
+
+// Share of an event's outcomes that must line up before two venues' events
+// are treated as the same question
+const MIN_ALIGNED_SHARE = 0.5;
+
+// Catch-all outcomes ("Other", "Field", "Someone else") that make a listed
+// set exhaustive. Venues' exclusivity flags only promise that at most one
+// outcome wins, not that one must.
+const FIELD_OUTCOME = /^(?:any |an)?other\b|^(?:the )?field\b|^someone else\b|^none of the above\b|^no ?one\b|^nobody\b/i;
+
+// ============================================
+// OUTCOME SETS
+// ============================================
+
+// Group listings back into their events. Only events whose markets are
+// mutually exclusive and have at least two open outcomes qualify.
+export function buildOutcomeSets(markets: NormalizedMarket[]): OutcomeSet[] {
+  const sets = new Map<string, OutcomeSet>();
+
+  for (const market of markets) {
+    if (!market.exclusive) continue;
+
+    const key = `${market.venue}:${market.eventId}`;
+    const set = sets.get(key) ?? {
+      venue: market.venue,
+      eventId: market.eventId,
+      title: market.eventTitle,
+      outcomes: [],
+    };
+    set.outcomes.push(market);
+    sets.set(key, set);
+  }
+
+  return Array.from(sets.values()).filter((s) => s.outcomes.length > 1);
+}
+
+// ============================================
+// ALIGNMENT
+// ============================================
+
+function jaccard(a: string[], b: string[]): number {
+  const union = new Set([...a, ...b]);
+  if (union.size === 0) return 0;
+  return a.filter((w) => b.includes(w)).length / union.size;
+}
+
+function labelScore(a: string, b: string): number {
+  if (normalizeEventName(a) === normalizeEventName(b)) return 1;
+  return jaccard(extractKeywords(a), extractKeywords(b));
+}
+
+// One-to-one pairing of outcomes, best label matches first. Returns, for each
+// outcome of `anchor`, the index of its counterpart in `other` (or -1).
+export function alignOutcomes(anchor: OutcomeSet, other: OutcomeSet): number[] {
+  const pairs: { i: number; j: number; score: number }[] = [];
+  anchor.outcomes.forEach((a, i) => {
+    other.outcomes.forEach((b, j) => {
+      const score = labelScore(a.outcomeLabel, b.outcomeLabel);
+      if (score >= LABEL_SCORE_FLOOR) pairs.push({ i, j, score });
+    });
+  });
+  pairs.sort((x, y) => y.score - x.score);
+
+  const alignment = anchor.outcomes.map(() => -1);
+  const taken = new Set<number>();
+  for (const { i, j } of pairs) {
+    if (alignment[i] !== -1 || taken.has(j)) continue;
+    alignment[i] = j;
+    taken.add(j);
+  }
+
+  return alignment;
+}
+
+function isSameQuestion(anchor: OutcomeSet, other: OutcomeSet, alignment: number[]): boolean {
+  const titleScore = jaccard(extractKeywords(anchor.title), extractKeywords(other.title));
+  const aligned = alignment.filter((j) => j !== -1).length;
+  return (
+    titleScore >= TITLE_SCORE_FLOOR &&
+    aligned / Math.max(anchor.outcomes.length, other.outcomes.length) >= MIN_ALIGNED_SHARE
+  );
+}
+
+// Each outcome of the anchor event with every venue's listing of it
+interface AlignedGroup {
+  anchor: OutcomeSet;
+  members: OutcomeSet[];
+  outcomes: NormalizedMarket[][];
+}
+
+// Anchor on each venue's events in display order and pull in the matching
+// event from every other venue, at most one per venue.
+function groupOutcomeSets(sets: OutcomeSet[]): AlignedGroup[] {
+  const ordered = [...sets].sort(
+    (a, b) => VENUE_ORDER.indexOf(a.venue) - VENUE_ORDER.indexOf(b.venue)
+  );
+  const used = new Set<OutcomeSet>();
+  const groups: AlignedGroup[] = [];
+
+  for (const anchor of ordered) {
+    if (used.has(anchor)) continue;
+    used.add(anchor);
+
+    const group: AlignedGroup = {
+      anchor,
+      members: [anchor],
+      outcomes: anchor.outcomes.map((o) => [o]),
+    };
+    const venuesTaken = new Set<Venue>([anchor.venue]);
+
+    for (const other of ordered) {
+      if (used.has(other) || venuesTaken.has(other.venue)) continue;
+
+      const alignment = alignOutcomes(anchor, other);
+      if (!isSameQuestion(anchor, other, alignment)) continue;
+
+      used.add(other);
+      venuesTaken.add(other.venue);
+      group.members.push(other);
+      alignment.forEach((j, i) => {
+        if (j !== -1) group.outcomes[i].push(other.outcomes[j]);
+      });
+    }
+
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+// ============================================
+// BASKETS
+// ============================================
+
+// An event is exhaustive when one of its outcomes covers everything unlisted
+export function isExhaustive(set: OutcomeSet): boolean {
+  return set.outcomes.some((o) => FIELD_OUTCOME.test(o.outcomeLabel.trim()));
+}
+
+// Venues whose own event lists exactly the anchor's outcomes, catch-all
+// included. Only their legs can be combined into a YES basket that must pay.
+function exhaustiveVenues(group: AlignedGroup): Set<Venue> {
+  const venues = new Set<Venue>();
+  for (const member of group.members) {
+    const sameOutcomes =
+      member.outcomes.length === group.anchor.outcomes.length &&
+      group.outcomes.every((listings) => listings.some((l) => l.venue === member.venue));
+    if (sameOutcomes && isExhaustive(member)) venues.add(member.venue);
+  }
+  return venues;
+}
+
+// Cheapest ask for one side of every outcome. A YES basket only pays out for
+// sure when the outcomes are exhaustive; a NO basket only needs them to be
+// mutually exclusive.
+function cheapestBasket(group: AlignedGroup, side: "yes" | "no"): DutchBook | null {
+  const legs: DutchBookLeg[] = [];
+
+  for (const listings of group.outcomes) {
+    let best: DutchBookLeg | null = null;
+    for (const listing of listings) {
+      const price = side === "yes" ? listing.quote.yesAsk : listing.quote.noAsk;
+      if (price === null || (best && best.price <= price)) continue;
+      best = {
+        outcome: listing.outcomeLabel,
+        venue: listing.venue,
+        marketId: listing.marketId,
+        side,
+        price,
+        url: listing.url,
+      };
+    }
+    // A missing leg leaves the basket uncovered
+    if (!best) return null;
+    legs.push(best);
+  }
+
+  const cost = Math.round(legs.reduce((sum, l) => sum + l.price, 0) * 10) / 10;
+  const payout = side === "yes" ? HEDGE_PAYOUT : (legs.length - 1) * HEDGE_PAYOUT;
+  const edge = Math.round((payout - cost) * 10) / 10;
+  const profit = calculateBasketProfit(legs, cost, edge);
+  const exhaustive = exhaustiveVenues(group);
+
+  return {
+    id: `dutch-${side}-${group.members.map((m) => `${m.venue}:${m.eventId}`).join("-")}`,
+    title: group.anchor.title,
+    category: group.anchor.outcomes[0].category,
+    side,
+    guaranteed: side === "no" || legs.every((l) => exhaustive.has(l.venue)),
+    legs,
+    cost,
+    payout,
+    edge,
+    netProfit: profit.netProfit,
+    netROI: profit.netROI,
+    venues: VENUE_ORDER.filter((v) => legs.some((l) => l.venue === v)),
+  };
+}
+
+// ============================================
+// MAIN DETECTION FUNCTION
+// ============================================
+
+// Every complete YES and NO basket. Guaranteed baskets rank first, best net
+// profit first; the rest trail them for reference.
+export function findDutchBooks(markets: NormalizedMarket[]): DutchBook[] {
+  const books: DutchBook[] = [];
+
+  for (const group of groupOutcomeSets(buildOutcomeSets(markets))) {
+    for (const side of ["yes", "no"] as const) {
+      const book = cheapestBasket(group, side);
+      if (book) books.push(book);
+    }
+  }
+
+  return books.sort(
+    (a, b) =>
+      Number(b.guaranteed) - Number(a.guaranteed) || b.netProfit - a.netProfit || b.edge - a.edge
+  );
+}
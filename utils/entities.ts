@@ -0,0 +1,245 @@
+// ============================================
+// STRUCTURED ENTITY EXTRACTION FOR MATCHING
+// ============================================
+
+import { EntityComparison, MarketEntities, Threshold } from "@/types";
+
+// ============================================
+// DICTIONARIES
+// ============================================
+
+// Canonical name → how titles refer to them
+const PEOPLE: Record<string, string[]> = {
+  trump: ["trump", "djt"],
+  biden: ["biden"],
+  harris: ["harris", "kamala"],
+  vance: ["vance"],
+  walz: ["walz"],
+  desantis: ["desantis"],
+  haley: ["haley"],
+  newsom: ["newsom"],
+  obama: ["obama"],
+  kennedy: ["kennedy", "rfk"],
+  pence: ["pence"],
+  ramaswamy: ["ramaswamy", "vivek"],
+  whitmer: ["whitmer"],
+  shapiro: ["shapiro"],
+  buttigieg: ["buttigieg"],
+  "ocasio-cortez": ["ocasio cortez", "aoc"],
+  sanders: ["sanders", "bernie"],
+  powell: ["powell"],
+  rubio: ["rubio"],
+  pelosi: ["pelosi"],
+  schumer: ["schumer"],
+  mcconnell: ["mcconnell"],
+  musk: ["musk"],
+};
+
+const PARTIES: Record<string, string[]> = {
+  republican: ["republican", "republicans", "gop", "rnc"],
+  democrat: ["democrat", "democrats", "democratic", "dnc"],
+  libertarian: ["libertarian"],
+  green: ["green party"],
+  independent: ["independent", "third party"],
+};
+
+// Checked in order, and each match is blanked out, so "vice president" and
+// "white house" are claimed before "president" and "house" can see them
+const OFFICES: [string, string[]][] = [
+  ["vice president", ["vice president", "vp", "running mate"]],
+  ["president", ["president", "presidency", "presidential", "white house"]],
+  ["speaker", ["speaker"]],
+  ["senate", ["senate", "senator", "senators"]],
+  ["house", ["house", "congressional district", "representatives"]],
+  ["governor", ["governor", "gubernatorial"]],
+  ["mayor", ["mayor", "mayoral"]],
+  ["attorney general", ["attorney general"]],
+  ["secretary of state", ["secretary of state"]],
+  ["supreme court", ["supreme court", "scotus"]],
+  ["fed chair", ["fed chair", "federal reserve chair"]],
+];
+
+const STATES: Record<string, string> = {
+  alabama: "AL", alaska: "AK", arizona: "AZ", arkansas: "AR", california: "CA",
+  colorado: "CO", connecticut: "CT", delaware: "DE", florida: "FL", georgia: "GA",
+  hawaii: "HI", idaho: "ID", illinois: "IL", indiana: "IN", iowa: "IA",
+  kansas: "KS", kentucky: "KY", louisiana: "LA", maine: "ME", maryland: "MD",
+  massachusetts: "MA", michigan: "MI", minnesota: "MN", mississippi: "MS", missouri: "MO",
+  montana: "MT", nebraska: "NE", nevada: "NV", "new hampshire": "NH", "new jersey": "NJ",
+  "new mexico": "NM", "new york": "NY", "north carolina": "NC", "north dakota": "ND", ohio: "OH",
+  oklahoma: "OK", oregon: "OR", pennsylvania: "PA", "rhode island": "RI", "south carolina": "SC",
+  "south dakota": "SD", tennessee: "TN", texas: "TX", utah: "UT", vermont: "VT",
+  virginia: "VA", washington: "WA", "west virginia": "WV", wisconsin: "WI", wyoming: "WY",
+  "district of columbia": "DC", "washington dc": "DC",
+};
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+// Words before a month that make "may" a month rather than a verb
+const MONTH_CUES = new Set(["in", "by", "before", "after", "on", "of", "end", "until"]);
+
+const ABOVE = ["above", "over", "more than", "greater than", "at least", "exceed", "exceeds", "higher than", ">", ">="];
+const BELOW = ["below", "under", "less than", "fewer than", "lower than", "at most", "<", "<="];
+
+const SCALE: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  million: 1e6,
+  b: 1e9,
+  billion: 1e9,
+  trillion: 1e12,
+};
+
+const THRESHOLD_PATTERN = new RegExp(
+  "(" + [...ABOVE, ...BELOW].map((w) => w.replace(/[>=<]/g, "\\$&")).join("|") + ")?" +
+    "\\s*(\\$)?(\\d+(?:,\\d{3})*(?:\\.\\d+)?)\\s*" +
+    "(%|percent|bps|basis points|k|thousand|million|m|billion|b|trillion)?(?![a-z0-9])",
+  "g"
+);
+
+// ============================================
+// EXTRACTION
+// ============================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Find each alias as whole words, blanking matches so shorter aliases that
+// overlap them ("virginia" in "west virginia") can't match again
+function takeMatches(text: { value: string }, aliases: string[]): boolean {
+  let found = false;
+  const sorted = [...aliases].sort((a, b) => b.length - a.length);
+  for (const alias of sorted) {
+    const pattern = new RegExp(`(^|\\s)${escapeRegExp(alias)}(?=\\s|$)`, "g");
+    if (pattern.test(text.value)) {
+      found = true;
+      text.value = text.value.replace(pattern, (m) => " ".repeat(m.length));
+    }
+  }
+  return found;
+}
+
+// Numeric lines in lowercased text; polarity reads their directions too
+export function extractThresholds(raw: string): Threshold[] {
+  const thresholds: Threshold[] = [];
+  const pattern = new RegExp(THRESHOLD_PATTERN.source, "g");
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(raw)) !== null) {
+    const [, directionWord, dollar, digits, unitWord] = match;
+    if (!digits) continue;
+
+    const value = parseFloat(digits.replace(/,/g, ""));
+    const direction = directionWord
+      ? ABOVE.includes(directionWord) ? "above" : "below"
+      : null;
+
+    let unit: Threshold["unit"] = dollar ? "$" : "";
+    if (unitWord === "%" || unitWord === "percent") unit = "%";
+    if (unitWord === "bps" || unitWord === "basis points") unit = "bps";
+
+    // Bare numbers are years, days or counts, not thresholds
+    if (!direction && unit === "") continue;
+    if (unit === "" && !unitWord && value >= 1900 && value <= 2100) continue;
+
+    thresholds.push({
+      value: unitWord && SCALE[unitWord] ? value * SCALE[unitWord] : value,
+      unit,
+      direction,
+    });
+  }
+
+  return thresholds;
+}
+
+// Structured facts from one or more pieces of title text (e.g. an event
+// title and one of its market names)
+export function extractEntities(...texts: string[]): MarketEntities {
+  const raw = texts.join(" ").toLowerCase();
+  const text = {
+    value: raw.replace(/[^a-z0-9\s-]/g, " ").replace(/-/g, " ").replace(/\s+/g, " ").trim(),
+  };
+
+  const pick = (dictionary: [string, string[]][]) =>
+    dictionary.filter(([, aliases]) => takeMatches(text, aliases)).map(([name]) => name);
+
+  const offices = pick(OFFICES);
+  const people = pick(Object.entries(PEOPLE));
+  const parties = pick(Object.entries(PARTIES));
+  const states = Array.from(
+    new Set(
+      Object.entries(STATES)
+        .sort(([a], [b]) => b.length - a.length)
+        .filter(([name]) => takeMatches(text, [name]))
+        .map(([, code]) => code)
+    )
+  );
+
+  const tokens = raw.replace(/[^a-z0-9\s]/g, " ").split(/\s+/);
+  const months = new Set<number>();
+  tokens.forEach((token, i) => {
+    const month = MONTHS.indexOf(token);
+    if (month === -1) return;
+    if (token === "may" && !MONTH_CUES.has(tokens[i - 1]) && !/^\d/.test(tokens[i + 1] ?? "")) {
+      return;
+    }
+    months.add(month + 1);
+  });
+
+  const years = new Set<number>();
+  for (const match of raw.match(/\b20\d{2}\b/g) ?? []) years.add(parseInt(match, 10));
+
+  return {
+    people,
+    parties,
+    states,
+    offices,
+    years: Array.from(years),
+    months: Array.from(months),
+    thresholds: extractThresholds(raw),
+  };
+}
+
+// ============================================
+// COMPARISON
+// ============================================
+
+function sameThreshold(a: Threshold, b: Threshold): boolean {
+  const unitsAgree = a.unit === b.unit || a.unit === "" || b.unit === "";
+  return unitsAgree && Math.abs(a.value - b.value) < 1e-9 * Math.max(1, Math.abs(a.value));
+}
+
+// Fields both titles mention either agree (share a value) or contradict
+// (share none). A field only one title mentions says nothing. Opposite
+// directions on the same threshold are a complement, which polarity handles.
+export function compareEntities(a: MarketEntities, b: MarketEntities): EntityComparison {
+  const agreements: string[] = [];
+  const contradictions: string[] = [];
+
+  const sets: [string, (string | number)[], (string | number)[]][] = [
+    ["people", a.people, b.people],
+    ["parties", a.parties, b.parties],
+    ["states", a.states, b.states],
+    ["offices", a.offices, b.offices],
+    ["years", a.years, b.years],
+    ["months", a.months, b.months],
+  ];
+
+  for (const [field, left, right] of sets) {
+    if (left.length === 0 || right.length === 0) continue;
+    if (left.some((v) => right.includes(v))) agreements.push(field);
+    else contradictions.push(field);
+  }
+
+  if (a.thresholds.length > 0 && b.thresholds.length > 0) {
+    const shared = a.thresholds.some((x) => b.thresholds.some((y) => sameThreshold(x, y)));
+    (shared ? agreements : contradictions).push("thresholds");
+  }
+
+  return { agreements, contradictions };
+}
@@ -0,0 +1,267 @@
+// ============================================
+// TABLE EXPORT (CSV, JSON, XLSX)
+// ============================================
+
+import { ExportFormat, ExportMetadata, UnifiedMarket, Venue } from "@/types";
+import { categoryLabel } from "@/utils/categories";
+import { VENUE_LABELS, VENUE_ORDER } from "@/utils/venues/labels";
+import { createZip } from "@/utils/zip";
+
+type Cell = string | number | boolean | null;
+
+interface ExportColumn {
+  header: string;
+  value: (market: UnifiedMarket) => Cell;
+}
+
+// ============================================
+// COLUMNS
+// ============================================
+
+function venueColumns(venue: Venue): ExportColumn[] {
+  const label = VENUE_LABELS[venue];
+  const quote = (m: UnifiedMarket) => m.quotes[venue];
+  return [
+    { header: `${label} Market ID`, value: (m) => quote(m)?.marketId ?? null },
+    { header: `${label} Title`, value: (m) => quote(m)?.eventName ?? null },
+    { header: `${label} URL`, value: (m) => quote(m)?.url ?? null },
+    { header: `${label} Price`, value: (m) => quote(m)?.price ?? null },
+    { header: `${label} YES Bid`, value: (m) => quote(m)?.quote.yesBid ?? null },
+    { header: `${label} YES Ask`, value: (m) => quote(m)?.quote.yesAsk ?? null },
+    { header: `${label} NO Bid`, value: (m) => quote(m)?.quote.noBid ?? null },
+    { header: `${label} NO Ask`, value: (m) => quote(m)?.quote.noAsk ?? null },
+    { header: `${label} Volume`, value: (m) => quote(m)?.volume ?? null },
+    { header: `${label} Polarity`, value: (m) => quote(m)?.polarity ?? null },
+    { header: `${label} End Date`, value: (m) => quote(m)?.resolution.endDate ?? null },
+    { header: `${label} Updated`, value: (m) => quote(m)?.updatedAt ?? null },
+  ];
+}
+
+// Flat columns for spreadsheets; JSON exports keep the full objects
+const COLUMNS: ExportColumn[] = [
+  { header: "ID", value: (m) => m.id },
+  { header: "Event", value: (m) => m.eventName },
+  { header: "Category", value: (m) => categoryLabel(m.category) },
+  ...VENUE_ORDER.flatMap(venueColumns),
+  { header: "Spread", value: (m) => m.spread },
+  { header: "Spread %", value: (m) => m.spreadPercent },
+  { header: "Buy YES On", value: (m) => (m.arbitrageDirection ? VENUE_LABELS[m.arbitrageDirection.buyYes] : null) },
+  { header: "Buy NO On", value: (m) => (m.arbitrageDirection ? VENUE_LABELS[m.arbitrageDirection.buyNo] : null) },
+  { header: "YES Leg Price", value: (m) => m.hedge?.yesLeg.price ?? null },
+  { header: "NO Leg Price", value: (m) => m.hedge?.noLeg.price ?? null },
+  { header: "Pair Cost", value: (m) => m.hedge?.totalCost ?? null },
+  { header: "Edge", value: (m) => m.hedge?.edge ?? null },
+  { header: "Gross Profit", value: (m) => m.grossProfit },
+  { header: "Fees", value: (m) => m.fees.reduce((sum, f) => sum + f.total, 0) },
+  { header: "Net Profit", value: (m) => m.netProfit },
+  { header: "Net ROI %", value: (m) => m.netROI },
+  { header: "Resolves", value: (m) => m.endDate },
+  { header: "Days to Resolution", value: (m) => m.daysToResolution },
+  { header: "Annualized ROI %", value: (m) => m.annualizedROI },
+  { header: "Lockup Cost", value: (m) => m.lockupCost },
+  { header: "Has Arbitrage", value: (m) => m.hasArbitrage },
+  { header: "Max Size", value: (m) => m.depth?.maxSize ?? null },
+  { header: "Fill Cost", value: (m) => m.depth?.fillCost ?? null },
+  { header: "Max Profit", value: (m) => m.depth?.maxProfit ?? null },
+  { header: "Best Size", value: (m) => m.depth?.bestSize ?? null },
+  { header: "Match Score", value: (m) => m.matchScore },
+  { header: "Match Confidence", value: (m) => m.matchConfidence },
+  { header: "Score Margin", value: (m) => m.scoreMargin },
+  { header: "Runner-up", value: (m) => (m.runnerUp ? `${VENUE_LABELS[m.runnerUp.venue]}: ${m.runnerUp.eventName}` : null) },
+  { header: "Resolution Risk", value: (m) => m.resolution.risk },
+];
+
+// Venues with no listing in the export would only add empty columns
+function columnsFor(markets: UnifiedMarket[]): ExportColumn[] {
+  const missing = VENUE_ORDER.filter((v) => !markets.some((m) => m.quotes[v])).map((v) => VENUE_LABELS[v]);
+  return COLUMNS.filter((c) => !missing.some((label) => c.header.startsWith(`${label} `)));
+}
+
+function metadataRows(meta: ExportMetadata): [string, Cell][] {
+  return [
+    ["Exported", meta.exportedAt],
+    ["Scanned", meta.scannedAt],
+    ["Source", meta.source],
+    ["Demo Data", meta.usedDummy],
+    ["Rows", meta.rows],
+    ["Selection Only", meta.selection],
+    ["Sort", `${meta.sort.field} ${meta.sort.direction}`],
+    ["Filters", describeFilters(meta)],
+  ];
+}
+
+function describeFilters({ filters }: ExportMetadata): string {
+  const parts = [
+    filters.showOnlyArbitrage ? "arbitrage only" : null,
+    filters.hideResolutionRisk ? "no resolution risk" : null,
+    filters.minSpread > 0 ? `spread ≥ ${filters.minSpread}%` : null,
+    filters.category !== "all" ? categoryLabel(filters.category) : null,
+    filters.searchQuery ? `"${filters.searchQuery}"` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "none";
+}
+
+// ============================================
+// CSV + JSON
+// ============================================
+
+// Spreadsheets run CSV text starting with these as a formula; titles and
+// search queries come from venues and users, so they're pinned to plain text.
+// XLSX inline strings are never evaluated, so they're written as-is.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function defuseFormula(text: string): string {
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+}
+
+function csvCell(value: Cell): string {
+  if (value === null) return "";
+  const text = typeof value === "string" ? defuseFormula(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Metadata comes first as "# key: value" lines, then a blank line
+export function toCsv(markets: UnifiedMarket[], meta: ExportMetadata): string {
+  const columns = columnsFor(markets);
+  const lines = [
+    ...metadataRows(meta).map(([key, value]) => `# ${key}: ${value ?? ""}`),
+    "",
+    columns.map((c) => csvCell(c.header)).join(","),
+    ...markets.map((m) => columns.map((c) => csvCell(c.value(m))).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function toJson(markets: UnifiedMarket[], meta: ExportMetadata): string {
+  return JSON.stringify({ metadata: meta, markets }, null, 2);
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "") // Not allowed in XML
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 0 → A, 25 → Z, 26 → AA
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Style 1 is bold, for header cells
+function xmlCell(value: Cell, ref: string, bold = false): string {
+  const style = bold ? ' s="1"' : "";
+  if (value === null) return "";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : "";
+  }
+  if (typeof value === "boolean") return `<c r="${ref}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(rows: Cell[][], boldFirstRow: boolean): string {
+  const body = rows
+    .map((row, r) => {
+      const cells = row.map((value, c) => xmlCell(value, `${columnName(c)}${r + 1}`, boldFirstRow && r === 0));
+      return `<row r="${r + 1}">${cells.join("")}</row>`;
+    })
+    .join("");
+  // The header row stays in view while scrolling
+  const freeze = boldFirstRow
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : "";
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${freeze}<sheetData>${body}</sheetData></worksheet>`;
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+// Two sheets: the rows, then the metadata
+export function toXlsx(markets: UnifiedMarket[], meta: ExportMetadata): Uint8Array {
+  const columns = columnsFor(markets);
+  const sheets = [
+    { name: "Markets", xml: sheetXml([columns.map((c) => c.header), ...markets.map((m) => columns.map((c) => c.value(m)))], true) },
+    { name: "Metadata", xml: sheetXml(metadataRows(meta), false) },
+  ];
+
+  const files: Record<string, string> = {
+    "[Content_Types].xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets
+  .map(
+    (_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  )
+  .join("\n")}
+</Types>`,
+    "_rels/.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    "xl/workbook.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${sheets.map((s, i) => `<sheet name="${s.name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")}</sheets>
+</workbook>`,
+    "xl/_rels/workbook.xml.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets
+  .map(
+    (_, i) =>
+      `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+  )
+  .join("\n")}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    "xl/styles.xml": STYLES_XML,
+  };
+  sheets.forEach((s, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = s.xml;
+  });
+
+  const encoder = new TextEncoder();
+  return createZip(Object.entries(files).map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+}
+
+// ============================================
+// DOWNLOAD
+// ============================================
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  json: "application/json",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export function exportMarkets(
+  markets: UnifiedMarket[],
+  meta: ExportMetadata,
+  format: ExportFormat
+): { filename: string; blob: Blob } {
+  const body = format === "csv" ? toCsv(markets, meta) : format === "json" ? toJson(markets, meta) : toXlsx(markets, meta);
+  const stamp = (meta.scannedAt ?? meta.exportedAt).slice(0, 19).replace(/:/g, "-");
+  return {
+    filename: `arb-scanner-${stamp}.${format}`,
+    blob: new Blob([body as BlobPart], { type: MIME_TYPES[format] }),
+  };
+}
@@ -0,0 +1,161 @@
+// ============================================
+// VENUE FEE SCHEDULES & NET PROFIT MODEL
+// ============================================
+
+import { DutchBookLeg, FeeSchedule, Hedge, HedgeProfit, Venue, VenueFees } from "@/types";
+import { REFERENCE_TRADE_SIZE } from "@/utils/format";
+import { VENUE_FEES } from "@/utils/venues/schedules";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Annual return (percent) the capital could earn elsewhere. A pair that ties
+// money up until resolution forgoes this; 0 turns the lockup cost off. Read
+// on the server; the browser gets it with the markets snapshot.
+const hurdleEnv = parseFloat(process.env.HURDLE_RATE ?? "");
+export const HURDLE_RATE = Number.isFinite(hurdleEnv) && hurdleEnv >= 0 ? hurdleEnv : 5;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Annualizing over less than a day makes every near-expiry pair look infinite
+export const MIN_HOLD_DAYS = 1;
+
+// ============================================
+// SCHEDULES
+// ============================================
+
+// Each venue has a default schedule; overrides take precedence
+const overrides: Partial<Record<Venue, FeeSchedule>> = {};
+
+export function getFeeSchedule(venue: Venue): FeeSchedule {
+  return overrides[venue] ?? VENUE_FEES[venue];
+}
+
+// Swap in a custom schedule, e.g. for a maker rebate tier or a promo period
+export function setFeeSchedule(schedule: FeeSchedule): void {
+  overrides[schedule.venue] = schedule;
+}
+
+// ============================================
+// PROFIT CALCULATION
+// ============================================
+
+// Costs of one leg. Settlement and withdrawal only apply when this leg wins.
+function legFees(
+  venue: Venue,
+  price: number,
+  contracts: number,
+  wins: boolean
+): VenueFees {
+  const schedule = getFeeSchedule(venue);
+  const trading = schedule.tradingFee(price, contracts);
+  const gas = schedule.gasPerTrade;
+
+  let settlement = 0;
+  let withdrawal = 0;
+  if (wins) {
+    const payout = contracts;
+    const winnings = payout - (price / 100) * contracts;
+    settlement = schedule.settlementFee(winnings);
+    withdrawal = schedule.withdrawalFee(payout - settlement);
+  }
+
+  return {
+    venue,
+    trading,
+    gas,
+    settlement,
+    withdrawal,
+    total: trading + gas + settlement + withdrawal,
+  };
+}
+
+function sumFees(fees: VenueFees[]): number {
+  return fees.reduce((sum, f) => sum + f.total, 0);
+}
+
+// Profit after fees for a position costing `cost` cents per unit
+function netOfFees(
+  cost: number,
+  edge: number,
+  contracts: number,
+  fees: VenueFees[]
+): HedgeProfit {
+  const legCost = (cost / 100) * contracts;
+  const upfrontFees = fees.reduce((sum, f) => sum + f.trading + f.gas, 0);
+  const capital = legCost + upfrontFees;
+  const grossProfit = (edge / 100) * contracts;
+  const netProfit = grossProfit - sumFees(fees);
+
+  return {
+    contracts,
+    capital,
+    grossProfit,
+    netProfit,
+    netROI: capital > 0 ? (netProfit / capital) * 100 : 0,
+    fees,
+  };
+}
+
+// Net profit of holding `contracts` of both legs to settlement. We don't know
+// which leg will pay out, so the fees are those of the worse outcome.
+export function calculateHedgeProfit(
+  hedge: Hedge,
+  contracts: number = REFERENCE_TRADE_SIZE
+): HedgeProfit {
+  const { yesLeg, noLeg } = hedge;
+
+  const ifYesWins = [
+    legFees(yesLeg.venue, yesLeg.price, contracts, true),
+    legFees(noLeg.venue, noLeg.price, contracts, false),
+  ];
+  const ifNoWins = [
+    legFees(yesLeg.venue, yesLeg.price, contracts, false),
+    legFees(noLeg.venue, noLeg.price, contracts, true),
+  ];
+  const fees = sumFees(ifYesWins) >= sumFees(ifNoWins) ? ifYesWins : ifNoWins;
+
+  return netOfFees(hedge.totalCost, hedge.edge, contracts, fees);
+}
+
+// Net profit of `contracts` baskets. Exactly one outcome happens: on a YES
+// basket only its leg wins, on a NO basket every other leg does. Fees are
+// those of the worst outcome.
+export function calculateBasketProfit(
+  legs: DutchBookLeg[],
+  cost: number,
+  edge: number,
+  contracts: number = REFERENCE_TRADE_SIZE
+): HedgeProfit {
+  let fees: VenueFees[] = [];
+  for (let happens = 0; happens < legs.length; happens++) {
+    const scenario = legs.map((leg, i) =>
+      legFees(leg.venue, leg.price, contracts, leg.side === "yes" ? i === happens : i !== happens)
+    );
+    if (fees.length === 0 || sumFees(scenario) > sumFees(fees)) fees = scenario;
+  }
+
+  return netOfFees(cost, edge, contracts, fees);
+}
+
+// ============================================
+// CAPITAL LOCKUP
+// ============================================
+
+// Days from `now` until an ISO date; 0 once it has passed (the market is
+// waiting to settle), null when the date is unknown
+export function daysUntil(endDate: string | null, now: number = Date.now()): number | null {
+  const end = endDate ? Date.parse(endDate) : NaN;
+  if (Number.isNaN(end)) return null;
+  return Math.max(0, (end - now) / MS_PER_DAY);
+}
+
+// Simple (not compounded) annual rate of a return earned over `days`
+export function annualizeROI(roi: number, days: number): number {
+  return (roi * 365) / Math.max(days, MIN_HOLD_DAYS);
+}
+
+// What `capital` dollars would have earned at the hurdle rate over `days`
+export function lockupCost(capital: number, days: number, hurdleRate: number = HURDLE_RATE): number {
+  return (capital * hurdleRate * days) / 36500;
+}
@@ -0,0 +1,107 @@
+// ============================================
+// TABLE FILTERS + SORTING
+// ============================================
+
+import { FilterConfig, SortConfig, SortField, UnifiedMarket, Venue } from "@/types";
+import { VENUE_ORDER } from "@/utils/venues/labels";
+
+export const DEFAULT_FILTERS: FilterConfig = {
+  minSpread: 0,
+  showOnlyArbitrage: false,
+  hideResolutionRisk: false,
+  category: "all",
+  searchQuery: "",
+};
+
+export const DEFAULT_SORT: SortConfig = { field: "netProfit", direction: "desc" };
+
+export function applyFilters(markets: UnifiedMarket[], filters: FilterConfig): UnifiedMarket[] {
+  let result = markets;
+
+  if (filters.showOnlyArbitrage) {
+    result = result.filter((m) => m.hasArbitrage);
+  }
+  if (filters.hideResolutionRisk) {
+    result = result.filter((m) => m.resolution.risk !== "high");
+  }
+  if (filters.minSpread > 0) {
+    result = result.filter((m) => m.spreadPercent >= filters.minSpread);
+  }
+  if (filters.category !== "all") {
+    result = result.filter((m) => m.category === filters.category);
+  }
+  if (filters.searchQuery) {
+    const query = filters.searchQuery.toLowerCase();
+    result = result.filter((m) => m.eventName.toLowerCase().includes(query));
+  }
+
+  return result;
+}
+
+// Missing values are null; compareSortValues puts them last
+export function sortValue(market: UnifiedMarket, field: SortField): number | string | null {
+  switch (field) {
+    case "eventName":
+      return market.eventName;
+    case "spread":
+      return market.spread;
+    case "spreadPercent":
+      return market.spreadPercent;
+    case "edge":
+      return market.hedge?.edge ?? null;
+    case "netProfit":
+      return market.netProfit ?? null;
+    case "netROI":
+      return market.netROI ?? null;
+    case "maxSize":
+      return market.depth?.maxSize ?? null;
+    case "maxProfit":
+      return market.depth?.maxProfit ?? null;
+    case "daysToResolution":
+      return market.daysToResolution ?? null;
+    case "annualizedROI":
+      return market.annualizedROI ?? null;
+    case "lockupCost":
+      return market.lockupCost ?? null;
+    default: {
+      // Per-venue price columns: "price:<venue>"
+      const venue = field.slice("price:".length) as Venue;
+      return market.quotes[venue]?.price ?? null;
+    }
+  }
+}
+
+// Missing values go last in either direction, so an ascending sort doesn't
+// open with every market that lacks the field
+export function compareSortValues(
+  a: number | string | null,
+  b: number | string | null,
+  direction: SortConfig["direction"]
+): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  const diff =
+    typeof a === "string" && typeof b === "string" ? a.localeCompare(b) : (a as number) - (b as number);
+  return direction === "asc" ? diff : -diff;
+}
+
+// Returns a sorted copy
+export function sortMarkets(markets: UnifiedMarket[], sort: SortConfig): UnifiedMarket[] {
+  return [...markets].sort((a, b) =>
+    compareSortValues(sortValue(a, sort.field), sortValue(b, sort.field), sort.direction)
+  );
+}
+
+export const SORT_FIELDS: SortField[] = [
+  "eventName",
+  ...VENUE_ORDER.map((v) => `price:${v}` as const),
+  "spread",
+  "spreadPercent",
+  "edge",
+  "netProfit",
+  "netROI",
+  "maxSize",
+  "maxProfit",
+  "daysToResolution",
+  "annualizedROI",
+  "lockupCost",
+];
@@ -0,0 +1,92 @@
+// ============================================
+// DISPLAY FORMATTERS
+// ============================================
+//
+// Kept apart from the pipeline so client components can use them without
+// pulling in fetch code.
+
+import { CrawlProgress } from "@/types";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Contracts per leg used to quote profit in the table
+export const REFERENCE_TRADE_SIZE = 100;
+
+// ============================================
+// FORMATTERS
+// ============================================
+
+export function formatPrice(price: number | null): string {
+  if (price === null) return "—";
+  return `${price}¢`;
+}
+
+export function formatUsd(amount: number | null): string {
+  if (amount === null) return "—";
+  const sign = amount < 0 ? "-" : "";
+  return `${sign}$${Math.abs(amount).toFixed(2)}`;
+}
+
+export function formatEdge(edge: number): string {
+  return `${edge > 0 ? "+" : ""}${edge.toFixed(1)}¢`;
+}
+
+export function formatSpread(spread: number): string {
+  return spread.toFixed(1);
+}
+
+export function formatSpreadPercent(percent: number): string {
+  return `${percent.toFixed(1)}%`;
+}
+
+// "crawled 2,340 / ~2,500 markets"
+export function formatCrawlProgress(progress: CrawlProgress[]): string {
+  const crawled = progress.reduce((sum, p) => sum + p.markets, 0);
+  const estimate = progress.reduce(
+    (sum, p) => sum + (p.estimatedTotal ?? p.markets),
+    0
+  );
+  const done = progress.length > 0 && progress.every((p) => p.done);
+
+  return done
+    ? `crawled ${crawled.toLocaleString()} markets`
+    : `crawled ${crawled.toLocaleString()} / ~${estimate.toLocaleString()} markets`;
+}
+
+export function formatVolume(volume: string | number | null): string {
+  if (volume === null) return "—";
+  const num = typeof volume === "string" ? parseFloat(volume) : volume;
+  if (num >= 1_000_000_000) return `$${(num / 1_000_000_000).toFixed(1)}B`;
+  if (num >= 1_000_000) return `$${(num / 1_000_000).toFixed(1)}M`;
+  if (num >= 1_000) return `$${(num / 1_000).toFixed(1)}K`;
+  return `$${num.toFixed(0)}`;
+}
+
+// "45m", "3h 20m", "2d 4h"
+export function formatDuration(minutes: number | null): string {
+  if (minutes === null) return "—";
+  const m = Math.round(minutes);
+  if (m < 60) return `${m}m`;
+  if (m < 24 * 60) return `${Math.floor(m / 60)}h ${m % 60}m`;
+  return `${Math.floor(m / (24 * 60))}d ${Math.floor((m % (24 * 60)) / 60)}h`;
+}
+
+// "6h", "12d", "2.3y"; "ended" once the end date has passed
+export function formatDays(days: number | null): string {
+  if (days === null) return "—";
+  if (days === 0) return "ended";
+  if (days < 1) return `${Math.max(1, Math.round(days * 24))}h`;
+  if (days < 730) return `${Math.round(days)}d`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+// "just now", "12s ago", "4m ago"
+export function formatAge(timestamp: string | null, now: number): string {
+  if (timestamp === null) return "—";
+  const seconds = Math.max(0, Math.round((now - Date.parse(timestamp)) / 1000));
+  if (seconds < 2) return "just now";
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${formatDuration(seconds / 60)} ago`;
+}
@@ -0,0 +1,150 @@
+// ============================================
+// SCAN HISTORY STORE (SERVER-SIDE JSONL FILE)
+// ============================================
+
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import { createInterface } from "readline";
+import {
+  HistoryRecord,
+  MarketQuote,
+  ScanRecord,
+  UnifiedMarket,
+  Venue,
+  VenueQuote,
+} from "@/types";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const HISTORY_PATH =
+  process.env.HISTORY_PATH || path.join(process.cwd(), "data", "history.jsonl");
+
+// Scans older than this many days are pruned from the file; 0 keeps them all.
+// The analytics and backtest routes read at most 90 days.
+const retentionEnv = parseFloat(process.env.HISTORY_RETENTION_DAYS ?? "");
+const RETENTION_DAYS = Number.isFinite(retentionEnv) && retentionEnv >= 0 ? retentionEnv : 90;
+
+// Pruning rewrites the file, so it runs at most this often
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================
+// LINES
+// ============================================
+
+// Every line starts with its scan time, so old lines can be skipped or
+// dropped without parsing the rest. NaN for partial lines.
+function lineTime(line: string): number {
+  const match = /^\{"scannedAt":"([^"]+)"/.exec(line);
+  return match ? Date.parse(match[1]) : NaN;
+}
+
+function historyLines(): AsyncIterable<string> {
+  return createInterface({
+    input: createReadStream(HISTORY_PATH, "utf8"),
+    crlfDelay: Infinity,
+  });
+}
+
+// ============================================
+// WRITING
+// ============================================
+
+// Only matched pairs have a spread worth charting, and keeping singles out
+// keeps each line small
+function toRecord(market: UnifiedMarket): HistoryRecord {
+  const prices: Partial<Record<Venue, number>> = {};
+  const quotes: Partial<Record<Venue, MarketQuote>> = {};
+  const endDates: string[] = [];
+  for (const quote of Object.values(market.quotes) as VenueQuote[]) {
+    prices[quote.venue] = quote.price;
+    quotes[quote.venue] = quote.quote;
+    if (quote.resolution.endDate) endDates.push(quote.resolution.endDate);
+  }
+
+  return {
+    id: market.id,
+    eventName: market.eventName,
+    category: market.category,
+    prices,
+    spreadPercent: Math.round(market.spreadPercent * 100) / 100,
+    netProfit: market.netProfit,
+    hasArbitrage: market.hasArbitrage,
+    quotes,
+    matchConfidence: market.matchConfidence,
+    resolutionRisk: market.resolution.risk,
+    endDate: endDates.sort((a, b) => Date.parse(a) - Date.parse(b))[0] ?? null,
+    maxSize: market.depth?.maxSize ?? null,
+  };
+}
+
+// Appends never rewrite earlier lines; writes and prunes run one at a time so
+// lines from overlapping scans don't interleave or get lost
+let queue: Promise<unknown> = Promise.resolve();
+let lastPrunedAt = 0;
+
+// Copy the lines inside the retention window to a temp file and rename it
+// over the history, so a crash never leaves half a file
+async function pruneHistory(now: number): Promise<void> {
+  const cutoff = now - RETENTION_DAYS * MS_PER_DAY;
+  const tmp = `${HISTORY_PATH}.tmp`;
+  const out = await fs.open(tmp, "w");
+  try {
+    for await (const line of historyLines()) {
+      if (lineTime(line) >= cutoff) await out.write(line + "\n");
+    }
+  } finally {
+    await out.close();
+  }
+  await fs.rename(tmp, HISTORY_PATH);
+}
+
+export function appendScan(markets: UnifiedMarket[], scannedAt: string): Promise<void> {
+  // scannedAt stays the first key; lineTime reads it from the line prefix
+  const record: ScanRecord = {
+    scannedAt,
+    markets: markets.filter((m) => Object.keys(m.quotes).length > 1).map(toRecord),
+  };
+
+  const run = queue.then(async () => {
+    await fs.mkdir(path.dirname(HISTORY_PATH), { recursive: true });
+    await fs.appendFile(HISTORY_PATH, JSON.stringify(record) + "\n");
+
+    const now = Date.now();
+    if (RETENTION_DAYS > 0 && now - lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      lastPrunedAt = now;
+      await pruneHistory(now);
+    }
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+// ============================================
+// READING
+// ============================================
+
+// Streams the file so a long history isn't held as one string. Lines before
+// `since` are skipped unparsed, as are lines cut short by a crash.
+export async function loadHistory(since?: Date): Promise<ScanRecord[]> {
+  try {
+    await fs.access(HISTORY_PATH);
+  } catch {
+    return [];
+  }
+
+  const scans: ScanRecord[] = [];
+  for await (const line of historyLines()) {
+    const time = lineTime(line);
+    if (Number.isNaN(time) || (since && time < since.getTime())) continue;
+    try {
+      scans.push(JSON.parse(line));
+    } catch {
+      // Partial line
+    }
+  }
+
+  return scans;
+}
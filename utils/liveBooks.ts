@@ -0,0 +1,129 @@
+// ============================================
+// LIVE ORDER BOOKS (FED BY VENUE WEBSOCKETS)
+// ============================================
+
+import { BookMessage, MarketQuote, OrderBook, OrderBookLevel, Venue } from "@/types";
+import { complement, sortAsks, validPrice } from "@/utils/normalize";
+
+// ============================================
+// STATE
+// ============================================
+
+// Bids on each side in the venue's own frame, price → size. Asks are the
+// other side's bids, so every venue fits the same shape.
+interface LiveBook {
+  yes: Map<number, number>;
+  no: Map<number, number>;
+  ready: boolean; // A snapshot has arrived; deltas before it are dropped
+  volume: number | null;
+  updatedAt: number; // Epoch ms of the last change
+}
+
+// Kept on globalThis so dev-mode module reloads don't drop the books
+const globalForBooks = globalThis as unknown as { liveBooks?: Map<string, LiveBook> };
+const books: Map<string, LiveBook> = (globalForBooks.liveBooks ??= new Map());
+
+function bookKey(venue: Venue, bookId: string): string {
+  return `${venue}:${bookId}`;
+}
+
+function toLadder(levels: OrderBookLevel[]): Map<number, number> {
+  return new Map(levels.filter((l) => l.size > 0).map((l) => [l.price, l.size]));
+}
+
+function bestBid(ladder: Map<number, number>): number | null {
+  let best: number | null = null;
+  ladder.forEach((size, price) => {
+    if (size > 0 && (best === null || price > best)) best = price;
+  });
+  return best;
+}
+
+// ============================================
+// UPDATES
+// ============================================
+
+// Apply one decoded message. Returns the changed book's id, or null when
+// nothing a quote depends on changed.
+export function applyBookMessage(venue: Venue, message: BookMessage): string | null {
+  if (message.type === "gap") return null;
+
+  const key = bookKey(venue, message.bookId);
+  let book = books.get(key);
+  if (!book) {
+    // Changes to a book we hold no snapshot of, e.g. a token we never asked for
+    if (message.type === "level" || message.type === "delta") return null;
+    book = { yes: new Map(), no: new Map(), ready: false, volume: null, updatedAt: 0 };
+    books.set(key, book);
+  }
+
+  switch (message.type) {
+    case "snapshot":
+      book.yes = toLadder(message.yesBids);
+      book.no = toLadder(message.noBids);
+      book.ready = true;
+      break;
+    case "level":
+    case "delta": {
+      if (!book.ready) return null;
+      const ladder = book[message.side];
+      const size =
+        message.type === "level"
+          ? message.size
+          : (ladder.get(message.price) ?? 0) + message.delta;
+      if (size > 0) ladder.set(message.price, size);
+      else ladder.delete(message.price);
+      break;
+    }
+    case "volume":
+      if (book.volume === message.volume) return null;
+      book.volume = message.volume;
+      break;
+  }
+
+  book.updatedAt = Date.now();
+  return book.ready ? message.bookId : null;
+}
+
+// A reconnect resubscribes from scratch, so stale books must not linger
+export function clearBooks(venue: Venue): void {
+  const prefix = `${venue}:`;
+  Array.from(books.keys()).forEach((key) => {
+    if (key.startsWith(prefix)) books.delete(key);
+  });
+}
+
+// ============================================
+// READS
+// ============================================
+
+export interface LiveBookState {
+  quote: MarketQuote; // Venue frame
+  volume: number | null;
+  updatedAt: number;
+}
+
+export function liveBook(venue: Venue, bookId: string): LiveBookState | null {
+  const book = books.get(bookKey(venue, bookId));
+  if (!book?.ready) return null;
+
+  const yesBid = validPrice(bestBid(book.yes));
+  const noBid = validPrice(bestBid(book.no));
+  return {
+    quote: { yesBid, yesAsk: complement(noBid), noBid, noAsk: complement(yesBid) },
+    volume: book.volume,
+    updatedAt: book.updatedAt,
+  };
+}
+
+// Full ask ladders for depth analysis, as the REST book fetchers return them
+export function liveOrderBook(venue: Venue, bookId: string): OrderBook | null {
+  const book = books.get(bookKey(venue, bookId));
+  if (!book?.ready) return null;
+
+  const asks = (bids: Map<number, number>) =>
+    sortAsks(
+      Array.from(bids, ([price, size]) => ({ price: complement(price) ?? 0, size }))
+    );
+  return { venue, marketId: bookId, yesAsks: asks(book.no), noAsks: asks(book.yes) };
+}
@@ -0,0 +1,361 @@
+// ============================================
+// LIVE MARKET FEED (VENUE WEBSOCKETS)
+// ============================================
+
+import WebSocket from "ws";
+import {
+  DepthAnalysis,
+  StreamStatus,
+  UnifiedMarket,
+  Venue,
+  VenueQuote,
+  VenueStream,
+} from "@/types";
+import { evaluateMarket } from "@/utils/arbitrage";
+import { depthFromBooks } from "@/utils/depth";
+import { applyBookMessage, clearBooks, liveBook, liveOrderBook } from "@/utils/liveBooks";
+import { referencePrice } from "@/utils/normalize";
+import { invertQuote } from "@/utils/polarity";
+import { getVenues } from "@/utils/venues";
+
+// ============================================
+// STATE
+// ============================================
+
+// Book changes are batched so a burst recomputes each market once
+const FLUSH_MS = 250;
+const MAX_RECONNECT_MS = 30_000;
+
+interface Connection {
+  venue: Venue;
+  stream: VenueStream;
+  bookIds: string[];
+  socket: WebSocket | null;
+  keepAlive: NodeJS.Timeout | null;
+  retry: NodeJS.Timeout | null;
+  attempts: number; // Failed connects since the last open, for backoff
+  closed: boolean; // Replaced or no longer wanted; don't reconnect
+  status: StreamStatus;
+}
+
+export interface LiveFeedListener {
+  markets: (markets: UnifiedMarket[]) => void;
+  status: (status: StreamStatus[]) => void;
+}
+
+interface FeedState {
+  markets: Map<string, UnifiedMarket>; // Streamed pairs by id, latest state
+  byBook: Map<string, string[]>; // venue:bookId → market ids
+  connections: Map<Venue, Connection>;
+  listeners: Set<LiveFeedListener>;
+  pending: Set<string>; // Market ids waiting for the next flush
+  flushTimer: NodeJS.Timeout | null;
+  unauthorized: Set<Venue>; // Venues already warned about missing credentials
+}
+
+// Kept on globalThis so dev-mode module reloads don't open duplicate sockets
+const globalForFeed = globalThis as unknown as { liveFeed?: FeedState };
+const feed: FeedState = (globalForFeed.liveFeed ??= {
+  markets: new Map(),
+  byBook: new Map(),
+  connections: new Map(),
+  listeners: new Set(),
+  pending: new Set(),
+  flushTimer: null,
+  unauthorized: new Set(),
+});
+
+function bookKey(venue: Venue, bookId: string): string {
+  return `${venue}:${bookId}`;
+}
+
+// ============================================
+// REPRICING
+// ============================================
+
+// The scan's depth only holds while the hedge it was measured for is unchanged
+function repriceDepth(previous: UnifiedMarket, market: UnifiedMarket): DepthAnalysis | null {
+  const hedge = market.hedge;
+  if (!hedge || hedge.edge <= 0) return null;
+
+  const book = (venue: Venue) => {
+    const bookId = market.quotes[venue]?.bookId;
+    return bookId ? liveOrderBook(venue, bookId) : null;
+  };
+  const yesBook = book(hedge.yesLeg.venue);
+  const noBook = book(hedge.noLeg.venue);
+  if (yesBook && noBook) return depthFromBooks(market, hedge, yesBook, noBook);
+
+  const before = previous.hedge;
+  const unchanged =
+    before !== null &&
+    before.yesLeg.venue === hedge.yesLeg.venue &&
+    before.noLeg.venue === hedge.noLeg.venue &&
+    before.totalCost === hedge.totalCost;
+  return unchanged ? previous.depth : null;
+}
+
+// Overlay live books on a market's quotes and re-run the evaluation.
+// Quotes without a live book keep their scan values.
+function applyLiveBooks(market: UnifiedMarket): UnifiedMarket {
+  const quotes: Partial<Record<Venue, VenueQuote>> = {};
+  let changed = false;
+
+  for (const q of Object.values(market.quotes) as VenueQuote[]) {
+    const book = q.bookId ? liveBook(q.venue, q.bookId) : null;
+    if (!book) {
+      quotes[q.venue] = q;
+      continue;
+    }
+
+    const quote = q.polarity === "inverted" ? invertQuote(book.quote) : book.quote;
+    quotes[q.venue] = {
+      ...q,
+      quote,
+      price: referencePrice(quote, q.price),
+      volume: book.volume ?? q.volume,
+      updatedAt: new Date(book.updatedAt).toISOString(),
+    };
+    changed = true;
+  }
+  if (!changed) return market;
+
+  const updated = evaluateMarket({ ...market, quotes }, market.resolution);
+  return { ...updated, depth: repriceDepth(market, updated) };
+}
+
+function flush(): void {
+  feed.flushTimer = null;
+  const updated: UnifiedMarket[] = [];
+
+  feed.pending.forEach((id) => {
+    const market = feed.markets.get(id);
+    if (!market) return;
+    const live = applyLiveBooks(market);
+    feed.markets.set(id, live);
+    updated.push(live);
+  });
+  feed.pending.clear();
+
+  if (updated.length > 0) notify((listener) => listener.markets(updated));
+}
+
+function notify(send: (listener: LiveFeedListener) => void): void {
+  feed.listeners.forEach((listener) => {
+    try {
+      send(listener);
+    } catch (error) {
+      console.warn("Live feed listener failed:", error);
+    }
+  });
+}
+
+// ============================================
+// CONNECTIONS
+// ============================================
+
+function handleMessage(conn: Connection, raw: string): void {
+  conn.status.lastMessageAt = new Date().toISOString();
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return; // Keep-alive replies such as "PONG"
+  }
+
+  try {
+    for (const message of conn.stream.parse(data)) {
+      if (message.type === "gap") {
+        // The close handler resubscribes, which starts from fresh snapshots
+        conn.socket?.terminate();
+        return;
+      }
+      const bookId = applyBookMessage(conn.venue, message);
+      if (bookId) feed.byBook.get(bookKey(conn.venue, bookId))?.forEach((id) => feed.pending.add(id));
+    }
+  } catch (error) {
+    console.warn(`Bad ${conn.venue} stream message:`, error);
+  }
+
+  if (feed.pending.size > 0 && !feed.flushTimer) {
+    feed.flushTimer = setTimeout(flush, FLUSH_MS);
+  }
+}
+
+function open(conn: Connection): void {
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(conn.status.url, { headers: conn.stream.headers?.() });
+  } catch (error) {
+    // Bad URL or credentials; retrying won't help
+    console.error(`Failed to open ${conn.venue} stream:`, error);
+    conn.closed = true;
+    return;
+  }
+  conn.socket = socket;
+
+  socket.on("open", () => {
+    conn.attempts = 0;
+    conn.status.connected = true;
+    for (const message of conn.stream.subscribe(conn.bookIds)) {
+      socket.send(JSON.stringify(message));
+    }
+    const keepAlive = conn.stream.keepAlive;
+    if (keepAlive) {
+      conn.keepAlive = setInterval(() => socket.send(keepAlive.message), keepAlive.intervalMs);
+    }
+    notify((listener) => listener.status(getStreamStatus()));
+  });
+
+  socket.on("message", (data) => handleMessage(conn, data.toString()));
+
+  socket.on("error", (error) => {
+    console.warn(`${conn.venue} stream error:`, error.message);
+  });
+
+  socket.on("close", () => {
+    if (conn.keepAlive) clearInterval(conn.keepAlive);
+    conn.keepAlive = null;
+    conn.socket = null;
+    conn.status.connected = false;
+    if (conn.closed) return;
+
+    clearBooks(conn.venue);
+    notify((listener) => listener.status(getStreamStatus()));
+    const delay = Math.min(MAX_RECONNECT_MS, 1000 * 2 ** conn.attempts++);
+    conn.status.reconnects++;
+    conn.retry = setTimeout(() => open(conn), delay);
+  });
+}
+
+function close(conn: Connection): void {
+  conn.closed = true;
+  if (conn.retry) clearTimeout(conn.retry);
+  conn.socket?.terminate();
+  // Cleared now: the replacement's snapshots may arrive before this closes
+  clearBooks(conn.venue);
+}
+
+function sameBooks(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+// Subscription lists are fixed per connection, so a changed set of pairs
+// reconnects with the new list
+function syncConnection(venue: Venue, stream: VenueStream, url: string, bookIds: string[]): void {
+  const existing = feed.connections.get(venue);
+  if (existing && !existing.closed && existing.status.url === url && sameBooks(existing.bookIds, bookIds)) {
+    return;
+  }
+  if (existing) close(existing);
+  feed.connections.delete(venue);
+  if (bookIds.length === 0) return;
+
+  const conn: Connection = {
+    venue,
+    stream,
+    bookIds,
+    socket: null,
+    keepAlive: null,
+    retry: null,
+    attempts: 0,
+    closed: false,
+    status: { venue, url, connected: false, books: bookIds.length, lastMessageAt: null, reconnects: 0 },
+  };
+  feed.connections.set(venue, conn);
+  open(conn);
+}
+
+// Venues with a feed, and the URL to use. Demo data only streams from an
+// overridden URL, i.e. a mock server: the real venues don't know its ids.
+// A real feed that needs credentials is skipped without them, since the venue
+// would only reject every reconnect. LIVE_STREAMS=off turns streaming off.
+function streamingVenues(demo: boolean): Map<Venue, { stream: VenueStream; url: string }> {
+  const venues = new Map<Venue, { stream: VenueStream; url: string }>();
+  if (process.env.LIVE_STREAMS === "off") return venues;
+
+  for (const adapter of getVenues()) {
+    const stream = adapter.stream;
+    if (!stream) continue;
+    const override = process.env[stream.urlEnv];
+    if (demo && !override) continue;
+    if (!override && stream.credentialed && !stream.credentialed()) {
+      if (!feed.unauthorized.has(adapter.id)) {
+        feed.unauthorized.add(adapter.id);
+        console.warn(`Not streaming ${adapter.name}: its feed needs API credentials`);
+      }
+      continue;
+    }
+    venues.set(adapter.id, { stream, url: override || stream.defaultUrl });
+  }
+  return venues;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+// Stream the books of every matched pair in a fresh scan. Returns the scan
+// with any books already live applied, so a new snapshot doesn't roll prices
+// back to what the REST crawl saw.
+export function trackMarkets(markets: UnifiedMarket[], options: { demo: boolean }): UnifiedMarket[] {
+  const venues = streamingVenues(options.demo);
+  const tracked = new Map<string, UnifiedMarket>();
+  const byBook = new Map<string, string[]>();
+  const wanted = new Map<Venue, Set<string>>();
+
+  const result = markets.map((market) => {
+    const quotes = Object.values(market.quotes) as VenueQuote[];
+    if (quotes.length < 2) return market;
+
+    const streamed = quotes.filter((q) => q.bookId && venues.has(q.venue));
+    if (streamed.length === 0) return market;
+
+    for (const q of streamed) {
+      const key = bookKey(q.venue, q.bookId!);
+      byBook.set(key, [...(byBook.get(key) ?? []), market.id]);
+      if (!wanted.has(q.venue)) wanted.set(q.venue, new Set());
+      wanted.get(q.venue)!.add(q.bookId!);
+    }
+
+    const live = applyLiveBooks(market);
+    tracked.set(market.id, live);
+    return live;
+  });
+
+  feed.markets = tracked;
+  feed.byBook = byBook;
+  feed.pending.clear();
+
+  // Venues that no longer stream are closed; the rest follow the new pairs
+  feed.connections.forEach((conn, venue) => {
+    if (venues.has(venue)) return;
+    close(conn);
+    feed.connections.delete(venue);
+  });
+  venues.forEach(({ stream, url }, venue) =>
+    syncConnection(venue, stream, url, Array.from(wanted.get(venue) ?? []).sort())
+  );
+
+  notify((listener) => listener.status(getStreamStatus()));
+  return result;
+}
+
+// Streamed pairs whose quotes have moved since their scan
+export function getLiveMarkets(): UnifiedMarket[] {
+  return Array.from(feed.markets.values()).filter((m) =>
+    Object.values(m.quotes).some((q) => q?.updatedAt)
+  );
+}
+
+export function getStreamStatus(): StreamStatus[] {
+  return Array.from(feed.connections.values()).map((conn) => ({ ...conn.status }));
+}
+
+export function subscribeLiveFeed(listener: LiveFeedListener): () => void {
+  feed.listeners.add(listener);
+  return () => {
+    feed.listeners.delete(listener);
+  };
+}
@@ -0,0 +1,399 @@
+// ============================================
+// CROSS-VENUE MATCHING ALGORITHM
+// ============================================
+
+import {
+  ListingKey,
+  MatchBreakdown,
+  MatchCandidate,
+  MatchConfidence,
+  MatchOverride,
+  NormalizedMarket,
+  Polarity,
+  UnifiedMarket,
+  Venue,
+  VenueQuote,
+} from "@/types";
+import { evaluateMarket, MarketCluster } from "@/utils/arbitrage";
+import { maxWeightAssignment } from "@/utils/assignment";
+import { categoryKeyTerms } from "@/utils/categories";
+import { compareEntities } from "@/utils/entities";
+import { detectPolarity, invertPrice, invertQuote } from "@/utils/polarity";
+import { VENUE_ORDER } from "@/utils/venues/labels";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Pairs scoring below this are never treated as the same market
+export const MATCH_SCORE_FLOOR = 0.3;
+
+// A runner-up scoring within this much of the chosen match makes it ambiguous
+export const AMBIGUOUS_MARGIN = 0.1;
+
+// Added to the score for each category key term both titles use
+const KEY_TERM_BOOST = 0.15;
+
+// Added to the score for each entity field both titles agree on
+const ENTITY_AGREEMENT_BOOST = 0.1;
+
+// ============================================
+// SCORING
+// ============================================
+
+// Every term of the score, for the detail panel and for debugging matches
+export function explainMatch(a: NormalizedMarket, b: NormalizedMarket): MatchBreakdown {
+  const aKeywords = a.keywords;
+  const bKeywords = b.keywords;
+
+  // Matching keywords
+  const sharedKeywords = aKeywords.filter((k) => bKeywords.includes(k));
+
+  // Jaccard similarity
+  const unionSize = new Set([...aKeywords, ...bKeywords]).size;
+  const jaccard = unionSize > 0 ? sharedKeywords.length / unionSize : 0;
+
+  // Boost for the key terms of both listings' categories
+  const keyTerms = categoryKeyTerms(a.category, b.category).filter(
+    (term) => aKeywords.includes(term) && bKeywords.includes(term)
+  );
+  const keyTermBoost = keyTerms.length * KEY_TERM_BOOST;
+
+  // Titles that disagree on a date, line, place or person are different
+  // markets however many words they share
+  const entities = compareEntities(a.entities, b.entities);
+  const entityBoost = entities.agreements.length * ENTITY_AGREEMENT_BOOST;
+  const score =
+    entities.contradictions.length > 0 ? 0 : Math.min(jaccard + keyTermBoost + entityBoost, 1);
+
+  return {
+    venues: [a.venue, b.venue],
+    sharedKeywords,
+    unionSize,
+    jaccard,
+    keyTerms,
+    keyTermBoost,
+    entityAgreements: entities.agreements,
+    entityContradictions: entities.contradictions,
+    entityBoost,
+    score,
+  };
+}
+
+export function calculateMatchScore(a: NormalizedMarket, b: NormalizedMarket): number {
+  return explainMatch(a, b).score;
+}
+
+export function getMatchConfidence(score: number): MatchConfidence {
+  if (score >= 0.6) return "high";
+  if (score >= 0.4) return "medium";
+  return "low";
+}
+
+// ============================================
+// OVERRIDES
+// ============================================
+
+export function listingKey(listing: { venue: Venue; marketId: string }): ListingKey {
+  return `${listing.venue}:${listing.marketId}`;
+}
+
+function pairKey(i: number, j: number): string {
+  return i < j ? `${i}|${j}` : `${j}|${i}`;
+}
+
+// Hand-made decisions, resolved against the listings of this run. Overrides
+// naming listings that are no longer open simply drop out.
+interface ResolvedOverrides {
+  verified: number[][]; // Groups of market indexes, one market per venue
+  rejected: Set<string>; // pairKey()s that may never share a cluster
+}
+
+function resolveOverrides(
+  markets: NormalizedMarket[],
+  overrides: MatchOverride[]
+): ResolvedOverrides {
+  const indexOf = new Map(markets.map((m, i) => [listingKey(m), i]));
+  const rejected = new Set<string>();
+  let verified: number[][] = [];
+
+  for (const override of overrides) {
+    const members = override.listings
+      .map((key) => indexOf.get(key))
+      .filter((i): i is number => i !== undefined);
+
+    if (override.action === "reject") {
+      for (const i of members) {
+        for (const j of members) {
+          if (i !== j) rejected.add(pairKey(i, j));
+        }
+      }
+      continue;
+    }
+
+    // Confirms and links that share a listing describe one cluster
+    const touching = verified.filter((g) => g.some((i) => members.includes(i)));
+    const merged = Array.from(new Set([...touching.flat(), ...members]));
+    const venues = merged.map((i) => markets[i].venue);
+    if (new Set(venues).size < venues.length) {
+      console.warn(`Skipping match override ${override.id}: two listings from one venue`);
+      continue;
+    }
+
+    verified = [...verified.filter((g) => !touching.includes(g)), merged];
+  }
+
+  return {
+    verified: verified.filter((g) => g.length > 1),
+    rejected,
+  };
+}
+
+// ============================================
+// CLUSTERING
+// ============================================
+
+// Keep only the listing fields; matching and event metadata stay behind.
+// Inverted listings are flipped so every quote prices the same YES.
+function toVenueQuote(market: NormalizedMarket, polarity: Polarity): VenueQuote {
+  const { venue, marketId, eventName, price, quote, bookId, url, volume, openInterest, resolution } = market;
+  const inverted = polarity === "inverted";
+  return {
+    venue,
+    marketId,
+    eventName,
+    price: inverted ? invertPrice(price) : price,
+    quote: inverted ? invertQuote(quote) : quote,
+    bookId,
+    url,
+    volume,
+    openInterest,
+    polarity,
+    resolution,
+    updatedAt: null,
+  };
+}
+
+// Turn a group of equivalent markets (one per venue) into a cluster. The
+// first venue in display order names the market and sets the YES side.
+export function buildCluster(members: NormalizedMarket[], score: number): MarketCluster {
+  const ordered = [...members].sort(
+    (a, b) => VENUE_ORDER.indexOf(a.venue) - VENUE_ORDER.indexOf(b.venue)
+  );
+  const lead = ordered[0];
+  const quotes: Partial<Record<Venue, VenueQuote>> = {};
+  for (const member of ordered) {
+    const polarity =
+      member === lead ? "same" : detectPolarity(lead.eventName, member.eventName);
+    quotes[member.venue] = toVenueQuote(member, polarity);
+  }
+
+  const matchBreakdown: MatchBreakdown[] = [];
+  for (let i = 0; i < ordered.length; i++) {
+    for (let j = i + 1; j < ordered.length; j++) {
+      matchBreakdown.push(explainMatch(ordered[i], ordered[j]));
+    }
+  }
+
+  return {
+    id: ordered.map((m) => m.marketId).join("-"),
+    eventName: lead.eventName,
+    category: lead.category,
+    normalizedName: lead.normalizedName,
+    quotes,
+    matchScore: ordered.length > 1 ? score : 0,
+    matchBreakdown,
+    matchConfidence: ordered.length > 1 ? getMatchConfidence(score) : "low",
+    runnerUp: null,
+    scoreMargin: null,
+  };
+}
+
+// Groups built so far and the next venue's markets that could join them,
+// split into independent pieces so each assignment problem stays small
+function bipartiteComponents(
+  incoming: number[],
+  neighbours: number[][],
+  groupOf: Map<number, number>
+): { left: number[]; right: number[] }[] {
+  const groupsOfMarket = new Map<number, number[]>();
+  const marketsOfGroup = new Map<number, number[]>();
+
+  for (const m of incoming) {
+    const candidates = new Set<number>();
+    for (const n of neighbours[m]) {
+      const g = groupOf.get(n);
+      if (g !== undefined) candidates.add(g);
+    }
+    if (candidates.size === 0) continue;
+
+    const groups = Array.from(candidates);
+    groupsOfMarket.set(m, groups);
+    for (const g of groups) {
+      const list = marketsOfGroup.get(g) ?? [];
+      list.push(m);
+      marketsOfGroup.set(g, list);
+    }
+  }
+
+  const seen = new Set<number>();
+  const pieces: { left: number[]; right: number[] }[] = [];
+  for (const start of Array.from(groupsOfMarket.keys())) {
+    if (seen.has(start)) continue;
+    seen.add(start);
+
+    const left = new Set<number>();
+    const right: number[] = [];
+    const stack = [start];
+    while (stack.length > 0) {
+      const m = stack.pop()!;
+      right.push(m);
+      for (const g of groupsOfMarket.get(m)!) {
+        if (left.has(g)) continue;
+        left.add(g);
+        for (const other of marketsOfGroup.get(g)!) {
+          if (!seen.has(other)) {
+            seen.add(other);
+            stack.push(other);
+          }
+        }
+      }
+    }
+    pieces.push({ left: Array.from(left), right });
+  }
+
+  return pieces;
+}
+
+// Venue by venue in display order, each venue's markets are assigned to the
+// groups built so far by a max-weight one-to-one assignment over the whole
+// score matrix, so an early mediocre pair can't take a market that fits a
+// later one better. A group scores against a market by its weakest member
+// (complete link), and only pairs above the floor may be assigned.
+// Verified groups are built first and left alone; rejected pairs never merge.
+function clusterMarkets(
+  markets: NormalizedMarket[],
+  overrides: MatchOverride[]
+): MarketCluster[] {
+  const { verified, rejected } = resolveOverrides(markets, overrides);
+  const locked = new Set(verified.flat());
+
+  const verifiedClusters = verified.map((members): MarketCluster => {
+    let weakest = Infinity;
+    for (const i of members) {
+      for (const j of members) {
+        if (i < j) weakest = Math.min(weakest, calculateMatchScore(markets[i], markets[j]));
+      }
+    }
+    return {
+      ...buildCluster(members.map((m) => markets[m]), weakest),
+      matchConfidence: "verified",
+    };
+  });
+
+  // Score every open cross-venue pair once
+  const scores = new Map<string, number>();
+  const neighbours: number[][] = markets.map(() => []);
+  for (let i = 0; i < markets.length; i++) {
+    if (locked.has(i)) continue;
+    for (let j = i + 1; j < markets.length; j++) {
+      if (markets[i].venue === markets[j].venue) continue;
+      if (locked.has(j) || rejected.has(pairKey(i, j))) continue;
+
+      const score = calculateMatchScore(markets[i], markets[j]);
+      if (score < MATCH_SCORE_FLOOR) continue;
+
+      scores.set(pairKey(i, j), score);
+      neighbours[i].push(j);
+      neighbours[j].push(i);
+    }
+  }
+
+  const pairScore = (i: number, j: number) => scores.get(pairKey(i, j)) ?? 0;
+  const linkScore = (members: number[], m: number) =>
+    members.reduce((weakest, x) => Math.min(weakest, pairScore(x, m)), Infinity);
+
+  // Groups hold member indexes
+  const groups: number[][] = [];
+  const groupOf = new Map<number, number>();
+
+  for (const venue of VENUE_ORDER) {
+    const incoming = markets
+      .map((_, i) => i)
+      .filter((i) => markets[i].venue === venue && !locked.has(i));
+
+    for (const { left, right } of bipartiteComponents(incoming, neighbours, groupOf)) {
+      const weights = left.map((g) => right.map((m) => linkScore(groups[g], m)));
+      for (const [row, column] of maxWeightAssignment(weights)) {
+        const g = left[row];
+        groups[g].push(right[column]);
+        groupOf.set(right[column], g);
+      }
+    }
+
+    for (const m of incoming) {
+      if (groupOf.has(m)) continue;
+      groupOf.set(m, groups.length);
+      groups.push([m]);
+    }
+  }
+
+  // Best listing outside the group that could stand in for one of its members
+  const findRunnerUp = (members: number[]): MatchCandidate | null => {
+    let best: MatchCandidate | null = null;
+    for (const member of members) {
+      const others = members.filter((o) => o !== member);
+      for (const y of neighbours[others[0]]) {
+        if (y === member || markets[y].venue !== markets[member].venue) continue;
+        const score = linkScore(others, y);
+        if (score > 0 && (!best || score > best.score)) {
+          const { venue, marketId, eventName } = markets[y];
+          best = { venue, marketId, eventName, score };
+        }
+      }
+    }
+    return best;
+  };
+
+  const assignedClusters = groups.map((members): MarketCluster => {
+    let weakest = Infinity;
+    for (const i of members) {
+      for (const j of members) {
+        if (i < j) weakest = Math.min(weakest, pairScore(i, j));
+      }
+    }
+    const cluster = buildCluster(
+      members.map((m) => markets[m]),
+      members.length > 1 ? weakest : 0
+    );
+    if (members.length < 2) return cluster;
+
+    const runnerUp = findRunnerUp(members);
+    return {
+      ...cluster,
+      runnerUp,
+      scoreMargin: runnerUp ? cluster.matchScore - runnerUp.score : null,
+    };
+  });
+
+  return [...verifiedClusters, ...assignedClusters];
+}
+
+// ============================================
+// MAIN MATCH FUNCTION
+// ============================================
+
+// Cluster markets from any number of venues and price each cluster's best
+// hedge. Manual overrides take precedence over the heuristic.
+export function normalizeAndMatch(
+  markets: NormalizedMarket[],
+  overrides: MatchOverride[] = []
+): UnifiedMarket[] {
+  return clusterMarkets(markets, overrides)
+    .map((cluster) => evaluateMarket(cluster))
+    .sort(
+      (a, b) =>
+        (b.netProfit ?? -Infinity) - (a.netProfit ?? -Infinity) ||
+        b.spreadPercent - a.spreadPercent
+    );
+}
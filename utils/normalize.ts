@@ -0,0 +1,87 @@
+// ============================================
+// SHARED NORMALIZATION HELPERS
+// ============================================
+
+import { MarketQuote, OrderBookLevel } from "@/types";
+
+// Every binary contract settles at 100¢ on the winning side
+export const HEDGE_PAYOUT = 100;
+
+// ============================================
+// TEXT
+// ============================================
+
+export function extractKeywords(text: string): string[] {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((w) => w.length > 2);
+
+  const compounds: string[] = [];
+  if (normalized.includes("trump")) compounds.push("trump");
+  if (normalized.includes("biden")) compounds.push("biden");
+  if (normalized.includes("harris")) compounds.push("harris");
+  if (normalized.includes("president") || normalized.includes("presidential"))
+    compounds.push("president");
+  if (normalized.includes("election")) compounds.push("election");
+  if (normalized.includes("2024")) compounds.push("2024");
+  if (normalized.includes("2025")) compounds.push("2025");
+  if (normalized.includes("win") || normalized.includes("winner"))
+    compounds.push("winner");
+
+  return Array.from(new Set([...normalized, ...compounds]));
+}
+
+export function normalizeEventName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ============================================
+// PRICES
+// ============================================
+
+// Prices arrive as decimals (0-1); keep a tenth of a cent for sub-cent ticks
+export function decimalToCents(value: number | string | undefined | null): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const num = typeof value === "string" ? parseFloat(value) : value;
+  if (!Number.isFinite(num)) return null;
+  return Math.round(num * 1000) / 10;
+}
+
+export function complement(price: number | null): number | null {
+  return price === null ? null : Math.round((HEDGE_PAYOUT - price) * 10) / 10;
+}
+
+// Venues report an empty side as 0 (no bid) or 100 (no offer)
+export function validPrice(price: number | null): number | null {
+  return price !== null && price > 0 && price < HEDGE_PAYOUT ? price : null;
+}
+
+// Midpoint of the YES book, falling back when one side is empty
+export function referencePrice(quote: MarketQuote, fallback: number): number {
+  if (quote.yesBid !== null && quote.yesAsk !== null) {
+    return Math.round((quote.yesBid + quote.yesAsk) / 2);
+  }
+  return fallback;
+}
+
+// Round up to the next whole cent, as venues do when charging fees
+export function ceilToCent(amount: number): number {
+  return Math.ceil(amount * 100 - 1e-9) / 100;
+}
+
+// ============================================
+// ORDER BOOKS
+// ============================================
+
+// Drop empty and out-of-range levels, cheapest ask first
+export function sortAsks(levels: OrderBookLevel[]): OrderBookLevel[] {
+  return levels
+    .filter((l) => l.size > 0 && l.price > 0 && l.price < HEDGE_PAYOUT)
+    .sort((a, b) => a.price - b.price);
+}
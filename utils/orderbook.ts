@@ -0,0 +1,75 @@
+// ============================================
+// ORDER BOOK FETCHING
+// ============================================
+
+import { HedgeLeg, ListingBook, OrderBook, UnifiedMarket, VenueQuote } from "@/types";
+import { mapWithConcurrency } from "@/utils/concurrency";
+import { depthFromBooks } from "@/utils/depth";
+import { liveOrderBook } from "@/utils/liveBooks";
+import { getVenue } from "@/utils/venues";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const BOOK_FETCH_CONCURRENCY = 4;
+
+// ============================================
+// REST BOOKS
+// ============================================
+
+async function fetchBookForLeg(
+  market: UnifiedMarket,
+  leg: HedgeLeg
+): Promise<OrderBook | null> {
+  const bookId = market.quotes[leg.venue]?.bookId;
+  return bookId ? getVenue(leg.venue).fetchOrderBook(bookId) : null;
+}
+
+// Only markets with a top-of-book edge can have a profitable size, so the
+// rest are skipped to keep the number of book requests down.
+export async function attachDepth(markets: UnifiedMarket[]): Promise<UnifiedMarket[]> {
+  return mapWithConcurrency(markets, BOOK_FETCH_CONCURRENCY, async (market) => {
+    const hedge = market.hedge;
+    if (!hedge || hedge.edge <= 0) return market;
+
+    try {
+      const [yesBook, noBook] = await Promise.all([
+        fetchBookForLeg(market, hedge.yesLeg),
+        fetchBookForLeg(market, hedge.noLeg),
+      ]);
+      if (!yesBook || !noBook) return market;
+
+      return { ...market, depth: depthFromBooks(market, hedge, yesBook, noBook) };
+    } catch (error) {
+      console.warn(`Failed to fetch order books for ${market.id}:`, error);
+      return market;
+    }
+  });
+}
+
+// ============================================
+// FULL BOOKS (DETAIL PANEL)
+// ============================================
+
+// Every listing's book for one pair: the streamed copy when there is one,
+// otherwise a REST fetch. Failures are reported per listing.
+export function fetchMarketBooks(market: UnifiedMarket): Promise<ListingBook[]> {
+  const quotes = Object.values(market.quotes) as VenueQuote[];
+  return Promise.all(
+    quotes.map(async ({ venue, marketId, bookId }): Promise<ListingBook> => {
+      if (!bookId) return { venue, marketId, book: null, live: false, error: "No order book for this listing" };
+
+      const streamed = liveOrderBook(venue, bookId);
+      if (streamed) return { venue, marketId, book: streamed, live: true, error: null };
+
+      try {
+        const book = await getVenue(venue).fetchOrderBook(bookId);
+        return { venue, marketId, book, live: false, error: null };
+      } catch (error) {
+        console.warn(`Failed to fetch the ${venue} book for ${marketId}:`, error);
+        return { venue, marketId, book: null, live: false, error: "Failed to fetch the order book" };
+      }
+    })
+  );
+}
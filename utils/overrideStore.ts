@@ -0,0 +1,88 @@
+// ============================================
+// MATCH OVERRIDE STORE (SERVER-SIDE JSON FILE)
+// ============================================
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { ListingKey, MatchOverride, OverrideAction } from "@/types";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const OVERRIDES_PATH =
+  process.env.MATCH_OVERRIDES_PATH ||
+  path.join(process.cwd(), "data", "match-overrides.json");
+
+// ============================================
+// FILE ACCESS
+// ============================================
+
+export async function loadOverrides(): Promise<MatchOverride[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(OVERRIDES_PATH, "utf8"));
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+// Write to a temp file and rename, so a crash never leaves half a file
+async function saveOverrides(overrides: MatchOverride[]): Promise<void> {
+  await fs.mkdir(path.dirname(OVERRIDES_PATH), { recursive: true });
+  const tmp = `${OVERRIDES_PATH}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(overrides, null, 2) + "\n");
+  await fs.rename(tmp, OVERRIDES_PATH);
+}
+
+// Read-modify-write cycles run one at a time so concurrent requests don't
+// drop each other's changes
+let queue: Promise<unknown> = Promise.resolve();
+
+function update<T>(fn: (overrides: MatchOverride[]) => { next: MatchOverride[]; result: T }): Promise<T> {
+  const run = queue.then(async () => {
+    const { next, result } = fn(await loadOverrides());
+    await saveOverrides(next);
+    return result;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+// Two overrides are about the same match when they share two listings
+function overlaps(a: ListingKey[], b: ListingKey[]): boolean {
+  return a.filter((key) => b.includes(key)).length >= 2;
+}
+
+// The newest decision about a set of listings replaces any earlier one, so
+// confirming a previously rejected pair flips it rather than conflicting.
+export function addOverride(
+  action: OverrideAction,
+  listings: ListingKey[]
+): Promise<MatchOverride> {
+  const override: MatchOverride = {
+    id: randomUUID(),
+    action,
+    listings,
+    createdAt: new Date().toISOString(),
+  };
+
+  return update((overrides) => ({
+    next: [...overrides.filter((o) => !overlaps(o.listings, listings)), override],
+    result: override,
+  }));
+}
+
+// Forget every decision about these listings; returns how many were removed
+export function removeOverrides(listings: ListingKey[]): Promise<number> {
+  return update((overrides) => {
+    const next = overrides.filter((o) => !overlaps(o.listings, listings));
+    return { next, result: overrides.length - next.length };
+  });
+}
@@ -0,0 +1,108 @@
+// ============================================
+// QUESTION POLARITY (NEGATION & COMPLEMENTS)
+// ============================================
+
+import { HedgeLeg, MarketQuote, Polarity } from "@/types";
+import { extractThresholds } from "@/utils/entities";
+import { HEDGE_PAYOUT, normalizeEventName } from "@/utils/normalize";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Words that turn a question into its complement. Only the negative side of
+// each antonym pair is listed: "win"/"lose" differ by one negation.
+// Comparatives ("below 3%", "less than 50") aren't words here: they only
+// negate next to a number, so they come from the threshold parser.
+const NEGATIONS = new Set([
+  "not",
+  "never",
+  "wont",
+  "doesnt",
+  "isnt",
+  "lose",
+  "loses",
+  "losing",
+  "fail",
+  "fails",
+  "reject",
+  "rejects",
+  "without",
+]);
+
+// Verbs that put a contestant in front of a head-to-head question
+const CONTEST_VERBS = new Set(["win", "wins", "beat", "beats", "defeat", "defeats", "vs", "versus"]);
+
+// Skipped when looking back from the verb to the subject
+const FILLERS = new Set(["will", "to", "does", "did", "can", "the", "a"]);
+
+// ============================================
+// DETECTION
+// ============================================
+
+function tokenize(text: string): string[] {
+  // "won't" → "wont" before punctuation is stripped
+  return normalizeEventName(text.replace(/'/g, "")).split(" ");
+}
+
+// A "below" threshold is the complement of the same line "above", the same
+// reading compareEntities relies on
+function isNegated(text: string, tokens: string[]): boolean {
+  const words = tokens.filter((t) => NEGATIONS.has(t)).length;
+  const below = extractThresholds(text.toLowerCase()).filter((t) => t.direction === "below").length;
+  return (words + below) % 2 === 1;
+}
+
+// "Will Harris beat Trump?" → "harris"; "Trump vs Harris" → "trump"
+function contestSubject(tokens: string[]): string | null {
+  const verb = tokens.findIndex((t) => CONTEST_VERBS.has(t));
+  for (let i = verb - 1; i >= 0; i--) {
+    if (FILLERS.has(tokens[i])) continue;
+    return tokens[i].length > 2 ? tokens[i] : null;
+  }
+  return null;
+}
+
+// Two-way contests phrased from opposite sides: both questions name both
+// contestants but put a different one first
+function isOpposingContest(a: string[], b: string[]): boolean {
+  const subjectA = contestSubject(a);
+  const subjectB = contestSubject(b);
+  if (!subjectA || !subjectB || subjectA === subjectB) return false;
+  return a.includes(subjectB) && b.includes(subjectA);
+}
+
+// Whether `b` asks the opposite question to `a`. Negation and contest side
+// each flip the question, so two flips cancel out.
+export function detectPolarity(a: string, b: string): Polarity {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  const negationFlip = isNegated(a, tokensA) !== isNegated(b, tokensB);
+  const contestFlip = isOpposingContest(tokensA, tokensB);
+
+  return negationFlip !== contestFlip ? "inverted" : "same";
+}
+
+// ============================================
+// PRICES
+// ============================================
+
+// YES of the inverse question is NO of this one
+export function invertQuote(quote: MarketQuote): MarketQuote {
+  return {
+    yesBid: quote.noBid,
+    yesAsk: quote.noAsk,
+    noBid: quote.yesBid,
+    noAsk: quote.yesAsk,
+  };
+}
+
+export function invertPrice(price: number): number {
+  return HEDGE_PAYOUT - price;
+}
+
+// The side to actually buy on the venue for a leg priced in the cluster frame
+export function nativeSide(leg: HedgeLeg, polarity: Polarity | undefined): "yes" | "no" {
+  if (polarity !== "inverted") return leg.side;
+  return leg.side === "yes" ? "no" : "yes";
+}
@@ -0,0 +1,101 @@
+// ============================================
+// POSITION STORE (SERVER-SIDE JSON FILE)
+// ============================================
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { Position } from "@/types";
+import { PositionInput, PositionPatch } from "@/utils/positions";
+
+const POSITIONS_PATH =
+  process.env.POSITIONS_PATH || path.join(process.cwd(), "data", "positions.json");
+
+// ============================================
+// FILE ACCESS
+// ============================================
+
+export async function loadPositions(): Promise<Position[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(POSITIONS_PATH, "utf8"));
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+// Write to a temp file and rename, so a crash never leaves half a file
+async function savePositions(positions: Position[]): Promise<void> {
+  await fs.mkdir(path.dirname(POSITIONS_PATH), { recursive: true });
+  const tmp = `${POSITIONS_PATH}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(positions, null, 2) + "\n");
+  await fs.rename(tmp, POSITIONS_PATH);
+}
+
+// Read-modify-write cycles run one at a time, so a scan marking positions
+// can't overwrite a fill recorded meanwhile
+let queue: Promise<unknown> = Promise.resolve();
+
+export function updatePositions<T>(
+  fn: (positions: Position[]) => { next: Position[]; result: T }
+): Promise<T> {
+  const run = queue.then(async () => {
+    const { next, result } = fn(await loadPositions());
+    await savePositions(next);
+    return result;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+// ============================================
+// CHANGES
+// ============================================
+
+export function addPosition(input: PositionInput): Promise<Position> {
+  const position: Position = {
+    id: randomUUID(),
+    marketId: input.marketId,
+    eventName: input.eventName,
+    legs: input.legs.map((leg) => ({
+      ...leg,
+      mark: null,
+      markedAt: null,
+      settlement: null,
+      settledAt: null,
+    })),
+    notes: input.notes,
+    openedAt: input.openedAt ? new Date(input.openedAt).toISOString() : new Date().toISOString(),
+  };
+  return updatePositions((positions) => ({ next: [...positions, position], result: position }));
+}
+
+// null when no position has this id; an error string for a bad leg index
+export function patchPosition(id: string, patch: PositionPatch): Promise<Position | null | string> {
+  return updatePositions<Position | null | string>((positions) => {
+    const existing = positions.find((p) => p.id === id);
+    if (!existing) return { next: positions, result: null };
+
+    const updated: Position = { ...existing, legs: [...existing.legs] };
+    if (patch.notes !== undefined) updated.notes = patch.notes;
+    if (patch.settle) {
+      const { leg, settlement } = patch.settle;
+      if (leg >= updated.legs.length) return { next: positions, result: `No leg ${leg}` };
+      updated.legs[leg] = {
+        ...updated.legs[leg],
+        settlement,
+        settledAt: settlement === null ? null : new Date().toISOString(),
+      };
+    }
+
+    return { next: positions.map((p) => (p.id === id ? updated : p)), result: updated };
+  });
+}
+
+export function removePosition(id: string): Promise<boolean> {
+  return updatePositions((positions) => {
+    const next = positions.filter((p) => p.id !== id);
+    return { next, result: next.length < positions.length };
+  });
+}
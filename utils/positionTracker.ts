@@ -0,0 +1,101 @@
+// ============================================
+// POSITION MARKS & SETTLEMENT (RUNS ON EVERY SCAN)
+// ============================================
+
+import { ListingKey, PositionLeg, UnifiedMarket, VenueQuote } from "@/types";
+import { mapWithConcurrency } from "@/utils/concurrency";
+import { listingKey } from "@/utils/matcher";
+import { invertQuote } from "@/utils/polarity";
+import { loadPositions, updatePositions } from "@/utils/positionStore";
+import { getVenue } from "@/utils/venues";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// A leg that isn't settled yet is asked about again after this long
+const SETTLEMENT_RECHECK_MS = 10 * 60_000;
+const SETTLEMENT_CONCURRENCY = 4;
+
+// Last settlement lookup per listing, kept on globalThis so dev-mode module
+// reloads don't hammer the venues
+const globalForPositions = globalThis as unknown as { settlementChecks?: Map<ListingKey, number> };
+const lastChecked: Map<ListingKey, number> = (globalForPositions.settlementChecks ??= new Map());
+
+// ============================================
+// MARKS
+// ============================================
+
+// Bid for the held side in the venue's own frame: what the leg would sell for
+function legMark(leg: PositionLeg, quote: VenueQuote): number | null {
+  const native = quote.polarity === "inverted" ? invertQuote(quote.quote) : quote.quote;
+  return leg.side === "yes" ? native.yesBid : native.noBid;
+}
+
+// A listing that dropped out of the scan has usually closed; one past its end
+// date may have resolved while still listed
+function needsSettlementCheck(quote: VenueQuote | undefined, now: number): boolean {
+  if (!quote) return true;
+  const end = quote.resolution.endDate ? Date.parse(quote.resolution.endDate) : NaN;
+  return end <= now;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+// Mark every open leg to this scan's bids and look up settlement for legs
+// whose market may have resolved. Venues without a settlement lookup are
+// settled by hand.
+export async function trackPositions(markets: UnifiedMarket[], scannedAt: string): Promise<void> {
+  const positions = await loadPositions();
+  const open = positions.flatMap((p) => p.legs).filter((leg) => leg.settlement === null);
+  if (open.length === 0) return;
+
+  const listings = new Map<ListingKey, VenueQuote>();
+  for (const market of markets) {
+    for (const quote of Object.values(market.quotes) as VenueQuote[]) {
+      listings.set(listingKey(quote), quote);
+    }
+  }
+
+  const now = Date.parse(scannedAt);
+  const due = new Map<ListingKey, PositionLeg>();
+  for (const leg of open) {
+    const key = listingKey(leg);
+    if (!getVenue(leg.venue).fetchSettlement) continue;
+    if (!needsSettlementCheck(listings.get(key), now)) continue;
+    if (now - (lastChecked.get(key) ?? 0) < SETTLEMENT_RECHECK_MS) continue;
+    due.set(key, leg);
+  }
+
+  const settlements = new Map<ListingKey, number>();
+  await mapWithConcurrency(Array.from(due), SETTLEMENT_CONCURRENCY, async ([key, leg]) => {
+    lastChecked.set(key, now);
+    try {
+      const settlement = await getVenue(leg.venue).fetchSettlement!(leg.marketId);
+      if (settlement !== null) settlements.set(key, settlement);
+    } catch (error) {
+      console.warn(`Settlement lookup failed for ${key}:`, error);
+    }
+  });
+
+  // Applied to a fresh read, so edits made during the lookups survive
+  await updatePositions((current) => ({
+    next: current.map((position) => ({
+      ...position,
+      legs: position.legs.map((leg) => {
+        if (leg.settlement !== null) return leg;
+        const key = listingKey(leg);
+        const settlement = settlements.get(key);
+        if (settlement !== undefined) {
+          lastChecked.delete(key);
+          return { ...leg, settlement, settledAt: scannedAt };
+        }
+        const quote = listings.get(key);
+        return quote ? { ...leg, mark: legMark(leg, quote), markedAt: scannedAt } : leg;
+      }),
+    })),
+    result: undefined,
+  }));
+}
@@ -0,0 +1,230 @@
+// ============================================
+// POSITION VALUATION & VALIDATION
+// ============================================
+
+import {
+  PortfolioSummary,
+  Position,
+  PositionLeg,
+  PositionStatus,
+  PositionValuation,
+  UnifiedMarket,
+  Venue,
+  VenueQuote,
+} from "@/types";
+import { getFeeSchedule } from "@/utils/fees";
+import { nativeSide } from "@/utils/polarity";
+import { VENUE_ORDER } from "@/utils/venues/labels";
+
+// What the user enters for a leg; marks and settlement are filled in later
+export type PositionLegInput = Pick<
+  PositionLeg,
+  "venue" | "marketId" | "side" | "quantity" | "fillPrice" | "fees"
+>;
+
+export interface PositionInput {
+  marketId: string;
+  eventName: string;
+  legs: PositionLegInput[];
+  notes: string;
+  openedAt?: string;
+}
+
+export interface PositionPatch {
+  notes?: string;
+  settle?: { leg: number; settlement: number | null }; // null reopens the leg
+}
+
+const MAX_LEGS = 4;
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// ============================================
+// VALUATION
+// ============================================
+
+// Fill cost plus fees, dollars
+function legCost(leg: PositionLeg | PositionLegInput): number {
+  return (leg.quantity * leg.fillPrice) / 100 + leg.fees;
+}
+
+// A settled leg's payout, net of the venue's fee on winnings
+function legPayout(leg: PositionLeg, settlement: number): number {
+  const perContract = leg.side === "yes" ? settlement : 100 - settlement;
+  const gross = (leg.quantity * perContract) / 100;
+  const profit = gross - (leg.quantity * leg.fillPrice) / 100;
+  return gross - (profit > 0 ? getFeeSchedule(leg.venue).settlementFee(profit) : 0);
+}
+
+export function positionStatus(position: Position): PositionStatus {
+  const settled = position.legs.filter((leg) => leg.settlement !== null).length;
+  if (settled === 0) return "open";
+  return settled === position.legs.length ? "settled" : "partial";
+}
+
+export function valuePosition(position: Position): PositionValuation {
+  let realizedPnl = 0;
+  let unrealizedPnl: number | null = 0;
+  const locked: Partial<Record<Venue, number>> = {};
+
+  for (const leg of position.legs) {
+    const cost = legCost(leg);
+    if (leg.settlement !== null) {
+      realizedPnl += legPayout(leg, leg.settlement) - cost;
+      continue;
+    }
+
+    locked[leg.venue] = round((locked[leg.venue] ?? 0) + cost);
+    if (leg.mark === null) unrealizedPnl = null;
+    else if (unrealizedPnl !== null) unrealizedPnl += (leg.quantity * leg.mark) / 100 - cost;
+  }
+
+  return {
+    position,
+    status: positionStatus(position),
+    cost: round(position.legs.reduce((sum, leg) => sum + legCost(leg), 0)),
+    realizedPnl: round(realizedPnl),
+    unrealizedPnl: unrealizedPnl === null ? null : round(unrealizedPnl),
+    locked,
+  };
+}
+
+// Totals follow the per-position rule: a position with an unmarked open leg
+// has no unrealized P&L, so it is left out of the total rather than counted
+// in part. `manualSettlement` lists the venues with no settlement lookup.
+export function summarizePortfolio(positions: Position[], manualSettlement: Venue[] = []): PortfolioSummary {
+  const valuations = positions
+    .map(valuePosition)
+    .sort((a, b) => Date.parse(b.position.openedAt) - Date.parse(a.position.openedAt));
+
+  const locked: Partial<Record<Venue, number>> = {};
+  let unrealizedPnl = 0;
+  let unmarkedLegs = 0;
+  for (const valuation of valuations) {
+    for (const [venue, amount] of Object.entries(valuation.locked) as [Venue, number][]) {
+      locked[venue] = round((locked[venue] ?? 0) + amount);
+    }
+    if (valuation.unrealizedPnl !== null) unrealizedPnl += valuation.unrealizedPnl;
+    unmarkedLegs += valuation.position.legs.filter((leg) => leg.settlement === null && leg.mark === null).length;
+  }
+
+  return {
+    positions: valuations,
+    realizedPnl: round(valuations.reduce((sum, v) => sum + v.realizedPnl, 0)),
+    unrealizedPnl: round(unrealizedPnl),
+    unmarkedLegs,
+    locked,
+    partial: valuations.filter((v) => v.status === "partial").length,
+    manualSettlement,
+  };
+}
+
+// Both legs of a market's best hedge as they'd be placed: the venue-native
+// side at the current ask, with that venue's trading fee and gas
+export function hedgeLegs(market: UnifiedMarket, quantity: number): PositionLegInput[] {
+  if (!market.hedge) return [];
+
+  return [market.hedge.yesLeg, market.hedge.noLeg].flatMap((leg) => {
+    const quote = market.quotes[leg.venue] as VenueQuote | undefined;
+    if (!quote) return [];
+    // An inverted listing's YES ask in the cluster frame is its native NO ask
+    return [
+      {
+        venue: leg.venue,
+        marketId: quote.marketId,
+        side: nativeSide(leg, quote.polarity),
+        quantity,
+        fillPrice: leg.price,
+        fees: estimateFees(leg.venue, leg.price, quantity),
+      },
+    ];
+  });
+}
+
+export function estimateFees(venue: Venue, price: number, quantity: number): number {
+  const schedule = getFeeSchedule(venue);
+  return round(schedule.tradingFee(price, quantity) + schedule.gasPerTrade);
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function parseLeg(raw: unknown, index: number): PositionLegInput | string {
+  const leg = (raw ?? {}) as Record<string, unknown>;
+  const at = `legs[${index}]`;
+
+  if (!VENUE_ORDER.includes(leg.venue as Venue)) return `${at}.venue must be one of ${VENUE_ORDER.join(", ")}`;
+  if (typeof leg.marketId !== "string" || !leg.marketId.trim()) return `${at}.marketId is required`;
+  if (leg.side !== "yes" && leg.side !== "no") return `${at}.side must be yes or no`;
+
+  const quantity = Number(leg.quantity);
+  if (!Number.isFinite(quantity) || quantity <= 0) return `${at}.quantity must be a number > 0`;
+  const fillPrice = Number(leg.fillPrice);
+  if (!Number.isFinite(fillPrice) || fillPrice < 0 || fillPrice > 100) {
+    return `${at}.fillPrice must be in cents, 0-100`;
+  }
+  const fees = Number(leg.fees ?? 0);
+  if (!Number.isFinite(fees) || fees < 0) return `${at}.fees must be a number ≥ 0`;
+
+  return { venue: leg.venue as Venue, marketId: leg.marketId.trim(), side: leg.side, quantity, fillPrice, fees };
+}
+
+export function parsePositionInput(body: unknown): { position: PositionInput } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof b.marketId !== "string" || !b.marketId) return { error: "marketId is required" };
+  if (typeof b.eventName !== "string" || !b.eventName.trim()) return { error: "eventName is required" };
+  if (!Array.isArray(b.legs) || b.legs.length === 0 || b.legs.length > MAX_LEGS) {
+    return { error: `legs must have 1 to ${MAX_LEGS} entries` };
+  }
+
+  const legs: PositionLegInput[] = [];
+  for (let i = 0; i < b.legs.length; i++) {
+    const parsed = parseLeg(b.legs[i], i);
+    if (typeof parsed === "string") return { error: parsed };
+    legs.push(parsed);
+  }
+
+  if (b.notes !== undefined && typeof b.notes !== "string") return { error: "notes must be a string" };
+  if (b.openedAt !== undefined && (typeof b.openedAt !== "string" || Number.isNaN(Date.parse(b.openedAt)))) {
+    return { error: "openedAt must be an ISO timestamp" };
+  }
+
+  return {
+    position: {
+      marketId: b.marketId,
+      eventName: b.eventName.trim().slice(0, 200),
+      legs,
+      notes: ((b.notes as string | undefined) ?? "").slice(0, 1000),
+      openedAt: b.openedAt as string | undefined,
+    },
+  };
+}
+
+export function parsePositionPatch(body: unknown): { patch: PositionPatch } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const patch: PositionPatch = {};
+
+  if ("notes" in b) {
+    if (typeof b.notes !== "string") return { error: "notes must be a string" };
+    patch.notes = b.notes.slice(0, 1000);
+  }
+
+  if ("settle" in b) {
+    const settle = (b.settle ?? {}) as Record<string, unknown>;
+    if (!Number.isInteger(settle.leg) || (settle.leg as number) < 0) {
+      return { error: "settle.leg must be a leg index" };
+    }
+    const settlement = settle.settlement;
+    if (settlement !== null && (typeof settlement !== "number" || settlement < 0 || settlement > 100)) {
+      return { error: "settle.settlement must be the YES payout in cents (0-100), or null" };
+    }
+    patch.settle = { leg: settle.leg as number, settlement: settlement as number | null };
+  }
+
+  if (Object.keys(patch).length === 0) return { error: "Nothing to update" };
+  return { patch };
+}
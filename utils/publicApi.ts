@@ -0,0 +1,153 @@
+// ============================================
+// PUBLIC API QUERIES + CURSOR PAGINATION
+// ============================================
+
+import { FilterConfig, MarketCategory, SortConfig, SortField, UnifiedMarket } from "@/types";
+import { CATEGORY_PROFILES } from "@/utils/categories";
+import { DEFAULT_FILTERS, DEFAULT_SORT, SORT_FIELDS, applyFilters, compareSortValues, sortValue } from "@/utils/filters";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Position after the last row of a page. Keyed on the row's sort value and
+// id rather than an offset, so a rescan between pages doesn't shift rows
+// into or out of view.
+interface Cursor {
+  field: SortField;
+  direction: SortConfig["direction"];
+  value: number | string | null; // null = no value, sorted last
+  id: string;
+}
+
+export interface OpportunityQuery {
+  filters: FilterConfig;
+  sort: SortConfig;
+  limit: number;
+  cursor: Cursor | null;
+}
+
+// ============================================
+// CURSORS
+// ============================================
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as Cursor;
+    return typeof cursor.id === "string" && SORT_FIELDS.includes(cursor.field) ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+function parseBoolean(value: string | null): boolean | null | undefined {
+  if (value === null) return undefined;
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  return null;
+}
+
+// Query parameters are named after FilterConfig and SortConfig fields
+export function parseOpportunityQuery(params: URLSearchParams): OpportunityQuery | { error: string } {
+  const minSpread = Number(params.get("minSpread") ?? DEFAULT_FILTERS.minSpread);
+  if (!Number.isFinite(minSpread) || minSpread < 0) return { error: "minSpread must be a number ≥ 0" };
+
+  const showOnlyArbitrage = parseBoolean(params.get("showOnlyArbitrage"));
+  const hideResolutionRisk = parseBoolean(params.get("hideResolutionRisk"));
+  if (showOnlyArbitrage === null) return { error: "showOnlyArbitrage must be true or false" };
+  if (hideResolutionRisk === null) return { error: "hideResolutionRisk must be true or false" };
+
+  const category = params.get("category") ?? "all";
+  if (category !== "all" && !CATEGORY_PROFILES.some((p) => p.id === category)) {
+    return { error: `category must be all or one of ${CATEGORY_PROFILES.map((p) => p.id).join(", ")}` };
+  }
+
+  const field = params.get("sort") ?? DEFAULT_SORT.field;
+  if (!SORT_FIELDS.includes(field as SortField)) {
+    return { error: `sort must be one of ${SORT_FIELDS.join(", ")}` };
+  }
+  const direction = params.get("direction") ?? DEFAULT_SORT.direction;
+  if (direction !== "asc" && direction !== "desc") return { error: "direction must be asc or desc" };
+
+  const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be an integer from 1 to ${MAX_PAGE_SIZE}` };
+  }
+
+  const rawCursor = params.get("cursor");
+  const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+  if (rawCursor && !cursor) return { error: "Invalid cursor" };
+  if (cursor && (cursor.field !== field || cursor.direction !== direction)) {
+    return { error: "cursor belongs to a different sort; repeat the original sort and direction" };
+  }
+
+  return {
+    filters: {
+      minSpread,
+      showOnlyArbitrage: showOnlyArbitrage ?? DEFAULT_FILTERS.showOnlyArbitrage,
+      hideResolutionRisk: hideResolutionRisk ?? DEFAULT_FILTERS.hideResolutionRisk,
+      category: category as MarketCategory | "all",
+      searchQuery: params.get("searchQuery") ?? "",
+    },
+    sort: { field: field as SortField, direction },
+    limit,
+    cursor,
+  };
+}
+
+// ============================================
+// PAGINATION
+// ============================================
+
+// Sort order with the id as tie-breaker, so every row has one position
+function compare(
+  a: { value: number | string | null; id: string },
+  b: { value: number | string | null; id: string },
+  direction: SortConfig["direction"]
+): number {
+  const diff = compareSortValues(a.value, b.value, direction);
+  return diff || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+// Pairs only: a listing on one venue isn't an opportunity
+export function pageOpportunities(
+  markets: UnifiedMarket[],
+  query: OpportunityQuery
+): { data: UnifiedMarket[]; nextCursor: string | null; total: number } {
+  const { field, direction } = query.sort;
+  const rows = applyFilters(
+    markets.filter((m) => Object.keys(m.quotes).length > 1),
+    query.filters
+  )
+    .map((market) => ({ market, id: market.id, value: sortValue(market, field) }))
+    .sort((a, b) => compare(a, b, direction));
+
+  const after = query.cursor;
+  const start = after
+    ? rows.findIndex((row) => compare(row, { id: after.id, value: after.value }, direction) > 0)
+    : 0;
+  const page = start === -1 ? [] : rows.slice(start, start + query.limit);
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + query.limit < rows.length;
+
+  return {
+    data: page.map((row) => row.market),
+    nextCursor:
+      hasMore && last
+        ? encodeCursor({
+            field,
+            direction,
+            value: last.value,
+            id: last.id,
+          })
+        : null,
+    total: rows.length,
+  };
+}
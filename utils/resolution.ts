@@ -0,0 +1,182 @@
+// ============================================
+// RESOLUTION CRITERIA & SETTLEMENT DATE ANALYSIS
+// ============================================
+
+import {
+  ResolutionAnalysis,
+  ResolutionDiff,
+  ResolutionRisk,
+  ResolutionTerms,
+  VenueQuote,
+} from "@/types";
+import { normalizeEventName } from "@/utils/normalize";
+import { VENUE_LABELS } from "@/utils/venues/labels";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Venues round end dates differently, so a day apart is still the same event
+const DATE_DELTA_MEDIUM_DAYS = 1;
+const DATE_DELTA_HIGH_DAYS = 14;
+
+// Rules that share less wording than this are probably not the same contract
+const RULE_SIMILARITY_FLOOR = 0.1;
+
+// A rule sentence "has a counterpart" when it overlaps one this much
+const SENTENCE_MATCH_FLOOR = 0.5;
+const MAX_DIFF_SENTENCES = 3;
+const MAX_SENTENCE_LENGTH = 160;
+
+// Named sources and settlement triggers. Two sides naming different ones can
+// settle on different facts, or at different moments.
+const SOURCE_PATTERNS: [string, RegExp][] = [
+  ["Associated Press", /associated press|\bap\b/i],
+  ["Fox News", /fox news/i],
+  ["NBC News", /\bnbc\b/i],
+  ["CNN", /\bcnn\b/i],
+  ["Decision Desk HQ", /decision desk/i],
+  ["official certification", /certif(y|ied|ication)/i],
+  ["Electoral College vote", /electoral college vote|electors (vote|cast)/i],
+  ["inauguration", /inaugurat/i],
+  ["media call", /election night|media call|called by/i],
+];
+
+const RISK_ORDER: ResolutionRisk[] = ["low", "unknown", "medium", "high"];
+
+// ============================================
+// TEXT HELPERS
+// ============================================
+
+function words(text: string): string[] {
+  return normalizeEventName(text)
+    .split(" ")
+    .filter((w) => w.length > 2);
+}
+
+function overlap(a: string[], b: string[]): number {
+  const union = new Set([...a, ...b]);
+  if (union.size === 0) return 0;
+  const bSet = new Set(b);
+  return Array.from(new Set(a)).filter((w) => bSet.has(w)).length / union.size;
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter((s) => words(s).length > 2);
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_SENTENCE_LENGTH
+    ? `${text.slice(0, MAX_SENTENCE_LENGTH - 1)}…`
+    : text;
+}
+
+// Sentences of `a` with no close counterpart anywhere in `b`
+function unmatchedSentences(a: string, b: string): string[] {
+  const bWords = sentences(b).map(words);
+  return sentences(a)
+    .filter((s) => !bWords.some((w) => overlap(words(s), w) >= SENTENCE_MATCH_FLOOR))
+    .slice(0, MAX_DIFF_SENTENCES)
+    .map(truncate);
+}
+
+export function extractSources(terms: ResolutionTerms): string[] {
+  const text = `${terms.source ?? ""}\n${terms.rules ?? ""}`;
+  return SOURCE_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(
+    ([label]) => label
+  );
+}
+
+function dateDeltaDays(a: string | null, b: string | null): number | null {
+  const aTime = a ? Date.parse(a) : NaN;
+  const bTime = b ? Date.parse(b) : NaN;
+  if (Number.isNaN(aTime) || Number.isNaN(bTime)) return null;
+  return Math.abs(aTime - bTime) / MS_PER_DAY;
+}
+
+function worse(a: ResolutionRisk, b: ResolutionRisk): ResolutionRisk {
+  return RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+}
+
+// ============================================
+// PAIR COMPARISON
+// ============================================
+
+export function compareResolution(a: VenueQuote, b: VenueQuote): ResolutionDiff {
+  const labelA = VENUE_LABELS[a.venue];
+  const labelB = VENUE_LABELS[b.venue];
+  const reasons: string[] = [];
+  let risk: ResolutionRisk = "low";
+
+  // Settlement dates
+  const delta = dateDeltaDays(a.resolution.endDate, b.resolution.endDate);
+  if (delta !== null && delta > DATE_DELTA_MEDIUM_DAYS) {
+    risk = worse(risk, delta > DATE_DELTA_HIGH_DAYS ? "high" : "medium");
+    reasons.push(`End dates ${Math.round(delta)} days apart`);
+  }
+
+  // Resolution sources: only comparable when both sides name one
+  const sourcesA = extractSources(a.resolution);
+  const sourcesB = extractSources(b.resolution);
+  if (sourcesA.length > 0 && sourcesB.length > 0) {
+    const shared = sourcesA.filter((s) => sourcesB.includes(s));
+    if (shared.length === 0) {
+      risk = worse(risk, "high");
+      reasons.push(`${labelA} uses ${sourcesA.join(", ")}; ${labelB} uses ${sourcesB.join(", ")}`);
+    } else if (shared.length < Math.max(sourcesA.length, sourcesB.length)) {
+      risk = worse(risk, "medium");
+      const extra = [...sourcesA, ...sourcesB].filter((s) => !shared.includes(s));
+      reasons.push(`Only one side mentions ${Array.from(new Set(extra)).join(", ")}`);
+    }
+  }
+
+  // Rules text
+  const rulesA = a.resolution.rules;
+  const rulesB = b.resolution.rules;
+  const ruleSimilarity = rulesA && rulesB ? overlap(words(rulesA), words(rulesB)) : null;
+  if (ruleSimilarity !== null && ruleSimilarity < RULE_SIMILARITY_FLOOR) {
+    risk = worse(risk, "medium");
+    reasons.push("Rules share almost no wording");
+  }
+
+  // Nothing to compare is not the same as nothing different
+  if (risk === "low" && delta === null && ruleSimilarity === null) {
+    risk = "unknown";
+    reasons.push("Settlement terms missing on one side");
+  }
+
+  return {
+    venues: [a.venue, b.venue],
+    dateDeltaDays: delta,
+    sources: [sourcesA, sourcesB],
+    onlyInA: rulesA && rulesB ? unmatchedSentences(rulesA, rulesB) : [],
+    onlyInB: rulesA && rulesB ? unmatchedSentences(rulesB, rulesA) : [],
+    ruleSimilarity,
+    risk,
+    reasons,
+  };
+}
+
+// ============================================
+// CLUSTER ANALYSIS
+// ============================================
+
+// Every pair of listings in a cluster; the cluster is as risky as its worst pair
+export function analyzeResolution(quotes: VenueQuote[]): ResolutionAnalysis {
+  const pairs: ResolutionDiff[] = [];
+  for (let i = 0; i < quotes.length; i++) {
+    for (let j = i + 1; j < quotes.length; j++) {
+      pairs.push(compareResolution(quotes[i], quotes[j]));
+    }
+  }
+
+  return {
+    risk: pairs.reduce<ResolutionRisk>((risk, p) => worse(risk, p.risk), "low"),
+    pairs,
+  };
+}
@@ -0,0 +1,152 @@
+// ============================================
+// SERVER-SIDE MARKET SNAPSHOT CACHE
+// ============================================
+
+import { createHash } from "crypto";
+import { CrawlProgress, MarketsSnapshot } from "@/types";
+import { processAlerts } from "@/utils/alertEngine";
+import { HURDLE_RATE } from "@/utils/fees";
+import { fetchAllMarkets } from "@/utils/fetcher";
+import { appendScan } from "@/utils/historyStore";
+import { trackMarkets } from "@/utils/liveFeed";
+import { loadOverrides } from "@/utils/overrideStore";
+import { trackPositions } from "@/utils/positionTracker";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Serve from cache without refreshing while younger than this
+const FRESH_MS = 60_000;
+// Serve stale data (refreshing in the background) until this age
+const STALE_MS = 10 * 60_000;
+
+export interface CachedSnapshot {
+  snapshot: MarketsSnapshot;
+  body: string;
+  etag: string;
+  lastModified: Date;
+}
+
+interface CacheState {
+  current: CachedSnapshot | null;
+  refreshing: Promise<CachedSnapshot> | null;
+  progress: CrawlProgress[];
+  generation: number; // Bumped on invalidation; older refreshes are discarded
+}
+
+// Kept on globalThis so dev-mode module reloads don't drop the cache
+const globalForCache = globalThis as unknown as {
+  marketsCache?: CacheState;
+};
+const cache: CacheState = (globalForCache.marketsCache ??= {
+  current: null,
+  refreshing: null,
+  progress: [],
+  generation: 0,
+});
+
+// ============================================
+// REFRESH
+// ============================================
+
+function toCached(snapshot: MarketsSnapshot): CachedSnapshot {
+  const body = JSON.stringify(snapshot);
+  const hash = createHash("sha1").update(body).digest("base64url");
+
+  return {
+    snapshot,
+    body,
+    etag: `W/"${hash}"`,
+    // HTTP dates have second precision
+    lastModified: new Date(Math.floor(Date.parse(snapshot.generatedAt) / 1000) * 1000),
+  };
+}
+
+// One refresh at a time; concurrent callers share the in-flight promise
+function refresh(): Promise<CachedSnapshot> {
+  if (cache.refreshing) return cache.refreshing;
+
+  const generation = cache.generation;
+  const isCurrent = () => generation === cache.generation;
+  let crawl: CrawlProgress[] = [];
+  cache.progress = [];
+  const refreshing = loadOverrides()
+    .then((overrides) =>
+      fetchAllMarkets({
+        overrides,
+        onProgress: (progress) => {
+          crawl = progress;
+          if (isCurrent()) cache.progress = progress;
+        },
+      })
+    )
+    .then((result) => {
+      const generatedAt = new Date().toISOString();
+
+      // An invalidated refresh still answers the callers already waiting on
+      // it, but leaves the feed, the stores and the cache to its replacement
+      if (!isCurrent()) return toCached({ ...result, generatedAt, crawl, hurdleRate: HURDLE_RATE });
+
+      // Streamed pairs come back with their live books applied
+      const markets = trackMarkets(result.markets, { demo: result.usedDummy });
+      const cached = toCached({ ...result, markets, generatedAt, crawl, hurdleRate: HURDLE_RATE });
+
+      // Demo data would only pollute the history, fire false alerts and mark
+      // positions to made-up prices
+      if (!result.usedDummy) {
+        appendScan(markets, generatedAt).catch((error) =>
+          console.error("Failed to record scan history:", error)
+        );
+        processAlerts(markets).catch((error) =>
+          console.error("Failed to process alerts:", error)
+        );
+        trackPositions(markets, generatedAt).catch((error) =>
+          console.error("Failed to mark positions:", error)
+        );
+      }
+
+      cache.current = cached;
+      return cached;
+    })
+    .finally(() => {
+      if (cache.refreshing === refreshing) cache.refreshing = null;
+    });
+
+  cache.refreshing = refreshing;
+  return refreshing;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+// Stale-while-revalidate: fresh snapshots are served as-is, stale ones are
+// served while a refresh runs in the background, expired ones block on it.
+export async function getMarketsSnapshot(): Promise<CachedSnapshot> {
+  const current = cache.current;
+  if (!current) return refresh();
+
+  const age = Date.now() - current.lastModified.getTime();
+  if (age < FRESH_MS) return current;
+  if (age < STALE_MS) {
+    refresh().catch((error) =>
+      console.error("Background market refresh failed:", error)
+    );
+    return current;
+  }
+
+  return refresh();
+}
+
+// Drop the snapshot, e.g. after a match override, so the next request
+// rebuilds it. A refresh already in flight finishes without side effects.
+export function invalidateMarketsSnapshot(): void {
+  cache.generation++;
+  cache.current = null;
+  cache.refreshing = null;
+}
+
+export function getCrawlProgress(): { refreshing: boolean; progress: CrawlProgress[] } {
+  return { refreshing: cache.refreshing !== null, progress: cache.progress };
+}
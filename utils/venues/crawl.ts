@@ -0,0 +1,36 @@
+// ============================================
+// PAGINATED CRAWL HELPERS
+// ============================================
+
+export const DEFAULT_CRAWL_OPTIONS = {
+  maxPages: 25,
+  concurrency: 4,
+};
+
+const RETRY_LIMIT = 3;
+
+// GET a JSON page, backing off on rate limits so long crawls don't die halfway
+export async function fetchPage<T>(url: string, venue: string): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, {
+      headers: {
+        Accept: "application/json",
+      },
+      next: { revalidate: 60 },
+    });
+
+    if (response.status === 429 && attempt < RETRY_LIMIT) {
+      await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** attempt));
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`${venue} API error: ${response.status}`);
+    }
+
+    return response.json();
+  }
+}
+
+export function countMarkets(events: { markets?: unknown[] }[]): number {
+  return events.reduce((sum, e) => sum + (e.markets?.length || 0), 0);
+}
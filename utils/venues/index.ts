@@ -0,0 +1,30 @@
+// ============================================
+// VENUE REGISTRY
+// ============================================
+
+import { Venue, VenueAdapter } from "@/types";
+import { polymarketAdapter } from "@/utils/venues/polymarket";
+import { kalshiAdapter } from "@/utils/venues/kalshi";
+import { predictItAdapter } from "@/utils/venues/predictit";
+
+const registry = new Map<Venue, VenueAdapter>();
+
+export function registerVenue<TEvent, TMarket>(
+  adapter: VenueAdapter<TEvent, TMarket>
+): void {
+  registry.set(adapter.id, adapter as unknown as VenueAdapter);
+}
+
+export function getVenue(id: Venue): VenueAdapter {
+  const adapter = registry.get(id);
+  if (!adapter) throw new Error(`Unknown venue: ${id}`);
+  return adapter;
+}
+
+export function getVenues(): VenueAdapter[] {
+  return Array.from(registry.values());
+}
+
+registerVenue(polymarketAdapter);
+registerVenue(kalshiAdapter);
+registerVenue(predictItAdapter);
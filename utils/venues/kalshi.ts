@@ -0,0 +1,332 @@
+// ============================================
+// KALSHI ADAPTER (Trade API v2)
+// ============================================
+
+import { constants, sign } from "crypto";
+import {
+  BookMessage,
+  CrawlOptions,
+  KalshiEvent,
+  KalshiEventsResponse,
+  KalshiMarket,
+  KalshiOrderbookResponse,
+  KalshiStreamMessage,
+  MarketCategory,
+  MarketQuote,
+  NormalizedMarket,
+  OrderBook,
+  VenueAdapter,
+  VenueStream,
+} from "@/types";
+import {
+  extractKeywords,
+  normalizeEventName,
+  referencePrice,
+  sortAsks,
+  validPrice,
+} from "@/utils/normalize";
+import { classifyEvent } from "@/utils/categories";
+import { extractEntities } from "@/utils/entities";
+import { DEFAULT_CRAWL_OPTIONS, countMarkets, fetchPage } from "@/utils/venues/crawl";
+import { kalshiFees } from "@/utils/venues/schedules";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const KALSHI_API = "https://api.elections.kalshi.com/trade-api/v2/events";
+const KALSHI_MARKETS_API = "https://api.elections.kalshi.com/trade-api/v2/markets";
+const KALSHI_WS_PATH = "/trade-api/ws/v2";
+const KALSHI_WS = `wss://api.elections.kalshi.com${KALSHI_WS_PATH}`;
+
+const KALSHI_PAGE_SIZE = 200;
+
+// ============================================
+// FETCHER
+// ============================================
+
+function kalshiCategory(event: KalshiEvent): MarketCategory | null {
+  return classifyEvent({
+    text: `${event.title} ${event.sub_title || ""}`,
+    venueCategory: event.category,
+  });
+}
+
+export function parseKalshiEvents(data: unknown): KalshiEvent[] {
+  return (data as KalshiEventsResponse)?.events || [];
+}
+
+// Kalshi pages with an opaque cursor, so the crawl is sequential.
+// Markets are requested nested inside their events.
+export async function fetchKalshiEvents(
+  options: CrawlOptions = {}
+): Promise<KalshiEvent[]> {
+  const {
+    maxPages = DEFAULT_CRAWL_OPTIONS.maxPages,
+    pageSize = KALSHI_PAGE_SIZE,
+    onProgress,
+  } = options;
+
+  try {
+    const events: KalshiEvent[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const params = new URLSearchParams({
+        status: "open",
+        limit: String(pageSize),
+        with_nested_markets: "true",
+      });
+      if (cursor) params.set("cursor", cursor);
+
+      const data = await fetchPage<KalshiEventsResponse>(
+        `${KALSHI_API}?${params}`,
+        "Kalshi"
+      );
+      pages++;
+      events.push(...parseKalshiEvents(data));
+      cursor = data.cursor || undefined;
+
+      const markets = countMarkets(events);
+      const done = !cursor || pages >= maxPages;
+      onProgress?.({
+        venue: "kalshi",
+        pages,
+        events: events.length,
+        markets,
+        estimatedTotal: done ? markets : Math.round(markets + markets / pages),
+        done,
+      });
+    } while (cursor && pages < maxPages);
+
+    return events.filter((event) => kalshiCategory(event) !== null);
+  } catch (error) {
+    console.error("Failed to fetch Kalshi events:", error);
+    throw error;
+  }
+}
+
+// Kalshi only lists bids. A YES bid at p is a NO offer at 100 - p and vice versa.
+export async function fetchKalshiOrderbook(ticker: string): Promise<OrderBook> {
+  const response = await fetch(`${KALSHI_MARKETS_API}/${ticker}/orderbook`, {
+    headers: {
+      Accept: "application/json",
+    },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(`Kalshi orderbook error: ${response.status}`);
+  }
+
+  const data: KalshiOrderbookResponse = await response.json();
+  const yesBids = data.orderbook?.yes || [];
+  const noBids = data.orderbook?.no || [];
+
+  return {
+    venue: "kalshi",
+    marketId: ticker,
+    yesAsks: sortAsks(noBids.map(([price, size]) => ({ price: 100 - price, size }))),
+    noAsks: sortAsks(yesBids.map(([price, size]) => ({ price: 100 - price, size }))),
+  };
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+function kalshiQuote(market: KalshiMarket): MarketQuote {
+  return {
+    yesBid: validPrice(market.yes_bid),
+    yesAsk: validPrice(market.yes_ask),
+    noBid: validPrice(market.no_bid),
+    noAsk: validPrice(market.no_ask),
+  };
+}
+
+function kalshiUrl(_event: KalshiEvent, market: KalshiMarket): string {
+  return `https://kalshi.com/markets/${market.ticker}`;
+}
+
+export function normalizeKalshiEvents(events: KalshiEvent[]): NormalizedMarket[] {
+  const markets: NormalizedMarket[] = [];
+
+  for (const event of events) {
+    const category = kalshiCategory(event);
+    if (!category) continue;
+
+    for (const market of event.markets || []) {
+      if (market.status !== "active") continue;
+
+      const quote = kalshiQuote(market);
+      const yesPrice = referencePrice(quote, market.last_price || 50);
+      const eventName = market.title || event.title;
+
+      markets.push({
+        venue: "kalshi",
+        marketId: market.ticker,
+        eventName,
+        normalizedName: normalizeEventName(eventName),
+        price: yesPrice,
+        quote,
+        bookId: market.ticker,
+        url: kalshiUrl(event, market),
+        volume: market.volume || 0,
+        openInterest: market.open_interest ?? null,
+        keywords: extractKeywords(eventName),
+        entities: extractEntities(event.title, eventName),
+        category,
+        eventId: event.event_ticker,
+        eventTitle: event.title,
+        outcomeLabel: market.yes_sub_title || market.subtitle || market.title,
+        exclusive: !!event.mutually_exclusive,
+        resolution: {
+          endDate: market.close_time || market.expiration_time || null,
+          source: null, // Named inside the rules text
+          rules: [market.rules_primary, market.rules_secondary].filter(Boolean).join("\n") || null,
+        },
+      });
+    }
+  }
+
+  return markets;
+}
+
+// ============================================
+// STREAMING
+// ============================================
+
+// Kalshi signs each connection with an API key: RSA-PSS over timestamp +
+// method + path. Without a key the connection is unsigned, which a mock
+// server accepts.
+function kalshiStreamHeaders(): Record<string, string> {
+  const keyId = process.env.KALSHI_API_KEY_ID;
+  const privateKey = process.env.KALSHI_PRIVATE_KEY?.replace(/\\n/g, "\n");
+  if (!keyId || !privateKey) return {};
+
+  const timestamp = String(Date.now());
+  const signature = sign("sha256", Buffer.from(`${timestamp}GET${KALSHI_WS_PATH}`), {
+    key: privateKey,
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+    saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+  });
+
+  return {
+    "KALSHI-ACCESS-KEY": keyId,
+    "KALSHI-ACCESS-SIGNATURE": signature.toString("base64"),
+    "KALSHI-ACCESS-TIMESTAMP": timestamp,
+  };
+}
+
+// Last sequence number per subscription, reset on every resubscribe
+const kalshiSequences = new Map<number, number>();
+
+function subscribeKalshiStream(tickers: string[]): unknown[] {
+  kalshiSequences.clear();
+  return [
+    {
+      id: 1,
+      cmd: "subscribe",
+      params: { channels: ["orderbook_delta", "ticker"], market_tickers: tickers },
+    },
+  ];
+}
+
+// Book messages are bids, [price in cents, quantity], like the REST book
+function parseKalshiStream(data: unknown): BookMessage[] {
+  const { type, sid, seq, msg } = data as KalshiStreamMessage;
+  if (type === "error") {
+    console.warn("Kalshi stream error:", msg);
+    return [];
+  }
+  if (!msg?.market_ticker) return [];
+
+  if (type === "orderbook_snapshot" || type === "orderbook_delta") {
+    if (sid !== undefined && seq !== undefined) {
+      const last = kalshiSequences.get(sid);
+      kalshiSequences.set(sid, seq);
+      if (type === "orderbook_delta" && last !== undefined && seq !== last + 1) {
+        return [{ type: "gap" }];
+      }
+    }
+  }
+
+  const levels = (bids: [number, number][] = []) =>
+    bids.map(([price, size]) => ({ price, size }));
+
+  switch (type) {
+    case "orderbook_snapshot":
+      return [
+        {
+          type: "snapshot",
+          bookId: msg.market_ticker,
+          yesBids: levels(msg.yes),
+          noBids: levels(msg.no),
+        },
+      ];
+    case "orderbook_delta":
+      if (!msg.side || msg.price === undefined || msg.delta === undefined) return [];
+      return [
+        {
+          type: "delta",
+          bookId: msg.market_ticker,
+          side: msg.side,
+          price: msg.price,
+          delta: msg.delta,
+        },
+      ];
+    case "ticker":
+      return msg.volume === undefined
+        ? []
+        : [{ type: "volume", bookId: msg.market_ticker, volume: msg.volume }];
+    default:
+      return [];
+  }
+}
+
+const kalshiStream: VenueStream = {
+  defaultUrl: KALSHI_WS,
+  urlEnv: "KALSHI_WS_URL",
+  headers: kalshiStreamHeaders,
+  credentialed: () => !!process.env.KALSHI_API_KEY_ID && !!process.env.KALSHI_PRIVATE_KEY,
+  subscribe: subscribeKalshiStream,
+  parse: parseKalshiStream,
+};
+
+// ============================================
+// SETTLEMENT
+// ============================================
+
+// `result` is "yes" or "no" once Kalshi settles; scalar and voided markets
+// carry the YES payout in `settlement_value` instead
+export async function fetchKalshiSettlement(ticker: string): Promise<number | null> {
+  const { market } = await fetchPage<{ market: KalshiMarket }>(
+    `${KALSHI_MARKETS_API}/${ticker}`,
+    "Kalshi"
+  );
+  if (market.result === "yes") return 100;
+  if (market.result === "no") return 0;
+  if (market.status === "settled" && typeof market.settlement_value === "number") {
+    return market.settlement_value;
+  }
+  return null;
+}
+
+// ============================================
+// ADAPTER
+// ============================================
+
+export const kalshiAdapter: VenueAdapter<KalshiEvent, KalshiMarket> = {
+  id: "kalshi",
+  name: "Kalshi",
+  fetchEvents: fetchKalshiEvents,
+  parseEvents: parseKalshiEvents,
+  normalize: normalizeKalshiEvents,
+  quote: kalshiQuote,
+  url: kalshiUrl,
+  fetchOrderBook: fetchKalshiOrderbook,
+  stream: kalshiStream,
+  fetchSettlement: fetchKalshiSettlement,
+  fees: kalshiFees,
+};
@@ -0,0 +1,18 @@
+import { Venue } from "@/types";
+
+// Display names and column order. Kept apart from the adapters so client
+// components can use them without pulling in fetch code.
+export const VENUE_LABELS: Record<Venue, string> = {
+  polymarket: "Polymarket",
+  kalshi: "Kalshi",
+  predictit: "PredictIt",
+};
+
+export const VENUE_ORDER: Venue[] = ["polymarket", "kalshi", "predictit"];
+
+// Series colours for charts
+export const VENUE_COLORS: Record<Venue, string> = {
+  polymarket: "#60a5fa",
+  kalshi: "#a78bfa",
+  predictit: "#f472b6",
+};
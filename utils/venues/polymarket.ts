@@ -0,0 +1,349 @@
+// ============================================
+// POLYMARKET ADAPTER (Gamma API + CLOB)
+// ============================================
+
+import {
+  BookMessage,
+  CrawlOptions,
+  MarketCategory,
+  MarketQuote,
+  NormalizedMarket,
+  OrderBook,
+  PolymarketBookResponse,
+  PolymarketEvent,
+  PolymarketEventsResponse,
+  PolymarketMarket,
+  PolymarketStreamMessage,
+  VenueAdapter,
+  VenueStream,
+} from "@/types";
+import { mapWithConcurrency } from "@/utils/concurrency";
+import {
+  complement,
+  decimalToCents,
+  extractKeywords,
+  normalizeEventName,
+  sortAsks,
+  validPrice,
+} from "@/utils/normalize";
+import { classifyEvent } from "@/utils/categories";
+import { extractEntities } from "@/utils/entities";
+import { DEFAULT_CRAWL_OPTIONS, countMarkets, fetchPage } from "@/utils/venues/crawl";
+import { polymarketFees } from "@/utils/venues/schedules";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const POLYMARKET_API = "https://gamma-api.polymarket.com/events";
+const POLYMARKET_MARKETS_API = "https://gamma-api.polymarket.com/markets";
+const POLYMARKET_CLOB_API = "https://clob.polymarket.com/book";
+const POLYMARKET_WS = "wss://ws-subscriptions-clob.polymarket.com/ws/market";
+
+const POLYMARKET_PAGE_SIZE = 100;
+
+// ============================================
+// FETCHER
+// ============================================
+
+function polymarketCategory(event: PolymarketEvent): MarketCategory | null {
+  return classifyEvent({
+    text: `${event.title} ${event.description || ""} ${event.slug} ${(event.tags || []).join(" ")}`,
+    venueCategory: event.category,
+    tags: event.tags,
+  });
+}
+
+// Gamma returns a bare array, but older deployments wrapped it
+export function parsePolymarketEvents(data: unknown): PolymarketEvent[] {
+  if (Array.isArray(data)) return data;
+  const wrapped = data as PolymarketEventsResponse;
+  return wrapped?.events || wrapped?.data || [];
+}
+
+async function fetchPolymarketPage(
+  offset: number,
+  pageSize: number
+): Promise<PolymarketEvent[]> {
+  const data = await fetchPage<unknown>(
+    `${POLYMARKET_API}?active=true&closed=false&limit=${pageSize}&offset=${offset}`,
+    "Polymarket"
+  );
+
+  return parsePolymarketEvents(data);
+}
+
+// Gamma uses offset pagination, so pages can be fetched in parallel batches.
+// A short page means we have reached the end.
+export async function fetchPolymarketEvents(
+  options: CrawlOptions = {}
+): Promise<PolymarketEvent[]> {
+  const {
+    maxPages = DEFAULT_CRAWL_OPTIONS.maxPages,
+    concurrency = DEFAULT_CRAWL_OPTIONS.concurrency,
+    pageSize = POLYMARKET_PAGE_SIZE,
+    onProgress,
+  } = options;
+
+  try {
+    const events: PolymarketEvent[] = [];
+    let pages = 0;
+    let exhausted = false;
+
+    while (!exhausted && pages < maxPages) {
+      const batch = Array.from(
+        { length: Math.min(concurrency, maxPages - pages) },
+        (_, i) => (pages + i) * pageSize
+      );
+      const results = await mapWithConcurrency(batch, concurrency, (offset) =>
+        fetchPolymarketPage(offset, pageSize)
+      );
+
+      for (const page of results) {
+        pages++;
+        events.push(...page);
+        if (page.length < pageSize) {
+          exhausted = true;
+          break;
+        }
+      }
+
+      const markets = countMarkets(events);
+      const perPage = markets / pages;
+      onProgress?.({
+        venue: "polymarket",
+        pages,
+        events: events.length,
+        markets,
+        estimatedTotal: exhausted
+          ? markets
+          : Math.round(markets + perPage * Math.min(concurrency, maxPages - pages)),
+        done: exhausted || pages >= maxPages,
+      });
+    }
+
+    return events.filter((event) => polymarketCategory(event) !== null);
+  } catch (error) {
+    console.error("Failed to fetch Polymarket events:", error);
+    throw error;
+  }
+}
+
+// The YES token book is enough: its bids are the NO side's offers
+export async function fetchPolymarketOrderbook(tokenId: string): Promise<OrderBook> {
+  const response = await fetch(`${POLYMARKET_CLOB_API}?token_id=${tokenId}`, {
+    headers: {
+      Accept: "application/json",
+    },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(`Polymarket book error: ${response.status}`);
+  }
+
+  const data: PolymarketBookResponse = await response.json();
+  const toLevel = (l: { price: string; size: string }, invert: boolean) => {
+    const cents = decimalToCents(l.price) ?? 0;
+    return {
+      price: invert ? complement(cents) ?? 0 : cents,
+      size: parseFloat(l.size),
+    };
+  };
+
+  return {
+    venue: "polymarket",
+    marketId: tokenId,
+    yesAsks: sortAsks((data.asks || []).map((l) => toLevel(l, false))),
+    noAsks: sortAsks((data.bids || []).map((l) => toLevel(l, true))),
+  };
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+// Polymarket's YES and NO tokens share one book: buying NO is selling YES
+function polymarketQuote(market: PolymarketMarket): MarketQuote {
+  const yesBid = validPrice(decimalToCents(market.bestBid));
+  const yesAsk = validPrice(decimalToCents(market.bestAsk));
+
+  return {
+    yesBid,
+    yesAsk,
+    noBid: complement(yesAsk),
+    noAsk: complement(yesBid),
+  };
+}
+
+function polymarketTokenId(clobTokenIds?: string): string | null {
+  try {
+    const ids = JSON.parse(clobTokenIds || "[]");
+    return typeof ids[0] === "string" ? ids[0] : null;
+  } catch {
+    return null;
+  }
+}
+
+function polymarketUrl(event: PolymarketEvent): string {
+  return `https://polymarket.com/event/${event.slug}`;
+}
+
+export function normalizePolymarketEvents(
+  events: PolymarketEvent[]
+): NormalizedMarket[] {
+  const markets: NormalizedMarket[] = [];
+
+  for (const event of events) {
+    const category = polymarketCategory(event);
+    if (!category) continue;
+
+    for (const market of event.markets || []) {
+      if (market.closed || !market.active) continue;
+
+      let yesPrice = 0;
+      try {
+        const prices = JSON.parse(market.outcomePrices || "[]");
+        const outcomes = JSON.parse(market.outcomes || '["Yes", "No"]');
+
+        const yesIndex = outcomes.findIndex(
+          (o: string) => o.toLowerCase() === "yes"
+        );
+        yesPrice = yesIndex >= 0 ? parseFloat(prices[yesIndex]) : parseFloat(prices[0]);
+        yesPrice = Math.round(yesPrice * 100);
+      } catch {
+        yesPrice = 50;
+      }
+
+      const eventName = market.groupItemTitle || market.question || event.title;
+
+      markets.push({
+        venue: "polymarket",
+        marketId: market.id,
+        eventName,
+        normalizedName: normalizeEventName(eventName),
+        price: yesPrice,
+        quote: polymarketQuote(market),
+        bookId: polymarketTokenId(market.clobTokenIds),
+        url: polymarketUrl(event),
+        volume: parseFloat(market.volume) || 0,
+        openInterest: null, // Not read from Gamma
+        keywords: extractKeywords(eventName),
+        entities: extractEntities(event.title, eventName),
+        category,
+        eventId: event.id,
+        eventTitle: event.title,
+        outcomeLabel: market.groupItemTitle || market.question,
+        exclusive: !!event.negRisk, // Gamma flags winner-take-all groups
+        resolution: {
+          endDate: market.endDate || event.endDate || null,
+          source: market.resolutionSource || event.resolutionSource || null,
+          rules: market.description || event.description || null,
+        },
+      });
+    }
+  }
+
+  return markets;
+}
+
+// ============================================
+// STREAMING
+// ============================================
+
+// Only YES tokens are subscribed. A YES ask at p is a NO bid at 100 - p.
+function streamLevel(price: string, ask: boolean): { side: "yes" | "no"; price: number } | null {
+  const cents = decimalToCents(price);
+  if (cents === null) return null;
+  return ask ? { side: "no", price: complement(cents) ?? 0 } : { side: "yes", price: cents };
+}
+
+function parsePolymarketStream(data: unknown): BookMessage[] {
+  const events = (Array.isArray(data) ? data : [data]) as PolymarketStreamMessage[];
+  const messages: BookMessage[] = [];
+
+  for (const event of events) {
+    if (event.event_type === "book" && event.asset_id) {
+      const ladder = (levels: { price: string; size: string }[] = [], ask: boolean) =>
+        levels.flatMap((l) => {
+          const level = streamLevel(l.price, ask);
+          return level ? [{ price: level.price, size: parseFloat(l.size) || 0 }] : [];
+        });
+      messages.push({
+        type: "snapshot",
+        bookId: event.asset_id,
+        yesBids: ladder(event.bids, false),
+        noBids: ladder(event.asks, true),
+      });
+    } else if (event.event_type === "price_change") {
+      const changes =
+        event.price_changes ??
+        (event.changes || []).map((c) => ({ ...c, asset_id: event.asset_id ?? "" }));
+      for (const change of changes) {
+        const level = streamLevel(change.price, change.side === "SELL");
+        if (!level) continue;
+        messages.push({
+          type: "level",
+          bookId: change.asset_id,
+          ...level,
+          size: parseFloat(change.size) || 0,
+        });
+      }
+    }
+  }
+
+  return messages;
+}
+
+const polymarketStream: VenueStream = {
+  defaultUrl: POLYMARKET_WS,
+  urlEnv: "POLYMARKET_WS_URL",
+  subscribe: (tokenIds) => [{ type: "market", assets_ids: tokenIds }],
+  parse: parsePolymarketStream,
+  keepAlive: { message: "PING", intervalMs: 10_000 }, // Idle sockets are dropped
+};
+
+// ============================================
+// SETTLEMENT
+// ============================================
+
+// Closed markets carry their final outcome prices: 1/0 for a winner, 0.5/0.5
+// for a 50-50 split. Closed but not yet resolved by the oracle is still open.
+export async function fetchPolymarketSettlement(marketId: string): Promise<number | null> {
+  const market = await fetchPage<PolymarketMarket>(
+    `${POLYMARKET_MARKETS_API}/${marketId}`,
+    "Polymarket"
+  );
+  if (!market.closed) return null;
+  if (market.umaResolutionStatus && market.umaResolutionStatus !== "resolved") return null;
+
+  const prices = JSON.parse(market.outcomePrices || "[]");
+  const outcomes = JSON.parse(market.outcomes || '["Yes", "No"]');
+  const yesIndex = Math.max(
+    outcomes.findIndex((o: string) => o.toLowerCase() === "yes"),
+    0
+  );
+  const yes = decimalToCents(prices[yesIndex]);
+  if (yes === null) return null;
+  // Without the oracle status only a clean 0 or 100 counts as final
+  if (!market.umaResolutionStatus && yes !== 0 && yes !== 100) return null;
+  return yes;
+}
+
+// ============================================
+// ADAPTER
+// ============================================
+
+export const polymarketAdapter: VenueAdapter<PolymarketEvent, PolymarketMarket> = {
+  id: "polymarket",
+  name: "Polymarket",
+  fetchEvents: fetchPolymarketEvents,
+  parseEvents: parsePolymarketEvents,
+  normalize: normalizePolymarketEvents,
+  quote: polymarketQuote,
+  url: polymarketUrl,
+  fetchOrderBook: fetchPolymarketOrderbook,
+  stream: polymarketStream,
+  fetchSettlement: fetchPolymarketSettlement,
+  fees: polymarketFees,
+};
@@ -0,0 +1,186 @@
+// ============================================
+// PREDICTIT ADAPTER (marketdata API)
+// ============================================
+
+import {
+  CrawlOptions,
+  MarketCategory,
+  MarketQuote,
+  NormalizedMarket,
+  OrderBook,
+  OrderBookLevel,
+  PredictItContract,
+  PredictItMarket,
+  PredictItResponse,
+  VenueAdapter,
+} from "@/types";
+import {
+  decimalToCents,
+  extractKeywords,
+  normalizeEventName,
+  referencePrice,
+  validPrice,
+} from "@/utils/normalize";
+import { classifyEvent } from "@/utils/categories";
+import { extractEntities } from "@/utils/entities";
+import { fetchPage } from "@/utils/venues/crawl";
+import { PREDICTIT_POSITION_LIMIT, predictItFees } from "@/utils/venues/schedules";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PREDICTIT_API = "https://www.predictit.org/api/marketdata";
+
+// ============================================
+// FETCHER
+// ============================================
+
+// marketdata/all holds every market; there is no pagination
+export function parsePredictItMarkets(data: unknown): PredictItMarket[] {
+  return (data as PredictItResponse)?.markets || [];
+}
+
+// PredictIt has no categories, so keywords decide
+function predictItCategory(market: PredictItMarket): MarketCategory | null {
+  return classifyEvent({ text: `${market.name} ${market.shortName}` });
+}
+
+export async function fetchPredictItMarkets(
+  options: CrawlOptions = {}
+): Promise<PredictItMarket[]> {
+  try {
+    const data = await fetchPage<unknown>(`${PREDICTIT_API}/all/`, "PredictIt");
+    const markets = parsePredictItMarkets(data);
+    const contracts = markets.reduce((sum, m) => sum + m.contracts.length, 0);
+
+    options.onProgress?.({
+      venue: "predictit",
+      pages: 1,
+      events: markets.length,
+      markets: contracts,
+      estimatedTotal: contracts,
+      done: true,
+    });
+
+    return markets.filter((market) => predictItCategory(market) !== null);
+  } catch (error) {
+    console.error("Failed to fetch PredictIt markets:", error);
+    throw error;
+  }
+}
+
+// PredictIt publishes no depth, only the best price on each side. The
+// position cap is the binding limit, so the book is one level of that size.
+// bookId is "<marketId>:<contractId>".
+export async function fetchPredictItOrderbook(bookId: string): Promise<OrderBook> {
+  const [marketId, contractId] = bookId.split(":");
+  const market = await fetchPage<PredictItMarket>(
+    `${PREDICTIT_API}/markets/${marketId}`,
+    "PredictIt"
+  );
+  const contract = market.contracts.find((c) => String(c.id) === contractId);
+  if (!contract) {
+    throw new Error(`PredictIt contract not found: ${bookId}`);
+  }
+
+  const quote = predictItQuote(contract);
+  const level = (price: number | null): OrderBookLevel[] =>
+    price === null
+      ? []
+      : [{ price, size: Math.floor(PREDICTIT_POSITION_LIMIT / (price / 100)) }];
+
+  return {
+    venue: "predictit",
+    marketId: bookId,
+    yesAsks: level(quote.yesAsk),
+    noAsks: level(quote.noAsk),
+  };
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+// "Buy" costs are what we pay (asks); "sell" prices are what we get (bids)
+function predictItQuote(contract: PredictItContract): MarketQuote {
+  return {
+    yesBid: validPrice(decimalToCents(contract.bestSellYesCost)),
+    yesAsk: validPrice(decimalToCents(contract.bestBuyYesCost)),
+    noBid: validPrice(decimalToCents(contract.bestSellNoCost)),
+    noAsk: validPrice(decimalToCents(contract.bestBuyNoCost)),
+  };
+}
+
+function predictItUrl(market: PredictItMarket): string {
+  return market.url || `https://www.predictit.org/markets/detail/${market.id}`;
+}
+
+// Single-contract markets are plain yes/no questions. In multi-contract
+// markets each contract is one outcome, named after the market it belongs to.
+function contractName(market: PredictItMarket, contract: PredictItContract): string {
+  if (market.contracts.length === 1) return market.name;
+  return `${contract.name} - ${market.name}`;
+}
+
+export function normalizePredictItMarkets(markets: PredictItMarket[]): NormalizedMarket[] {
+  const normalized: NormalizedMarket[] = [];
+
+  for (const market of markets) {
+    if (market.status !== "Open") continue;
+    const category = predictItCategory(market);
+    if (!category) continue;
+
+    for (const contract of market.contracts || []) {
+      if (contract.status !== "Open") continue;
+
+      const quote = predictItQuote(contract);
+      const lastTrade = decimalToCents(contract.lastTradePrice) ?? 50;
+      const eventName = contractName(market, contract);
+
+      normalized.push({
+        venue: "predictit",
+        marketId: String(contract.id),
+        eventName,
+        normalizedName: normalizeEventName(eventName),
+        price: referencePrice(quote, Math.round(lastTrade)),
+        quote,
+        bookId: `${market.id}:${contract.id}`,
+        url: predictItUrl(market),
+        volume: 0, // Not published
+        openInterest: null,
+        keywords: extractKeywords(eventName),
+        entities: extractEntities(market.name, eventName),
+        category,
+        eventId: String(market.id),
+        eventTitle: market.name,
+        outcomeLabel: contract.name,
+        exclusive: market.contracts.length > 1, // Linked contracts, one can win
+        resolution: {
+          endDate: contract.dateEnd !== "N/A" ? contract.dateEnd : null,
+          source: null,
+          rules: null, // Only on the market page
+        },
+      });
+    }
+  }
+
+  return normalized;
+}
+
+// ============================================
+// ADAPTER
+// ============================================
+
+export const predictItAdapter: VenueAdapter<PredictItMarket, PredictItContract> = {
+  id: "predictit",
+  name: "PredictIt",
+  fetchEvents: fetchPredictItMarkets,
+  parseEvents: parsePredictItMarkets,
+  normalize: normalizePredictItMarkets,
+  quote: predictItQuote,
+  url: predictItUrl,
+  fetchOrderBook: fetchPredictItOrderbook,
+  fees: predictItFees,
+  positionLimit: PREDICTIT_POSITION_LIMIT,
+};
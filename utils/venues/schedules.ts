@@ -0,0 +1,69 @@
+// ============================================
+// VENUE FEE SCHEDULES & POSITION LIMITS
+// ============================================
+//
+// Kept apart from the adapters, like the labels, so client components can
+// price trades without pulling in fetch code.
+
+import { FeeSchedule, Venue } from "@/types";
+import { ceilToCent } from "@/utils/normalize";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// PredictIt per-contract position cap in dollars (CFTC no-action letter terms)
+export const PREDICTIT_POSITION_LIMIT = 850;
+
+// PredictIt takes 10% of the profit on every winning contract, 5% of every
+// withdrawal
+const PROFIT_FEE_RATE = 0.1;
+const WITHDRAWAL_FEE_RATE = 0.05;
+
+// ============================================
+// SCHEDULES
+// ============================================
+
+// Polymarket charges no trading fee on most markets. Proceeds are USDC on
+// Polygon, so getting them back to a bank costs a bridge/exchange withdrawal.
+export const polymarketFees: FeeSchedule = {
+  venue: "polymarket",
+  tradingFee: () => 0,
+  settlementFee: () => 0,
+  withdrawalFee: (amount) => (amount > 0 ? ceilToCent(1 + amount * 0.001) : 0),
+  gasPerTrade: 0.01,
+};
+
+// Kalshi taker fee: 0.07 × C × P × (1 − P), rounded up to the cent.
+// Settlement and ACH withdrawals are free.
+export const kalshiFees: FeeSchedule = {
+  venue: "kalshi",
+  tradingFee: (price, contracts) => {
+    const p = price / 100;
+    return ceilToCent(0.07 * contracts * p * (1 - p));
+  },
+  settlementFee: () => 0,
+  withdrawalFee: () => 0,
+  gasPerTrade: 0,
+};
+
+// No trading fee. 10% of the profit on each winning contract, then 5% of
+// whatever is withdrawn.
+export const predictItFees: FeeSchedule = {
+  venue: "predictit",
+  tradingFee: () => 0,
+  settlementFee: (profit) => (profit > 0 ? ceilToCent(profit * PROFIT_FEE_RATE) : 0),
+  withdrawalFee: (amount) => (amount > 0 ? ceilToCent(amount * WITHDRAWAL_FEE_RATE) : 0),
+  gasPerTrade: 0,
+};
+
+export const VENUE_FEES: Record<Venue, FeeSchedule> = {
+  polymarket: polymarketFees,
+  kalshi: kalshiFees,
+  predictit: predictItFees,
+};
+
+// Max dollars one account may hold in a single contract, where capped
+export const VENUE_POSITION_LIMITS: Partial<Record<Venue, number>> = {
+  predictit: PREDICTIT_POSITION_LIMIT,
+};